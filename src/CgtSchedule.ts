@@ -0,0 +1,215 @@
+/**
+ * Cron-like schedules in Combine Galactic Time
+ */
+
+import { Timestamp } from './Timestamp.js';
+import type { TimestampRange } from './TimestampRange.js';
+import type { CgtScheduleOptions } from './types/index.js';
+
+const DAYS_PER_YEAR = 365;
+
+/** Longest delay `setTimeout` accepts; longer waits are split up */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1',
+  '@daily': '0 0 *',
+  '@hourly': '0 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day', min: 1, max: DAYS_PER_YEAR },
+] as const;
+
+/**
+ * Expand one cron field (`*`, `5`, `1,15`, `9-17`, `*\/6`, `10-50/5`) into sorted values
+ */
+function parseField(field: string, { name, min, max }: (typeof FIELDS)[number]): number[] {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new RangeError(`Invalid ${name} field "${field}" in CGT schedule.`);
+    }
+    const [, range, from, to, every] = match;
+    const start = range === '*' ? min : Number(from);
+    const end = range === '*' ? max : to !== undefined ? Number(to) : every ? max : start;
+    const step = every !== undefined ? Number(every) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new RangeError(`${name} field "${field}" must stay between ${min} and ${max}.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Schedule of CGT moments written as `<minute> <hour> <day of year>`, in cron syntax.
+ *
+ * Each field accepts `*`, numbers, lists (`1,15`), ranges (`9-17`) and steps (`*\/6`).
+ * `@daily`, `@hourly` and `@yearly` are shorthands for `0 0 *`, `0 * *` and `0 0 1`.
+ *
+ * @example
+ * ```typescript
+ * // Every CGT day at 00:00
+ * const stop = new CgtSchedule('0 0 *').start(async (at) => {
+ *   await postDailyReport(at);
+ * });
+ *
+ * new CgtSchedule('*\/30 8-20 *').next(); // next half hour between 8:00 and 20:30
+ * ```
+ */
+export class CgtSchedule {
+  readonly expression: string;
+
+  private minutes: number[];
+  private hours: number[];
+  private days: number[];
+
+  /**
+   * @param expression - `<minute> <hour> <day of year>` cron expression, or an alias
+   * @throws RangeError if the expression is invalid
+   */
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    const fields = (ALIASES[this.expression] ?? this.expression).split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+      throw new RangeError(
+        `CGT schedule "${expression}" must have three fields: minute, hour and day of year.`
+      );
+    }
+    [this.minutes, this.hours, this.days] = FIELDS.map((field, index) =>
+      parseField(fields[index], field)
+    );
+  }
+
+  /**
+   * Check whether a timestamp falls on the schedule (seconds are ignored)
+   */
+  matches(timestamp: Timestamp): boolean {
+    return (
+      this.minutes.includes(timestamp.getMinute()) &&
+      this.hours.includes(timestamp.getHour()) &&
+      this.days.includes(timestamp.getDay())
+    );
+  }
+
+  /**
+   * Next scheduled moment strictly after a timestamp
+   *
+   * @param after - Moment to search from. Default: now
+   */
+  next(after: Timestamp = Timestamp.now()): Timestamp {
+    const from = after.startOf('minute').add({ minutes: 1 });
+    let year = from.getYear();
+    let day = from.getDay();
+    let hour = from.getHour();
+    let minute = from.getMinute();
+
+    // Each pass fixes the day, hour or minute, carrying into the next unit up when needed
+    for (;;) {
+      const nextDay = this.days.find((value) => value >= day);
+      if (nextDay === undefined) {
+        [year, day, hour, minute] = [year + 1, this.days[0], this.hours[0], this.minutes[0]];
+        continue;
+      }
+      if (nextDay !== day) {
+        [day, hour, minute] = [nextDay, this.hours[0], this.minutes[0]];
+      }
+
+      const nextHour = this.hours.find((value) => value >= hour);
+      if (nextHour === undefined) {
+        [day, hour, minute] = [day + 1, 0, 0];
+        if (day > DAYS_PER_YEAR) {
+          [year, day] = [year + 1, 1];
+        }
+        continue;
+      }
+      if (nextHour !== hour) {
+        [hour, minute] = [nextHour, this.minutes[0]];
+      }
+
+      const nextMinute = this.minutes.find((value) => value >= minute);
+      if (nextMinute === undefined) {
+        [hour, minute] = [hour + 1, 0];
+        if (hour > 23) {
+          [day, hour] = [day + 1, 0];
+          if (day > DAYS_PER_YEAR) {
+            [year, day] = [year + 1, 1];
+          }
+        }
+        continue;
+      }
+
+      return new Timestamp({ year, day, hour, minute: nextMinute });
+    }
+  }
+
+  /**
+   * Every scheduled moment within a range
+   */
+  between(range: TimestampRange): Timestamp[] {
+    const found: Timestamp[] = [];
+    const first = range.start.startOf('minute');
+    let current = range.start.equals(first) && this.matches(first) ? first : this.next(range.start);
+    while (range.contains(current)) {
+      found.push(current);
+      current = this.next(current);
+    }
+    return found;
+  }
+
+  /**
+   * Run a task at every scheduled moment until stopped.
+   *
+   * Runs are timed against the system clock. A run that throws is reported to `onError` and
+   * does not stop the schedule.
+   *
+   * @param task - Called with the scheduled moment
+   * @returns Function that stops the schedule
+   */
+  start(
+    task: (at: Timestamp) => void | Promise<void>,
+    options: CgtScheduleOptions = {}
+  ): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', stop);
+    };
+
+    const arm = (due: Timestamp) => {
+      const delay = due.toUnixTimestamp('ms') - Date.now();
+      timer = setTimeout(
+        () => {
+          if (stopped) {
+            return;
+          }
+          if (delay > MAX_TIMEOUT_MS) {
+            arm(due);
+            return;
+          }
+          arm(this.next(due));
+          Promise.resolve()
+            .then(() => task(due))
+            .catch((error) => options.onError?.(error, due));
+        },
+        Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS)
+      );
+    };
+
+    if (options.signal?.aborted) {
+      return stop;
+    }
+    options.signal?.addEventListener('abort', stop, { once: true });
+    arm(this.next());
+    return stop;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Formatting, parsing and arithmetic for Combine Galactic Time durations
+ */
+
+import type { Duration, HumanizeDurationOptions } from './types/index.js';
+
+const MS_PER_SECOND = 1000;
+const SEC_PER_MINUTE = 60;
+const SEC_PER_HOUR = 60 * SEC_PER_MINUTE;
+const SEC_PER_DAY = 24 * SEC_PER_HOUR;
+const SEC_PER_YEAR = 365 * SEC_PER_DAY;
+
+const UNITS: Array<{ key: keyof Duration; seconds: number; long: string; short: string }> = [
+  { key: 'years', seconds: SEC_PER_YEAR, long: 'year', short: 'y' },
+  { key: 'days', seconds: SEC_PER_DAY, long: 'day', short: 'd' },
+  { key: 'hours', seconds: SEC_PER_HOUR, long: 'hour', short: 'h' },
+  { key: 'minutes', seconds: SEC_PER_MINUTE, long: 'minute', short: 'm' },
+  { key: 'seconds', seconds: 1, long: 'second', short: 's' },
+];
+
+/** Unit names accepted by `parse()`, mapped to their length in seconds */
+const UNIT_NAMES: Record<string, number> = {
+  y: SEC_PER_YEAR,
+  yr: SEC_PER_YEAR,
+  yrs: SEC_PER_YEAR,
+  year: SEC_PER_YEAR,
+  years: SEC_PER_YEAR,
+  d: SEC_PER_DAY,
+  day: SEC_PER_DAY,
+  days: SEC_PER_DAY,
+  h: SEC_PER_HOUR,
+  hr: SEC_PER_HOUR,
+  hrs: SEC_PER_HOUR,
+  hour: SEC_PER_HOUR,
+  hours: SEC_PER_HOUR,
+  m: SEC_PER_MINUTE,
+  min: SEC_PER_MINUTE,
+  mins: SEC_PER_MINUTE,
+  minute: SEC_PER_MINUTE,
+  minutes: SEC_PER_MINUTE,
+  s: 1,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+};
+
+const ISO_PATTERN =
+  /^(-)?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+function applySign(value: number, sign: number): number {
+  if (value === 0) {
+    return 0;
+  }
+  return value * sign;
+}
+
+/**
+ * Helpers for `Duration` objects (`{ years, days, hours, minutes, seconds }`).
+ *
+ * A CGT year is always 365 days and there are no months. All results are whole seconds,
+ * normalized so each unit stays below the next one up (e.g. `{ hours: 30 }` becomes
+ * `{ days: 1, hours: 6 }`), with every non-zero part carrying the duration's sign.
+ *
+ * @example
+ * ```typescript
+ * const travel = DurationUtil.parse('1d 4h');
+ * const total = DurationUtil.add(travel, DurationUtil.scale(travel, 0.5));
+ * DurationUtil.humanize(total); // '1 day, 18 hours'
+ * ```
+ */
+export class DurationUtil {
+  /**
+   * Break a number of seconds down into a normalized duration
+   *
+   * @param seconds - Total seconds; fractions are dropped
+   */
+  static fromSeconds(seconds: number): Duration {
+    if (!Number.isFinite(seconds)) {
+      throw new RangeError('seconds must be a finite number.');
+    }
+
+    const sign = seconds < 0 ? -1 : 1;
+    let remaining = Math.floor(Math.abs(seconds));
+    const duration = {} as Duration;
+    for (const unit of UNITS) {
+      const value = Math.floor(remaining / unit.seconds);
+      remaining -= value * unit.seconds;
+      duration[unit.key] = applySign(value, sign);
+    }
+    return duration;
+  }
+
+  /**
+   * Break a number of milliseconds down into a normalized duration
+   */
+  static fromMilliseconds(milliseconds: number): Duration {
+    return DurationUtil.fromSeconds(milliseconds / MS_PER_SECOND);
+  }
+
+  /**
+   * Total seconds in a duration (partial durations and signed parts allowed)
+   */
+  static toSeconds(duration: Partial<Duration>): number {
+    let total = 0;
+    for (const unit of UNITS) {
+      const value = duration[unit.key] ?? 0;
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`${unit.key} must be a finite number.`);
+      }
+      total += value * unit.seconds;
+    }
+    return total;
+  }
+
+  /**
+   * Total milliseconds in a duration
+   */
+  static toMilliseconds(duration: Partial<Duration>): number {
+    return DurationUtil.toSeconds(duration) * MS_PER_SECOND;
+  }
+
+  /**
+   * Carry overflowing units into larger ones, e.g. `{ minutes: 90 }` to `{ hours: 1, minutes: 30 }`
+   */
+  static normalize(duration: Partial<Duration>): Duration {
+    return DurationUtil.fromSeconds(DurationUtil.toSeconds(duration));
+  }
+
+  /**
+   * Sum of durations
+   */
+  static add(...durations: Array<Partial<Duration>>): Duration {
+    return DurationUtil.fromSeconds(
+      durations.reduce((total, duration) => total + DurationUtil.toSeconds(duration), 0)
+    );
+  }
+
+  /**
+   * Difference `a - b`, negative if `b` is longer
+   */
+  static subtract(a: Partial<Duration>, b: Partial<Duration>): Duration {
+    return DurationUtil.fromSeconds(DurationUtil.toSeconds(a) - DurationUtil.toSeconds(b));
+  }
+
+  /**
+   * Multiply a duration, rounding to the nearest second
+   *
+   * @example
+   * DurationUtil.scale({ hours: 3 }, 1 / 2.5); // travel time at hyperspeed 2.5 instead of 1
+   */
+  static scale(duration: Partial<Duration>, factor: number): Duration {
+    if (!Number.isFinite(factor)) {
+      throw new RangeError('factor must be a finite number.');
+    }
+    return DurationUtil.fromSeconds(Math.round(DurationUtil.toSeconds(duration) * factor));
+  }
+
+  /**
+   * Compare two durations, for use with `Array.prototype.sort()`
+   *
+   * @returns Negative if `a` is shorter, positive if longer, 0 if equal
+   */
+  static compare(a: Partial<Duration>, b: Partial<Duration>): number {
+    return Math.sign(DurationUtil.toSeconds(a) - DurationUtil.toSeconds(b));
+  }
+
+  /**
+   * Check whether two durations are the same length, e.g. `{ hours: 24 }` and `{ days: 1 }`
+   */
+  static equals(a: Partial<Duration>, b: Partial<Duration>): boolean {
+    return DurationUtil.compare(a, b) === 0;
+  }
+
+  /**
+   * Describe a duration in words
+   *
+   * @example
+   * DurationUtil.humanize({ days: 2, hours: 3 }); // '2 days, 3 hours'
+   * DurationUtil.humanize({ days: 2, hours: 3, minutes: 4 }, { largest: 1, short: true }); // '2d'
+   */
+  static humanize(duration: Partial<Duration>, options: HumanizeDurationOptions = {}): string {
+    const seconds = DurationUtil.toSeconds(duration);
+    const normalized = DurationUtil.fromSeconds(Math.abs(seconds));
+    const parts = UNITS.filter((unit) => normalized[unit.key] !== 0)
+      .slice(0, options.largest ?? UNITS.length)
+      .map((unit) => {
+        const value = normalized[unit.key];
+        if (options.short) {
+          return `${value}${unit.short}`;
+        }
+        return `${value} ${unit.long}${value === 1 ? '' : 's'}`;
+      });
+
+    const text =
+      parts.length > 0
+        ? parts.join(options.short ? ' ' : ', ')
+        : options.short
+          ? '0s'
+          : '0 seconds';
+    return seconds <= -1 ? `-${text}` : text;
+  }
+
+  /**
+   * Format as an ISO 8601 duration, e.g. `P1Y20DT4H`
+   */
+  static toISOString(duration: Partial<Duration>): string {
+    const seconds = DurationUtil.toSeconds(duration);
+    const {
+      years,
+      days,
+      hours,
+      minutes,
+      seconds: secs,
+    } = DurationUtil.fromSeconds(Math.abs(seconds));
+    const date = `${years ? `${years}Y` : ''}${days ? `${days}D` : ''}`;
+    const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${secs ? `${secs}S` : ''}`;
+    const text = `P${date}${time ? `T${time}` : ''}`;
+    return text === 'P' ? 'PT0S' : `${seconds <= -1 ? '-' : ''}${text}`;
+  }
+
+  /**
+   * Parse a duration such as `1y 20d 4h`, `2 days, 3 hours`, `1.5h` or an ISO 8601
+   * duration such as `P1Y20DT4H`. A leading `-` makes the duration negative.
+   *
+   * @throws RangeError if the text is not a duration, or uses ISO 8601 months
+   */
+  static parse(text: string): Duration {
+    const trimmed = text.trim();
+
+    if (/^-?P/i.test(trimmed)) {
+      const match = ISO_PATTERN.exec(trimmed);
+      if (!match || !match.slice(2).some((part) => part !== undefined)) {
+        if (/^-?P[^T]*\d(?:\.\d+)?M/i.test(trimmed)) {
+          throw new RangeError(`Cannot parse "${text}": CGT has no months.`);
+        }
+        throw new RangeError(`Cannot parse "${text}" as an ISO 8601 duration.`);
+      }
+      const [, sign, years, weeks, days, hours, minutes, seconds] = match;
+      const total =
+        Number(years ?? 0) * SEC_PER_YEAR +
+        Number(weeks ?? 0) * 7 * SEC_PER_DAY +
+        Number(days ?? 0) * SEC_PER_DAY +
+        Number(hours ?? 0) * SEC_PER_HOUR +
+        Number(minutes ?? 0) * SEC_PER_MINUTE +
+        Number(seconds ?? 0);
+      return DurationUtil.fromSeconds(Math.round(sign ? -total : total));
+    }
+
+    const sign = trimmed.startsWith('-') ? -1 : 1;
+    const body = trimmed.replace(/^[-+]/, '').toLowerCase();
+    const part = /(\d+(?:\.\d+)?)\s*([a-z]+)(?:\s*,\s*|\s+and\s+|\s*)/y;
+    let total = 0;
+    while (part.lastIndex < body.length) {
+      const match = part.exec(body);
+      if (!match) {
+        throw new RangeError(`Cannot parse "${text}" as a duration.`);
+      }
+      const unit = UNIT_NAMES[match[2]];
+      if (unit === undefined) {
+        throw new RangeError(`Cannot parse "${text}": unknown unit "${match[2]}".`);
+      }
+      total += Number(match[1]) * unit;
+    }
+    if (body === '') {
+      throw new RangeError(`Cannot parse "${text}" as a duration.`);
+    }
+    return DurationUtil.fromSeconds(Math.round(sign * total));
+  }
+}
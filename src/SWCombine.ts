@@ -2,9 +2,14 @@
  * Main SW Combine SDK client
  */
 
-import { HttpClient } from './http/HttpClient.js';
+import { HttpClient, Middleware } from './http/HttpClient.js';
 import { OAuthClient } from './auth/OAuthClient.js';
 import { TokenManager } from './auth/TokenManager.js';
+import { TokenVault, VaultEntry } from './auth/TokenVault.js';
+import { OAuthFlow } from './auth/OAuthFlow.js';
+import { authorizeInteractive } from './auth/authorizeInteractive.js';
+import { ScopeGuard } from './auth/ScopeGuard.js';
+import { explainMissingScopes, ScopedMethod } from './auth/scopeMap.js';
 import { SWCError } from './http/errors.js';
 import {
   ClientConfig,
@@ -13,10 +18,21 @@ import {
   OAuthCallbackQuery,
   AuthorizationResult,
   RateLimitInfo,
+  RequestPriority,
+  CacheStats,
+  StartAuthorizationOptions,
+  StartAuthorizationResult,
+  CompleteAuthorizationResult,
+  InteractiveAuthorizationOptions,
+  HydrateOptions,
+  ReferenceLike,
+  BatchOperation,
+  BatchOptions,
+  BatchResult,
 } from './types/index.js';
 
 // Import all resource classes
-import { ApiResource } from './resources/ApiResource.js';
+import { ApiResource, RateLimitEntry } from './resources/ApiResource.js';
 import { CharacterResource } from './resources/CharacterResource.js';
 import { FactionResource } from './resources/FactionResource.js';
 import { GalaxyResource } from './resources/GalaxyResource.js';
@@ -27,22 +43,15 @@ import { TypesResource } from './resources/TypesResource.js';
 import { EventsResource } from './resources/EventsResource.js';
 import { LocationResource } from './resources/LocationResource.js';
 import { DatacardResource } from './resources/DatacardResource.js';
+import { NormalizedResource } from './resources/NormalizedResource.js';
+import { ReferenceResolver } from './resources/ReferenceResolver.js';
+import { runBatch } from './resources/batch.js';
 
 /**
- * Main SW Combine SDK client
- *
- * **Warning:** Integration tests (`npm run test:integration`) make real API calls
- * to the SW Combine servers. Run `npm test` for unit tests instead.
- *
- * @see https://www.swcombine.com/ws/v2.0/developers/index.php SW Combine API Documentation
+ * API resources and request helpers built around one HTTP client, shared by `SWCombine`
+ * and the character views returned by `client.as(uid)`
  */
-export class SWCombine {
-  private config: ClientConfig;
-  private http: HttpClient;
-  private oauthClient?: OAuthClient;
-  private tokenManager: TokenManager;
-
-  // API resources
+export abstract class ClientResources {
   public readonly api: ApiResource;
   public readonly character: CharacterResource;
   public readonly faction: FactionResource;
@@ -54,16 +63,146 @@ export class SWCombine {
   public readonly events: EventsResource;
   public readonly location: LocationResource;
   public readonly datacard: DatacardResource;
+  /** The same data as flat models (see `NormalizedResource`) */
+  public readonly normalized: NormalizedResource;
+  private resolver: ReferenceResolver;
+
+  protected constructor(protected readonly http: HttpClient) {
+    this.api = new ApiResource(http);
+    this.character = new CharacterResource(http);
+    this.faction = new FactionResource(http);
+    this.galaxy = new GalaxyResource(http);
+    this.inventory = new InventoryResource(http);
+    this.market = new MarketResource(http);
+    this.news = new NewsResource(http);
+    this.types = new TypesResource(http);
+    this.events = new EventsResource(http);
+    this.location = new LocationResource(http);
+    this.datacard = new DatacardResource(http);
+    this.normalized = new NormalizedResource(http);
+    this.resolver = new ReferenceResolver(http);
+  }
+
+  /**
+   * Fetch the object a reference points to through the matching resource.
+   * The endpoint comes from the reference's `href`, or from its UID prefix (see `Uid`).
+   * Concurrent lookups of the same object share one request.
+   *
+   * @example
+   * ```typescript
+   * const ship = await client.normalized.inventory.entities.get({ entityType: 'ships', uid: '2:1' });
+   * const owner = await client.resolve<Character>(ship.owner!);
+   * ```
+   */
+  resolve<T = unknown>(ref: ReferenceLike): Promise<T> {
+    return this.resolver.resolve<T>(ref);
+  }
+
+  /**
+   * Copy `value`, adding the object each embedded reference points to as `resolved`.
+   * Lookups go through the cache and rate limiter, and repeated references are fetched once.
+   *
+   * @example
+   * ```typescript
+   * const ship = await client.hydrate(
+   *   await client.inventory.entities.get({ entityType: 'ships', uid: '2:1' }),
+   *   { paths: ['owner', 'location.system'] }
+   * );
+   * // ship.value.owner: { attributes: { uid, href }, value: 'Luke', resolved: { uid, name, faction, ... } }
+   * ```
+   */
+  hydrate<T>(value: T, options?: HydrateOptions): Promise<T> {
+    return this.resolver.hydrate(value, options);
+  }
+
+  /**
+   * Run many API calls with bounded concurrency and per-item retries.
+   * Results are settled (value or `SWCError`) and in the same order as `operations`.
+   * The client's own retries (`maxRetries`) are off inside a batch; `retries` applies instead.
+   * When the rate limit headers show the hourly budget is used up, new calls wait for
+   * the window to reset instead of failing.
+   *
+   * @example
+   * ```typescript
+   * const results = await client.batch(
+   *   uids.map((uid) => () => client.character.get({ uid })),
+   *   { concurrency: 5, onProgress: ({ completed, total }) => console.log(`${completed}/${total}`) }
+   * );
+   * const characters = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+   * ```
+   */
+  batch<T>(operations: BatchOperation<T>[], options: BatchOptions = {}): Promise<BatchResult<T>[]> {
+    return runBatch(operations, options, this.http);
+  }
+
+  /**
+   * Run `fn` with all of its requests queued in the given priority lane.
+   * When the rate limiter is holding requests back, `'interactive'` requests are
+   * sent before `'background'` ones (the default lane).
+   *
+   * @example
+   * ```typescript
+   * const me = await client.withPriority('interactive', () => client.character.me());
+   * ```
+   */
+  withPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+    return this.http.runWithPriority(priority, fn);
+  }
+}
+
+/**
+ * API resources bound to a single character's token, returned by `client.as(uid)`.
+ * Shares the parent client's HTTP client, rate limiter, cache and middleware.
+ */
+export class ScopedClient extends ClientResources {
+  constructor(
+    /** Character UID this view acts as */
+    public readonly uid: string,
+    private readonly tokenManager: TokenManager,
+    http: HttpClient
+  ) {
+    super(http);
+  }
+
+  /**
+   * Get the character's current token
+   */
+  getToken(): OAuthToken | null {
+    return this.tokenManager.getToken();
+  }
+}
+
+/**
+ * Main SW Combine SDK client
+ *
+ * **Warning:** Integration tests (`npm run test:integration`) make real API calls
+ * to the SW Combine servers. Run `npm test` for unit tests instead.
+ *
+ * @see https://www.swcombine.com/ws/v2.0/developers/index.php SW Combine API Documentation
+ */
+export class SWCombine extends ClientResources {
+  private config: ClientConfig;
+  private oauthClient?: OAuthClient;
+  private tokenManager: TokenManager;
+  private scopedClients = new WeakMap<TokenManager, ScopedClient>();
+  private oauthFlow?: OAuthFlow;
+  private scopeGuard: ScopeGuard;
+
+  /** Tokens for additional characters, used by `as(uid)` */
+  public readonly vault: TokenVault;
 
   // Auth property for OAuth operations
   public readonly auth: {
     getAuthorizationUrl: (options: OAuthAuthorizationOptions) => string;
     handleCallback: (query: OAuthCallbackQuery) => Promise<AuthorizationResult>;
+    startFlow: (options: StartAuthorizationOptions) => Promise<StartAuthorizationResult>;
+    completeFlow: (query: OAuthCallbackQuery) => Promise<CompleteAuthorizationResult>;
+    authorizeInteractive: (options: InteractiveAuthorizationOptions) => Promise<OAuthToken>;
+    addCharacter: (query: OAuthCallbackQuery) => Promise<VaultEntry>;
     revokeToken: (refreshToken: string) => Promise<void>;
   };
 
   constructor(config: ClientConfig = {}) {
-    this.config = config;
     const hasClientId = !!config.clientId?.trim();
     const hasClientSecret = !!config.clientSecret?.trim();
 
@@ -73,8 +212,62 @@ export class SWCombine {
       });
     }
 
-    // Initialize token manager
-    this.tokenManager = new TokenManager(config.token);
+    if (config.autoRefresh && !hasClientId) {
+      throw new SWCError('autoRefresh requires clientId and clientSecret to refresh tokens.', {
+        type: 'auth',
+      });
+    }
+
+    // Initialize HTTP client
+    const tokenManager = new TokenManager(config.token, config.tokenStorage);
+    // Granted scopes come from the permissions endpoint, looked up without scope checks for
+    // the character the response cache identifies the token as
+    const scopeGuard = new ScopeGuard(async (manager) => {
+      const uid = await http.characterUid(manager);
+      if (uid === undefined) {
+        throw new SWCError('No token to look up granted scopes for.', { type: 'auth' });
+      }
+      const character = new CharacterResource(http.forTokenManager(manager).withoutScopeCheck());
+      return character.permissions.getScopes({ uid });
+    });
+
+    const http: HttpClient = new HttpClient(
+      {
+        baseURL: config.baseURL,
+        timeout: config.timeout,
+        maxRetries: config.maxRetries,
+        retryDelay: config.retryDelay,
+        debug: config.debug,
+        rateLimiter: config.rateLimiter === true ? {} : config.rateLimiter || undefined,
+        cache: config.cache === true ? {} : config.cache || undefined,
+        checkScopes: config.strictScopes
+          ? (method, url, manager) => scopeGuard.check(method, url, manager)
+          : undefined,
+        validation:
+          typeof config.validateResponses === 'string'
+            ? { mode: config.validateResponses }
+            : config.validateResponses,
+        cgtTimestamps: config.cgtTimestamps,
+        identifyCharacter: async (manager) => {
+          const character = new CharacterResource(
+            http.forTokenManager(manager).withoutCache().withoutScopeCheck()
+          );
+          return (await character.me()).uid;
+        },
+      },
+      tokenManager
+    );
+
+    // Initialize all resources
+    super(http);
+    this.config = config;
+    this.tokenManager = tokenManager;
+    this.scopeGuard = scopeGuard;
+
+    // Load any persisted token in the background
+    this.tokenManager.loadFromStorage().catch(() => {
+      // Surfaced through ready()
+    });
 
     // Initialize OAuth client when full OAuth credentials are provided
     if (hasClientId && hasClientSecret) {
@@ -98,30 +291,15 @@ export class SWCombine {
       return oauthClient.refreshToken(refreshToken);
     });
 
-    // Initialize HTTP client
-    this.http = new HttpClient(
-      {
-        baseURL: config.baseURL,
-        timeout: config.timeout,
-        maxRetries: config.maxRetries,
-        retryDelay: config.retryDelay,
-        debug: config.debug,
-      },
-      this.tokenManager
-    );
+    if (config.autoRefresh) {
+      const leadTime = config.autoRefresh === true ? undefined : config.autoRefresh.leadTime;
+      this.tokenManager.startAutoRefresh(leadTime);
+    }
 
-    // Initialize all resources
-    this.api = new ApiResource(this.http);
-    this.character = new CharacterResource(this.http);
-    this.faction = new FactionResource(this.http);
-    this.galaxy = new GalaxyResource(this.http);
-    this.inventory = new InventoryResource(this.http);
-    this.market = new MarketResource(this.http);
-    this.news = new NewsResource(this.http);
-    this.types = new TypesResource(this.http);
-    this.events = new EventsResource(this.http);
-    this.location = new LocationResource(this.http);
-    this.datacard = new DatacardResource(this.http);
+    // Each vault entry refreshes with its own refresh token
+    this.vault = new TokenVault((refreshToken) =>
+      this.requireOAuthCredentials('refresh access tokens').refreshToken(refreshToken)
+    );
 
     // Set up auth operations
     this.auth = {
@@ -134,9 +312,42 @@ export class SWCombine {
         const result = await oauthClient.handleCallback(query);
         if (result.success && result.token) {
           this.tokenManager.setToken(result.token);
+          await this.tokenManager.flush();
         }
         return result;
       },
+      startFlow: (options: StartAuthorizationOptions) => {
+        return this.getOAuthFlow('generate an authorization URL').start(options);
+      },
+      completeFlow: async (query: OAuthCallbackQuery) => {
+        const result = await this.getOAuthFlow('handle OAuth callbacks').complete(query);
+        if (result.success && result.token) {
+          this.tokenManager.setToken(result.token);
+          await this.tokenManager.flush();
+        }
+        return result;
+      },
+      authorizeInteractive: async (options: InteractiveAuthorizationOptions) => {
+        const oauthClient = this.requireOAuthCredentials('authorize interactively');
+        const token = await authorizeInteractive(oauthClient, options);
+        this.tokenManager.setToken(token);
+        await this.tokenManager.flush();
+        return token;
+      },
+      addCharacter: async (query: OAuthCallbackQuery) => {
+        const oauthClient = this.requireOAuthCredentials('handle OAuth callbacks');
+        const result = await oauthClient.handleCallback(query);
+        if (!result.success || !result.token) {
+          throw new SWCError(`Authorization failed: ${result.error ?? 'no token received'}`, {
+            type: 'auth',
+          });
+        }
+        // Look up who authorized before storing the token under their UID
+        const lookup = new TokenManager(result.token);
+        const me = await new CharacterResource(this.http.forTokenManager(lookup)).me();
+        this.vault.set(me.uid, result.token, me.name);
+        return this.vault.get(me.uid)!;
+      },
       revokeToken: async (refreshToken: string) => {
         const oauthClient = this.requireOAuthCredentials('revoke tokens');
         return oauthClient.revokeToken(refreshToken);
@@ -144,6 +355,43 @@ export class SWCombine {
     };
   }
 
+  /**
+   * Wait until the token from `tokenStorage` has been loaded.
+   * Rejects if the storage could not be read.
+   *
+   * @example
+   * ```typescript
+   * const client = new SWCombine({ clientId, clientSecret, tokenStorage: new FileTokenStorage('.swc-token.json') });
+   * await client.ready();
+   * if (!client.getToken()) {
+   *   console.log('Authorize at', client.auth.getAuthorizationUrl({ scopes, state }));
+   * }
+   * ```
+   */
+  async ready(): Promise<void> {
+    await this.tokenManager.loadFinished();
+  }
+
+  /**
+   * Get a view of the API that acts as a character from the vault.
+   * Views share this client's rate limiter, cache and middleware.
+   *
+   * @example
+   * ```typescript
+   * const { uid } = await client.auth.addCharacter(req.query);
+   * const me = await client.as(uid).character.me();
+   * ```
+   */
+  as(uid: string): ScopedClient {
+    const tokenManager = this.vault.tokenManager(uid);
+    let scoped = this.scopedClients.get(tokenManager);
+    if (!scoped) {
+      scoped = new ScopedClient(uid, tokenManager, this.http.forTokenManager(tokenManager));
+      this.scopedClients.set(tokenManager, scoped);
+    }
+    return scoped;
+  }
+
   /**
    * Set the access token
    */
@@ -180,6 +428,39 @@ export class SWCombine {
     await this.tokenManager.refreshToken();
   }
 
+  /**
+   * Set a callback fired after every successful token refresh (automatic, on 401, or manual).
+   * Useful for persisting the new token.
+   *
+   * @example
+   * ```typescript
+   * client.onTokenRefreshed((token) => db.saveToken(userId, token));
+   * ```
+   */
+  onTokenRefreshed(callback: (token: OAuthToken) => void): void {
+    this.tokenManager.setTokenRefreshedCallback(callback);
+  }
+
+  /**
+   * Set a callback fired when a token refresh fails, e.g. because the refresh token
+   * was revoked. Useful for asking the user to authorize again.
+   *
+   * @example
+   * ```typescript
+   * client.onRefreshFailed((error) => notifyUser('Please log in to SW Combine again'));
+   * ```
+   */
+  onRefreshFailed(callback: (error: unknown) => void): void {
+    this.tokenManager.setRefreshFailedCallback(callback);
+  }
+
+  /**
+   * Stop background token renewal started by the `autoRefresh` option
+   */
+  stopAutoRefresh(): void {
+    this.tokenManager.stopAutoRefresh();
+  }
+
   /**
    * Check if token is expired
    */
@@ -194,6 +475,31 @@ export class SWCombine {
     return this.tokenManager.hasRefreshToken();
   }
 
+  /**
+   * Register middleware that runs around every API request.
+   * Hooks run in registration order; `beforeRequest` may rewrite the request or
+   * return `{ data }` to resolve it without calling the API.
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   beforeRequest: (request) => {
+   *     request.headers['X-Trace-Id'] = crypto.randomUUID();
+   *   },
+   *   afterResponse: (request, response) => {
+   *     console.log(`${request.method} ${request.url} ${response.status} in ${response.durationMs}ms`);
+   *   },
+   *   onError: (request, error) => {
+   *     console.error(`${request.method} ${request.url} failed`, error);
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.http.use(middleware);
+    return this;
+  }
+
   /**
    * Get the current rate limit information.
    * Returns the last known rate limit info from API response headers.
@@ -231,6 +537,83 @@ export class SWCombine {
     this.http.setRateLimitCallback(callback);
   }
 
+  /**
+   * Get response cache hit/miss counters.
+   * Requires `cache` to be enabled in the client config; otherwise both counters stay at 0.
+   *
+   * @example
+   * ```typescript
+   * const { hits, misses } = client.getCacheStats();
+   * ```
+   */
+  getCacheStats(): CacheStats {
+    return this.http.getCacheStats();
+  }
+
+  /**
+   * Remove cached responses whose path matches `pattern`, or clear the whole cache.
+   *
+   * @example
+   * ```typescript
+   * await client.invalidateCache('/factions');
+   * await client.invalidateCache('/types/*');
+   * await client.invalidateCache();
+   * ```
+   */
+  async invalidateCache(pattern?: string): Promise<void> {
+    await this.http.invalidateCache(pattern);
+  }
+
+  /**
+   * Load per-endpoint limits from `/api/ratelimits` into the rate limiter so that
+   * endpoint-specific budgets are respected as well as the global one.
+   * Requires `rateLimiter` to be enabled in the client config.
+   *
+   * @example
+   * ```typescript
+   * const client = new SWCombine({ token, rateLimiter: true });
+   * await client.syncRateLimits();
+   * ```
+   */
+  async syncRateLimits(): Promise<RateLimitEntry[]> {
+    const entries = await this.api.rateLimits();
+    this.http.seedRateLimits(entries);
+    return entries;
+  }
+
+  /**
+   * List the scopes to request so the current token can call every one of `methods`.
+   * Granted scopes are looked up from the permissions endpoint unless passed in.
+   *
+   * @example
+   * ```typescript
+   * const missing = await client.explainMissingScopes(['character.credits.transfer']);
+   * if (missing.length > 0) {
+   *   console.log('Authorize again with:', missing);
+   * }
+   * ```
+   */
+  async explainMissingScopes(
+    methods: Array<ScopedMethod | string>,
+    granted?: string[]
+  ): Promise<string[]> {
+    return explainMissingScopes(
+      methods,
+      granted ?? (await this.scopeGuard.grantedScopes(this.tokenManager))
+    );
+  }
+
+  /**
+   * Get the state/PKCE helper behind `auth.startFlow()` and `auth.completeFlow()`
+   */
+  private getOAuthFlow(operation: string): OAuthFlow {
+    this.oauthFlow ??= new OAuthFlow(
+      this.requireOAuthCredentials(operation),
+      this.config.oauthFlow
+    );
+    return this.oauthFlow;
+  }
+
   /**
    * Ensure OAuth credentials are configured before running OAuth-only operations.
    */
@@ -2,10 +2,13 @@
  * Timestamp utility for working with Star Wars Combine Combine Galactic Time (CGT)
  */
 
+import { DurationUtil } from './DurationUtil.js';
 import type {
   TimestampMoment,
   Duration,
+  TimeBlob,
   TimestampFormat,
+  TimestampPrecision,
   TimestampUnit,
 } from './types/index.js';
 
@@ -20,10 +23,67 @@ const MS_PER_HOUR = MINUTES_PER_HOUR * MS_PER_MINUTE;
 const MS_PER_DAY = HOURS_PER_DAY * MS_PER_HOUR;
 const MS_PER_YEAR = DAYS_PER_YEAR * MS_PER_DAY;
 
-const SEC_PER_MINUTE = SECONDS_PER_MINUTE;
-const SEC_PER_HOUR = MINUTES_PER_HOUR * SEC_PER_MINUTE;
-const SEC_PER_DAY = HOURS_PER_DAY * SEC_PER_HOUR;
-const SEC_PER_YEAR = DAYS_PER_YEAR * SEC_PER_DAY;
+/**
+ * Custom format templates equivalent to each preset
+ */
+const PRESET_TEMPLATES: Record<TimestampFormat, string> = {
+  full: 'Year {y} Day {d}, {h}:{mm}:{ss}',
+  minute: 'Year {y} Day {d}, {h}:{mm}',
+  day: 'Year {y} Day {d}',
+  shortFull: 'Y{y} D{d}, {h}:{mm}:{ss}',
+  shortMinute: 'Y{y} D{d}, {h}:{mm}',
+  shortDay: 'Y{y} D{d}',
+};
+
+/**
+ * Pattern and moment fields matched by each custom format tag when parsing
+ */
+const PARSE_TAGS: Record<string, { pattern: string; fields: Array<keyof TimestampMoment> }> = {
+  y: { pattern: '(\\d+)', fields: ['year'] },
+  yy: { pattern: '(\\d{2,})', fields: ['year'] },
+  d: { pattern: '(\\d+)', fields: ['day'] },
+  dd: { pattern: '(\\d{2,})', fields: ['day'] },
+  h: { pattern: '(\\d+)', fields: ['hour'] },
+  hh: { pattern: '(\\d{2})', fields: ['hour'] },
+  m: { pattern: '(\\d+)', fields: ['minute'] },
+  mm: { pattern: '(\\d{2})', fields: ['minute'] },
+  s: { pattern: '(\\d+)', fields: ['second'] },
+  ss: { pattern: '(\\d{2})', fields: ['second'] },
+  hms: { pattern: '(\\d{2}):(\\d{2}):(\\d{2})', fields: ['hour', 'minute', 'second'] },
+};
+
+/**
+ * Split a custom format string into literal text and `{tag}` parts
+ */
+function tokenizeFormat(format: string): Array<{ text: string } | { tag: string }> {
+  const tokens: Array<{ text: string } | { tag: string }> = [];
+  let text = '';
+  let currentTag = '';
+  let isInTag = false;
+
+  for (const char of format.split('')) {
+    if (char === '{' && !isInTag) {
+      isInTag = true;
+      continue;
+    }
+    if (char === '}' && isInTag) {
+      tokens.push({ text }, { tag: currentTag.toLowerCase() });
+      text = '';
+      isInTag = false;
+      currentTag = '';
+      continue;
+    }
+
+    if (isInTag) {
+      currentTag += char;
+    } else {
+      text += char;
+    }
+  }
+  tokens.push({ text });
+
+  return tokens.filter((token) => !('text' in token) || token.text !== '');
+}
 
 /**
  * Utility class for working with Star Wars Combine timestamps.
@@ -100,6 +160,40 @@ export class Timestamp {
     return this.calculateTimestampFromMillisecondsSinceStart(date.getTime() - this.swcStartMs);
   }
 
+  /**
+   * Convert a time from an API response, such as a message's `time`, a news item's `posted`
+   * or an event's `timestamp`
+   *
+   * The unix `timestamp` is used when present; otherwise the `years`, `days`, `hours`, `mins`
+   * and `secs` parts are read.
+   *
+   * @param blob - Time blob, or a unix timestamp as a number or numeric string
+   * @returns Timestamp instance representing the CGT moment
+   * @throws RangeError if the value holds neither a unix timestamp nor a valid CGT moment
+   *
+   * @example
+   * Timestamp.fromTimeBlob(message.time).toDate();
+   */
+  static fromTimeBlob(blob: TimeBlob | string | number): Timestamp {
+    const unix = typeof blob === 'object' && blob !== null ? blob.timestamp : blob;
+    if (typeof unix === 'number' || (typeof unix === 'string' && unix.trim() !== '')) {
+      if (Number.isFinite(Number(unix))) {
+        return Timestamp.fromUnixTimestamp(Number(unix));
+      }
+    }
+    if (typeof blob !== 'object' || blob === null) {
+      throw new RangeError('blob must be a time object or a unix timestamp.');
+    }
+
+    return new Timestamp({
+      year: Number(blob.years),
+      day: Number(blob.days),
+      hour: Number(blob.hours ?? 0),
+      minute: Number(blob.mins ?? 0),
+      second: Number(blob.secs ?? 0),
+    });
+  }
+
   /**
    * Get the current Combine Galactic Time
    *
@@ -109,6 +203,93 @@ export class Timestamp {
     return Timestamp.fromDate(new Date());
   }
 
+  /**
+   * Parse a string written by `toString()`
+   *
+   * Without a format, each preset is tried in turn. Custom formats use the same tags as
+   * `toString()` and must include `{y}` and `{d}`; matching ignores case and the amount of
+   * whitespace.
+   *
+   * @param text - Formatted timestamp, e.g. `Year 25 Day 60, 6:03:12`
+   * @param format - Preset format name or custom format string
+   * @returns Timestamp instance representing the parsed CGT moment
+   * @throws RangeError if the text does not match the format or is not a valid moment
+   */
+  static parse(text: string, format?: TimestampFormat | string): Timestamp {
+    if (format === undefined) {
+      for (const preset of Object.keys(PRESET_TEMPLATES) as TimestampFormat[]) {
+        const moment = Timestamp.matchTemplate(text, PRESET_TEMPLATES[preset]);
+        if (moment) {
+          return new Timestamp(moment);
+        }
+      }
+      throw new RangeError(`Cannot parse "${text}" as a CGT timestamp.`);
+    }
+
+    const template = PRESET_TEMPLATES[format as TimestampFormat] ?? format;
+    const fields = tokenizeFormat(template).flatMap((token) =>
+      'tag' in token ? (PARSE_TAGS[token.tag]?.fields ?? []) : []
+    );
+    if (!fields.includes('year') || !fields.includes('day')) {
+      throw new RangeError('format must include year and day tags to be parsed.');
+    }
+
+    const moment = Timestamp.matchTemplate(text, template);
+    if (!moment) {
+      throw new RangeError(`Cannot parse "${text}" with format "${format}".`);
+    }
+    return new Timestamp(moment);
+  }
+
+  /**
+   * Compare two timestamps, for use with `Array.prototype.sort()`
+   *
+   * @returns Negative if `a` is earlier, positive if later, 0 if equal
+   */
+  static compare(a: Timestamp, b: Timestamp): number {
+    return Math.sign(
+      a.calculateMillisecondsSinceStartFromTimestamp() -
+        b.calculateMillisecondsSinceStartFromTimestamp()
+    );
+  }
+
+  /**
+   * Match text against a custom format template
+   *
+   * @returns Parsed moment, or undefined if the text does not match
+   */
+  private static matchTemplate(text: string, template: string): TimestampMoment | undefined {
+    const fields: Array<keyof TimestampMoment> = [];
+    let pattern = '';
+    for (const token of tokenizeFormat(template)) {
+      if ('text' in token) {
+        pattern += token.text
+          .split(/\s+/)
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('\\s+');
+        continue;
+      }
+      const tag = PARSE_TAGS[token.tag];
+      if (!tag) {
+        throw new RangeError(`Unknown format tag {${token.tag}}.`);
+      }
+      pattern += tag.pattern;
+      fields.push(...tag.fields);
+    }
+
+    const match = new RegExp(`^${pattern}$`, 'i').exec(text.trim());
+    if (!match) {
+      return undefined;
+    }
+    const moment: Partial<TimestampMoment> = {};
+    fields.forEach((field, index) => {
+      moment[field] = Number(match[index + 1]);
+    });
+    return moment.year !== undefined && moment.day !== undefined
+      ? (moment as TimestampMoment)
+      : undefined;
+  }
+
   /**
    * Calculate CGT from milliseconds since SWC start
    *
@@ -233,6 +414,81 @@ export class Timestamp {
     return this.second;
   }
 
+  /**
+   * Compare this timestamp to another
+   *
+   * @param other - Timestamp to compare with
+   * @returns Negative if this timestamp is earlier, positive if later, 0 if equal
+   */
+  compare(other: Timestamp): number {
+    return Timestamp.compare(this, other);
+  }
+
+  /**
+   * Check whether this timestamp is earlier than another
+   */
+  isBefore(other: Timestamp): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /**
+   * Check whether this timestamp is later than another
+   */
+  isAfter(other: Timestamp): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /**
+   * Check whether this timestamp is the same moment as another
+   */
+  equals(other: Timestamp): boolean {
+    return other instanceof Timestamp && this.compare(other) === 0;
+  }
+
+  /**
+   * Round down to the start of the year, day, hour or minute
+   *
+   * @param unit - Unit to round to
+   * @returns New Timestamp, e.g. `Year 25 Day 60, 0:00:00` for `startOf('day')`
+   */
+  startOf(unit: TimestampPrecision): Timestamp {
+    const { year, day, hour, minute } = this;
+    switch (unit) {
+      case 'year':
+        return new Timestamp({ year, day: 1 });
+      case 'day':
+        return new Timestamp({ year, day });
+      case 'hour':
+        return new Timestamp({ year, day, hour });
+      case 'minute':
+        return new Timestamp({ year, day, hour, minute });
+      default:
+        throw new RangeError('unit must be one of: year, day, hour, minute.');
+    }
+  }
+
+  /**
+   * Round up to the last second of the year, day, hour or minute
+   *
+   * @param unit - Unit to round to
+   * @returns New Timestamp, e.g. `Year 25 Day 60, 23:59:59` for `endOf('day')`
+   */
+  endOf(unit: TimestampPrecision): Timestamp {
+    const { year, day, hour, minute } = this;
+    switch (unit) {
+      case 'year':
+        return new Timestamp({ year, day: DAYS_PER_YEAR, hour: 23, minute: 59, second: 59 });
+      case 'day':
+        return new Timestamp({ year, day, hour: 23, minute: 59, second: 59 });
+      case 'hour':
+        return new Timestamp({ year, day, hour, minute: 59, second: 59 });
+      case 'minute':
+        return new Timestamp({ year, day, hour, minute, second: 59 });
+      default:
+        throw new RangeError('unit must be one of: year, day, hour, minute.');
+    }
+  }
+
   /**
    * Calculate a new timestamp by adding time to this timestamp
    *
@@ -241,7 +497,9 @@ export class Timestamp {
    */
   add(duration: Partial<Duration>): Timestamp {
     const unixTime = this.toUnixTimestamp('sec');
-    return Timestamp.fromUnixTimestamp(unixTime + durationToSeconds(duration));
+    return Timestamp.fromUnixTimestamp(
+      unixTime + DurationUtil.toSeconds(validateDuration(duration))
+    );
   }
 
   /**
@@ -253,7 +511,10 @@ export class Timestamp {
   subtract(duration: Partial<Duration>): Timestamp {
     const unixTime = this.toUnixTimestamp('sec');
     return Timestamp.fromUnixTimestamp(
-      Math.max(unixTime - durationToSeconds(duration), Timestamp.swcStartSeconds)
+      Math.max(
+        unixTime - DurationUtil.toSeconds(validateDuration(duration)),
+        Timestamp.swcStartSeconds
+      )
     );
   }
 
@@ -270,7 +531,7 @@ export class Timestamp {
 
     const startTime = this.toUnixTimestamp('sec');
     const endTime = otherTimestamp.toUnixTimestamp('sec');
-    return secondsToDuration(endTime - startTime);
+    return DurationUtil.fromSeconds(endTime - startTime);
   }
 
   /**
@@ -299,53 +560,11 @@ export class Timestamp {
    * @returns Formatted timestamp string
    */
   toString(format: TimestampFormat | string = 'full'): string {
-    // Handle preset formats
-    switch (format) {
-      case 'full':
-        return `Year ${this.year} Day ${this.day}, ${this.hour}:${this.minute
-          .toString()
-          .padStart(2, '0')}:${this.second.toString().padStart(2, '0')}`;
-      case 'minute':
-        return `Year ${this.year} Day ${this.day}, ${this.hour}:${this.minute.toString().padStart(2, '0')}`;
-      case 'day':
-        return `Year ${this.year} Day ${this.day}`;
-      case 'shortFull':
-        return `Y${this.year} D${this.day}, ${this.hour}:${this.minute
-          .toString()
-          .padStart(2, '0')}:${this.second.toString().padStart(2, '0')}`;
-      case 'shortMinute':
-        return `Y${this.year} D${this.day}, ${this.hour}:${this.minute.toString().padStart(2, '0')}`;
-      case 'shortDay':
-        return `Y${this.year} D${this.day}`;
-      default:
-        break;
-    }
-
-    // Handle custom format strings
-    let formattedString = '';
-    let currentTag = '';
-    let isInTag = false;
-
-    for (const char of format.split('')) {
-      if (char === '{' && !isInTag) {
-        isInTag = true;
-        continue;
-      }
-      if (char === '}' && isInTag) {
-        formattedString += this.substituteTag(currentTag);
-        isInTag = false;
-        currentTag = '';
-        continue;
-      }
-
-      if (isInTag) {
-        currentTag += char;
-      } else {
-        formattedString += char;
-      }
-    }
+    const template = PRESET_TEMPLATES[format as TimestampFormat] ?? format;
 
-    return formattedString;
+    return tokenizeFormat(template)
+      .map((token) => ('tag' in token ? this.substituteTag(token.tag) : token.text))
+      .join('');
   }
 
   /**
@@ -422,60 +641,16 @@ export class Timestamp {
 }
 
 /**
- * Convert a duration to total seconds
+ * Check that every part of a duration to add or subtract is a non-negative integer
  *
  * @param duration - Duration object (partial allowed)
- * @returns Total seconds
- */
-function durationToSeconds(duration: Partial<Duration>): number {
-  const years = validateDurationPart(duration.years, 'years');
-  const days = validateDurationPart(duration.days, 'days');
-  const hours = validateDurationPart(duration.hours, 'hours');
-  const minutes = validateDurationPart(duration.minutes, 'minutes');
-  const seconds = validateDurationPart(duration.seconds, 'seconds');
-
-  return (
-    years * SEC_PER_YEAR +
-    days * SEC_PER_DAY +
-    hours * SEC_PER_HOUR +
-    minutes * SEC_PER_MINUTE +
-    seconds
-  );
-}
-
-/**
- * Convert seconds to a duration object
- *
- * @param seconds - Total seconds
- * @returns Duration breakdown
+ * @returns The same duration
  */
-function secondsToDuration(seconds: number): Duration {
-  if (!Number.isFinite(seconds)) {
-    throw new RangeError('seconds must be a finite number.');
+function validateDuration(duration: Partial<Duration>): Partial<Duration> {
+  for (const part of ['years', 'days', 'hours', 'minutes', 'seconds'] as const) {
+    validateDurationPart(duration[part], part);
   }
-
-  const sign = seconds < 0 ? -1 : 1;
-  let remaining = Math.abs(Math.floor(seconds));
-
-  const years = Math.floor(remaining / SEC_PER_YEAR);
-  remaining -= years * SEC_PER_YEAR;
-
-  const days = Math.floor(remaining / SEC_PER_DAY);
-  remaining -= days * SEC_PER_DAY;
-
-  const hours = Math.floor(remaining / SEC_PER_HOUR);
-  remaining -= hours * SEC_PER_HOUR;
-
-  const minutes = Math.floor(remaining / SEC_PER_MINUTE);
-  remaining -= minutes * SEC_PER_MINUTE;
-
-  return {
-    years: applySign(years, sign),
-    days: applySign(days, sign),
-    hours: applySign(hours, sign),
-    minutes: applySign(minutes, sign),
-    seconds: applySign(remaining, sign),
-  };
+  return duration;
 }
 
 function validateDurationPart(value: number | undefined, label: keyof Duration): number {
@@ -487,10 +662,3 @@ function validateDurationPart(value: number | undefined, label: keyof Duration):
   }
   return value;
 }
-
-function applySign(value: number, sign: number): number {
-  if (value === 0) {
-    return 0;
-  }
-  return value * sign;
-}
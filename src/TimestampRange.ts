@@ -0,0 +1,118 @@
+/**
+ * Span of Combine Galactic Time between two timestamps
+ */
+
+import { Timestamp } from './Timestamp.js';
+import type { Duration, TimestampFormat, TimestampPrecision } from './types/index.js';
+
+const STEPS: Record<TimestampPrecision, Partial<Duration>> = {
+  year: { years: 1 },
+  day: { days: 1 },
+  hour: { hours: 1 },
+  minute: { minutes: 1 },
+};
+
+/**
+ * Range of CGT moments from `start` to `end`, both included.
+ *
+ * @example
+ * ```typescript
+ * const today = TimestampRange.of(Timestamp.now(), 'day');
+ * for (const hour of today.iterate('hour')) {
+ *   console.log(hour.toString('shortMinute'));
+ * }
+ * ```
+ */
+export class TimestampRange {
+  /**
+   * @param start - First moment in the range
+   * @param end - Last moment in the range
+   * @throws RangeError if `end` is before `start`
+   */
+  constructor(
+    readonly start: Timestamp,
+    readonly end: Timestamp
+  ) {
+    if (!(start instanceof Timestamp) || !(end instanceof Timestamp)) {
+      throw new RangeError('start and end must be Timestamps.');
+    }
+    if (end.isBefore(start)) {
+      throw new RangeError('end must not be before start.');
+    }
+  }
+
+  /**
+   * The whole year, day, hour or minute containing a timestamp
+   *
+   * @example
+   * TimestampRange.of(ts, 'day'); // Year 25 Day 60, 0:00:00 to Year 25 Day 60, 23:59:59
+   */
+  static of(timestamp: Timestamp, unit: TimestampPrecision): TimestampRange {
+    return new TimestampRange(timestamp.startOf(unit), timestamp.endOf(unit));
+  }
+
+  /**
+   * Length of the range
+   */
+  getDuration(): Duration {
+    return this.start.getDurationTo(this.end);
+  }
+
+  /**
+   * Check whether a timestamp falls within the range
+   */
+  contains(timestamp: Timestamp): boolean {
+    return !timestamp.isBefore(this.start) && !timestamp.isAfter(this.end);
+  }
+
+  /**
+   * Check whether two ranges share at least one moment
+   */
+  overlaps(other: TimestampRange): boolean {
+    return !other.end.isBefore(this.start) && !other.start.isAfter(this.end);
+  }
+
+  /**
+   * Moments shared by both ranges
+   *
+   * @returns Overlapping range, or undefined if the ranges do not overlap
+   */
+  intersection(other: TimestampRange): TimestampRange | undefined {
+    if (!this.overlaps(other)) {
+      return undefined;
+    }
+    const start = this.start.isAfter(other.start) ? this.start : other.start;
+    const end = this.end.isBefore(other.end) ? this.end : other.end;
+    return new TimestampRange(start, end);
+  }
+
+  /**
+   * Widen the range to whole units, e.g. from the start of its first day to the end of its last
+   */
+  round(unit: TimestampPrecision): TimestampRange {
+    return new TimestampRange(this.start.startOf(unit), this.end.endOf(unit));
+  }
+
+  /**
+   * Step through the range from `start`, one year, day, hour or minute at a time.
+   * Call `round(unit)` first to step through whole units.
+   */
+  *iterate(unit: TimestampPrecision): Generator<Timestamp, void, undefined> {
+    const step = STEPS[unit];
+    if (!step) {
+      throw new RangeError('unit must be one of: year, day, hour, minute.');
+    }
+    for (let current = this.start; !current.isAfter(this.end); current = current.add(step)) {
+      yield current;
+    }
+  }
+
+  /**
+   * Format as `<start> - <end>`
+   *
+   * @param format - Preset format name or custom format string for both ends
+   */
+  toString(format?: TimestampFormat | string): string {
+    return `${this.start.toString(format)} - ${this.end.toString(format)}`;
+  }
+}
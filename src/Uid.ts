@@ -0,0 +1,190 @@
+/**
+ * Entity UIDs (`type:id` strings such as `1:12345`)
+ */
+
+import { SWCValidationError } from './http/errors.js';
+import type { UidKind, UidLike } from './types/index.js';
+
+const UID_PATTERN = /^(\d+):(\d+)$/;
+
+/**
+ * Kind for each known UID prefix
+ */
+const KINDS = new Map<number, UidKind>([
+  [1, 'character'],
+  [2, 'ship'],
+  [3, 'vehicle'],
+  [4, 'station'],
+  [5, 'city'],
+  [6, 'facility'],
+  [8, 'item'],
+  [9, 'npc'],
+  [10, 'droid'],
+  [11, 'material'],
+  [12, 'creature'],
+  [20, 'faction'],
+  [23, 'planet'],
+  [24, 'system'],
+  [25, 'sector'],
+  [38, 'message'],
+]);
+
+/**
+ * Parsed entity UID. The numeric prefix identifies the kind of entity.
+ *
+ * @example
+ * ```typescript
+ * const uid = Uid.parse('1:12345');
+ * uid.kind;                      // 'character'
+ * uid.format('Luke Skywalker');  // 'Luke Skywalker (character 1:12345)'
+ * Uid.of('faction', 123).toString(); // '20:123'
+ * ```
+ */
+export class Uid {
+  /**
+   * @param type - Numeric prefix identifying the kind of entity
+   * @param id - Entity ID within that kind
+   */
+  constructor(
+    public readonly type: number,
+    public readonly id: number
+  ) {
+    if (!Number.isSafeInteger(type) || type < 0 || !Number.isSafeInteger(id) || id < 0) {
+      throw new SWCValidationError(
+        `Invalid UID "${type}:${id}": expected two non-negative integers.`
+      );
+    }
+  }
+
+  /**
+   * Parse a `type:id` string
+   * @throws SWCValidationError if the value is not a UID
+   */
+  static parse(value: UidLike): Uid {
+    if (value instanceof Uid) {
+      return value;
+    }
+    const match = UID_PATTERN.exec(String(value).trim());
+    if (!match) {
+      throw new SWCValidationError(`Invalid UID "${value}": expected "type:id", e.g. "1:12345".`);
+    }
+    return new Uid(Number(match[1]), Number(match[2]));
+  }
+
+  /**
+   * Parse a `type:id` string, returning undefined if it is not a UID
+   */
+  static tryParse(value: unknown): Uid | undefined {
+    if (value instanceof Uid) {
+      return value;
+    }
+    return typeof value === 'string' && UID_PATTERN.test(value.trim())
+      ? Uid.parse(value)
+      : undefined;
+  }
+
+  /**
+   * Check whether a value is a `Uid` or a `type:id` string
+   */
+  static isUid(value: unknown): value is UidLike {
+    return Uid.tryParse(value) !== undefined;
+  }
+
+  /**
+   * Build the UID of an entity of a given kind
+   * @example Uid.of('character', 12345).toString() // '1:12345'
+   */
+  static of(kind: UidKind, id: number): Uid {
+    return new Uid(Uid.prefixOf(kind), id);
+  }
+
+  /**
+   * Get the numeric prefix used for a kind
+   */
+  static prefixOf(kind: UidKind): number {
+    for (const [prefix, registered] of KINDS) {
+      if (registered === kind) {
+        return prefix;
+      }
+    }
+    throw new SWCValidationError(`Unknown UID kind "${kind}".`);
+  }
+
+  /**
+   * Map a UID prefix to a kind, replacing any existing mapping for the prefix
+   */
+  static register(prefix: number, kind: UidKind): void {
+    KINDS.set(prefix, kind);
+  }
+
+  /**
+   * Check that a UID refers to one of `kinds` and return it as a string.
+   * Values that are not UIDs (handles, names) are returned unchanged for the API to resolve;
+   * UIDs with an unregistered prefix are accepted.
+   *
+   * @param value - UID or other identifier passed to a resource method
+   * @param kinds - Acceptable kinds
+   * @param field - Option name used in the error message
+   * @throws SWCValidationError if the UID is of another kind
+   */
+  static expect(value: UidLike, kinds: UidKind | UidKind[], field = 'uid'): string {
+    const uid = Uid.tryParse(value);
+    if (!uid) {
+      return String(value);
+    }
+
+    const accepted = Array.isArray(kinds) ? kinds : [kinds];
+    const kind = uid.kind;
+    if (kind && !accepted.includes(kind)) {
+      throw new SWCValidationError(
+        `${field} ${uid} is a ${kind} UID; expected a ${accepted.join(' or ')} UID.`
+      );
+    }
+    return uid.toString();
+  }
+
+  /**
+   * Kind of entity, or undefined for an unregistered prefix
+   */
+  get kind(): UidKind | undefined {
+    return KINDS.get(this.type);
+  }
+
+  /**
+   * Check whether this UID refers to an entity of the given kind
+   */
+  is(kind: UidKind): boolean {
+    return this.kind === kind;
+  }
+
+  /**
+   * Check whether two UIDs are the same
+   */
+  equals(other: UidLike): boolean {
+    const uid = Uid.tryParse(other);
+    return uid !== undefined && uid.type === this.type && uid.id === this.id;
+  }
+
+  /**
+   * Format for display, e.g. `Luke Skywalker (character 1:12345)`
+   * @param name - Display name of the entity
+   */
+  format(name?: string): string {
+    const label = this.kind ? `${this.kind} ${this}` : this.toString();
+    return name ? `${name} (${label})` : label;
+  }
+
+  /**
+   * Get the `type:id` string
+   */
+  toString(): string {
+    return `${this.type}:${this.id}`;
+  }
+
+  /**
+   * Serialize as the `type:id` string
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
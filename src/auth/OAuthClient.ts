@@ -25,6 +25,10 @@ export interface OAuthClientConfig {
   accessType?: AccessType;
   /** Whether to renew previously granted permissions */
   renewPreviouslyGranted?: boolean;
+  /** Authorization endpoint override (default: SW Combine's) */
+  authorizationEndpoint?: string;
+  /** Token endpoint override, e.g. a local fake in tests (default: SW Combine's) */
+  tokenEndpoint?: string;
 }
 
 /**
@@ -36,6 +40,8 @@ export class OAuthClient {
   private redirectUri?: string;
   private accessType: AccessType;
   private renewPreviouslyGranted: boolean;
+  private authorizationEndpoint: string;
+  private tokenEndpoint: string;
 
   constructor(config: OAuthClientConfig) {
     this.clientId = config.clientId;
@@ -43,6 +49,15 @@ export class OAuthClient {
     this.redirectUri = config.redirectUri;
     this.accessType = config.accessType ?? AccessType.Online;
     this.renewPreviouslyGranted = config.renewPreviouslyGranted ?? false;
+    this.authorizationEndpoint = config.authorizationEndpoint ?? OAUTH_ENDPOINT_AUTH;
+    this.tokenEndpoint = config.tokenEndpoint ?? OAUTH_ENDPOINT_TOKEN;
+  }
+
+  /**
+   * Get the configured redirect URI
+   */
+  getRedirectUri(): string | undefined {
+    return this.redirectUri;
   }
 
   /**
@@ -62,19 +77,29 @@ export class OAuthClient {
       access_type: this.accessType,
     };
 
+    if (options.codeChallenge) {
+      params.code_challenge = options.codeChallenge;
+      params.code_challenge_method = options.codeChallengeMethod ?? 'S256';
+    }
+
     // Add optional renewPreviouslyGranted parameter
     if (this.renewPreviouslyGranted) {
       params.renew_previously_granted = 'yes';
     }
 
     const searchParams = new URLSearchParams(params);
-    return `${OAUTH_ENDPOINT_AUTH}?${searchParams.toString()}`;
+    return `${this.authorizationEndpoint}?${searchParams.toString()}`;
   }
 
   /**
    * Handle OAuth callback and exchange code for token
+   * @param query - Query parameters received on the redirect URI
+   * @param codeVerifier - PKCE verifier matching the challenge sent in the authorization URL
    */
-  async handleCallback(query: OAuthCallbackQuery): Promise<AuthorizationResult> {
+  async handleCallback(
+    query: OAuthCallbackQuery,
+    codeVerifier?: string
+  ): Promise<AuthorizationResult> {
     // Check for error in callback
     if (query.error) {
       return {
@@ -95,7 +120,7 @@ export class OAuthClient {
 
     try {
       // Exchange code for token
-      const token = await this.exchangeCodeForToken(query.code);
+      const token = await this.exchangeCodeForToken(query.code, codeVerifier);
 
       return {
         success: true,
@@ -114,7 +139,7 @@ export class OAuthClient {
   /**
    * Exchange authorization code for access token
    */
-  private async exchangeCodeForToken(code: string): Promise<OAuthToken> {
+  private async exchangeCodeForToken(code: string, codeVerifier?: string): Promise<OAuthToken> {
     if (!this.redirectUri) {
       throw new Error('redirectUri is required for token exchange');
     }
@@ -127,9 +152,12 @@ export class OAuthClient {
       redirect_uri: this.redirectUri,
       grant_type: GrantType.AuthorizationCode,
     });
+    if (codeVerifier) {
+      params.set('code_verifier', codeVerifier);
+    }
 
     try {
-      const response = await axios.post(OAUTH_ENDPOINT_TOKEN, params.toString(), {
+      const response = await axios.post(this.tokenEndpoint, params.toString(), {
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'Accept': 'application/json',
@@ -149,7 +177,8 @@ export class OAuthClient {
         throw SWCError.fromHttpResponse(
           error.response.status,
           error.response.data,
-          error.response.headers['x-request-id']
+          error.response.headers['x-request-id'],
+          { method: 'POST', endpoint: this.tokenEndpoint, headers: error.response.headers }
         );
       }
       throw error;
@@ -168,7 +197,7 @@ export class OAuthClient {
     });
 
     try {
-      const response = await axios.post(OAUTH_ENDPOINT_TOKEN, params.toString(), {
+      const response = await axios.post(this.tokenEndpoint, params.toString(), {
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'Accept': 'application/json',
@@ -188,7 +217,8 @@ export class OAuthClient {
         throw SWCError.fromHttpResponse(
           error.response.status,
           error.response.data,
-          error.response.headers['x-request-id']
+          error.response.headers['x-request-id'],
+          { method: 'POST', endpoint: this.tokenEndpoint, headers: error.response.headers }
         );
       }
       throw error;
@@ -233,7 +263,8 @@ export class OAuthClient {
         throw SWCError.fromHttpResponse(
           error.response.status,
           error.response.data,
-          error.response.headers['x-request-id']
+          error.response.headers['x-request-id'],
+          { method: 'GET', endpoint: OAUTH_ENDPOINT_REVOKE, headers: error.response.headers }
         );
       }
       throw error;
@@ -0,0 +1,135 @@
+/**
+ * State and PKCE handling for the OAuth authorization code flow
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { OAuthClient } from './OAuthClient.js';
+import { SWCError } from '../http/errors.js';
+import type {
+  AuthorizationStateStore,
+  CompleteAuthorizationResult,
+  OAuthCallbackQuery,
+  OAuthFlowOptions,
+  PendingAuthorization,
+  StartAuthorizationOptions,
+  StartAuthorizationResult,
+} from '../types/index.js';
+
+/** Default lifetime of a pending authorization */
+const DEFAULT_FLOW_TTL = 10 * 60 * 1000;
+
+/**
+ * Keeps pending authorizations in process memory. Use a shared store (database,
+ * Redis, session) when callbacks can reach a different process than the one that
+ * started the flow.
+ */
+export class MemoryAuthorizationStore implements AuthorizationStateStore {
+  private pending = new Map<string, PendingAuthorization>();
+
+  save(pending: PendingAuthorization): void {
+    this.prune();
+    this.pending.set(pending.state, pending);
+  }
+
+  take(state: string): PendingAuthorization | undefined {
+    const pending = this.pending.get(state);
+    this.pending.delete(state);
+    return pending;
+  }
+
+  /**
+   * Drop expired entries so abandoned flows don't accumulate
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
+
+/**
+ * Generates and verifies the `state` parameter (and optionally a PKCE verifier)
+ * for each authorization. Every state can be completed once, before it expires.
+ *
+ * @example
+ * ```typescript
+ * const flow = new OAuthFlow(oauthClient, { pkce: true });
+ * const { url } = await flow.start({ scopes: ['character_read'] });
+ * // ...redirect, then in the callback handler:
+ * const result = await flow.complete(req.query);
+ * ```
+ */
+export class OAuthFlow {
+  private readonly store: AuthorizationStateStore;
+  private readonly ttl: number;
+  private readonly pkce: boolean;
+
+  constructor(
+    private readonly oauthClient: OAuthClient,
+    options: OAuthFlowOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryAuthorizationStore();
+    this.ttl = options.ttl ?? DEFAULT_FLOW_TTL;
+    this.pkce = options.pkce ?? false;
+  }
+
+  /**
+   * Start an authorization and return the URL to redirect the user to
+   */
+  async start(options: StartAuthorizationOptions): Promise<StartAuthorizationResult> {
+    const state = randomToken(24);
+    const codeVerifier = this.pkce ? randomToken(32) : undefined;
+
+    const url = this.oauthClient.getAuthorizationUrl({
+      scopes: options.scopes,
+      state,
+      codeChallenge: codeVerifier ? pkceChallenge(codeVerifier) : undefined,
+    });
+
+    await this.store.save({
+      state,
+      scopes: options.scopes,
+      codeVerifier,
+      expiresAt: Date.now() + this.ttl,
+      data: options.data,
+    });
+
+    return { url, state };
+  }
+
+  /**
+   * Verify the callback's state and exchange the code for a token.
+   * Throws an `auth` SWCError when the state is missing, unknown, already used or expired.
+   */
+  async complete(query: OAuthCallbackQuery): Promise<CompleteAuthorizationResult> {
+    if (!query.state) {
+      throw new SWCError('OAuth callback is missing the state parameter.', { type: 'auth' });
+    }
+
+    // take() removes the entry, so a replayed callback finds nothing
+    const pending = await this.store.take(query.state);
+    if (!pending) {
+      throw new SWCError(
+        'OAuth state does not match a pending authorization. It may have been used already.',
+        { type: 'auth' }
+      );
+    }
+    if (pending.expiresAt <= Date.now()) {
+      throw new SWCError('OAuth authorization expired. Start the flow again.', { type: 'auth' });
+    }
+
+    const result = await this.oauthClient.handleCallback(query, pending.codeVerifier);
+    return { ...result, data: pending.data };
+  }
+}
+
+function randomToken(bytes: number): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+function pkceChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
@@ -0,0 +1,83 @@
+/**
+ * Client-side scope checks for the `strictScopes` option
+ */
+
+import { TokenManager } from './TokenManager.js';
+import { CharacterScopes } from './scopes.js';
+import { findScopeRequirement, hasScope } from './scopeMap.js';
+import { cacheOwnerFor } from '../http/ResponseCache.js';
+import { SWCAuthError, SWCScopeError } from '../http/errors.js';
+
+/**
+ * Looks up the scopes granted to a token
+ */
+export type GrantedScopesLookup = (tokenManager: TokenManager) => Promise<string[]>;
+
+/**
+ * Rejects requests whose resource method needs a scope the token was not granted,
+ * before they use any rate limit budget. Granted scopes are looked up once per token.
+ */
+export class ScopeGuard {
+  private granted = new WeakMap<TokenManager, { owner: string; scopes: Promise<string[]> }>();
+
+  constructor(private readonly lookup: GrantedScopesLookup) {}
+
+  /**
+   * Throw an SWCScopeError if the request needs a scope that has not been granted, or if the
+   * API refuses to tell which scopes were granted (the lookup needs `character_read`).
+   * Requests without a token are left for the API to reject.
+   */
+  async check(method: string, url: string, tokenManager?: TokenManager): Promise<void> {
+    const requirement = findScopeRequirement(method, url);
+    if (!requirement || !tokenManager?.getToken()) {
+      return;
+    }
+    const details = { method: method.toUpperCase(), endpoint: url.replace(/\?.*$/, '') };
+
+    let granted: string[];
+    try {
+      granted = await this.grantedScopes(tokenManager);
+    } catch (error) {
+      if (!(error instanceof SWCAuthError && error.statusCode === 403)) {
+        throw error;
+      }
+      throw new SWCScopeError(
+        `${requirement.name} could not be checked: the granted scopes can only be looked up ` +
+          `with the ${CharacterScopes.READ} scope. Authorize again with it, or turn off ` +
+          `strictScopes.`,
+        { ...details, requiredScopes: [CharacterScopes.READ], cause: error }
+      );
+    }
+    if (requirement.anyOf.some((scope) => hasScope(granted, scope))) {
+      return;
+    }
+
+    throw new SWCScopeError(
+      `${requirement.name} requires one of these scopes: ${requirement.anyOf.join(', ')}. ` +
+        `Granted: ${granted.join(', ') || 'none'}. Authorize again with the missing scope ` +
+        `(see explainMissingScopes()).`,
+      { ...details, requiredScopes: requirement.anyOf }
+    );
+  }
+
+  /**
+   * Get the scopes granted to a token manager's current token
+   */
+  grantedScopes(tokenManager: TokenManager): Promise<string[]> {
+    const owner = cacheOwnerFor(tokenManager.getToken());
+    const cached = this.granted.get(tokenManager);
+    if (cached?.owner === owner) {
+      return cached.scopes;
+    }
+
+    const scopes = this.lookup(tokenManager);
+    this.granted.set(tokenManager, { owner, scopes });
+    // Look up again next time rather than caching a failure
+    scopes.catch(() => {
+      if (this.granted.get(tokenManager)?.scopes === scopes) {
+        this.granted.delete(tokenManager);
+      }
+    });
+    return scopes;
+  }
+}
@@ -5,6 +5,11 @@
 import { OAuthToken } from '../types/index.js';
 import { SWCError } from '../http/errors.js';
 
+/** Default time before expiry at which tokens are refreshed */
+const DEFAULT_REFRESH_LEAD_TIME = 5 * 60 * 1000;
+/** Longest delay setTimeout supports */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 export interface TokenStorage {
   /** Save token to storage */
   saveToken(token: OAuthToken): Promise<void> | void;
@@ -21,39 +26,33 @@ export class TokenManager {
   private token: OAuthToken | null = null;
   private storage?: TokenStorage;
   private refreshCallback?: () => Promise<OAuthToken>;
+  private loading: Promise<void> = Promise.resolve();
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private refreshing?: Promise<void>;
+  private tokenRefreshedCallback?: (token: OAuthToken) => void;
+  private refreshFailedCallback?: (error: unknown) => void;
+  private autoRefreshLeadTime?: number;
+  private renewalTimer?: ReturnType<typeof setTimeout>;
+  /** Bumped whenever a token is set or cleared so a slow storage load never replaces it */
+  private revision = 0;
+  /** UID of the character the token acts as, once known. Kept across refreshes. */
+  private characterUid?: string;
 
   constructor(token?: OAuthToken | string, storage?: TokenStorage) {
+    this.storage = storage;
+    // An explicit token wins over whatever storage holds, and is saved there like setToken()
     if (token) {
-      if (typeof token === 'string') {
-        // Initialize with just access token (no expiry known)
-        this.token = {
-          accessToken: token,
-          expiresAt: Date.now() + 3600 * 1000, // Assume 1 hour
-        };
-      } else {
-        this.token = token;
-      }
+      this.storeToken(token);
     }
-    this.storage = storage;
   }
 
   /**
    * Set token
    */
   setToken(token: OAuthToken | string): void {
-    if (typeof token === 'string') {
-      this.token = {
-        accessToken: token,
-        expiresAt: Date.now() + 3600 * 1000,
-      };
-    } else {
-      this.token = token;
-    }
-
-    // Save to storage if available
-    if (this.storage && this.token) {
-      void this.storage.saveToken(this.token);
-    }
+    // A token set from outside may belong to another character
+    this.characterUid = undefined;
+    this.storeToken(token);
   }
 
   /**
@@ -63,10 +62,28 @@ export class TokenManager {
     return this.token;
   }
 
+  /**
+   * UID of the character the token acts as, if known
+   */
+  getCharacterUid(): string | undefined {
+    return this.characterUid;
+  }
+
+  /**
+   * Record which character the token acts as. Cleared whenever a token is set, cleared or
+   * loaded, but kept when the token is refreshed.
+   */
+  setCharacterUid(uid: string | undefined): void {
+    this.characterUid = uid;
+  }
+
   /**
    * Get access token (refreshes if expired)
    */
   async getAccessToken(): Promise<string | null> {
+    // A failed load is reported by loadFinished(); fall back to the in-memory token
+    await this.loading.catch(() => undefined);
+
     if (!this.token) {
       return null;
     }
@@ -116,7 +133,8 @@ export class TokenManager {
   }
 
   /**
-   * Refresh the access token
+   * Refresh the access token. Calls made while a refresh is in flight wait for it
+   * instead of starting another one.
    */
   async refreshToken(): Promise<void> {
     if (!this.refreshCallback) {
@@ -131,9 +149,27 @@ export class TokenManager {
       });
     }
 
-    // Call the refresh callback to get new token
-    const newToken = await this.refreshCallback();
-    this.setToken(newToken);
+    // Concurrent callers share a single in-flight refresh
+    if (!this.refreshing) {
+      const refreshCallback = this.refreshCallback;
+      this.refreshing = (async () => {
+        let newToken: OAuthToken;
+        try {
+          // Call the refresh callback to get new token
+          newToken = await refreshCallback();
+          this.storeToken(newToken);
+          await this.flush();
+        } catch (error) {
+          this.refreshFailedCallback?.(error);
+          throw error;
+        }
+        this.tokenRefreshedCallback?.(newToken);
+      })().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+
+    return this.refreshing;
   }
 
   /**
@@ -143,27 +179,150 @@ export class TokenManager {
     this.refreshCallback = callback;
   }
 
+  /**
+   * Set callback fired after every successful refresh, e.g. to persist the new token
+   */
+  setTokenRefreshedCallback(callback: (token: OAuthToken) => void): void {
+    this.tokenRefreshedCallback = callback;
+  }
+
+  /**
+   * Set callback fired when a refresh fails, e.g. to ask the user to authorize again
+   */
+  setRefreshFailedCallback(callback: (error: unknown) => void): void {
+    this.refreshFailedCallback = callback;
+  }
+
+  /**
+   * Refresh the token in the background `leadTime` milliseconds before it expires.
+   * The timer does not keep the process alive.
+   */
+  startAutoRefresh(leadTime: number = DEFAULT_REFRESH_LEAD_TIME): void {
+    this.autoRefreshLeadTime = leadTime;
+    this.scheduleRenewal();
+  }
+
+  /**
+   * Stop background renewal
+   */
+  stopAutoRefresh(): void {
+    this.autoRefreshLeadTime = undefined;
+    this.scheduleRenewal();
+  }
+
   /**
    * Clear token
    */
   clear(): void {
     this.token = null;
-    if (this.storage) {
-      void this.storage.clearToken();
+    this.characterUid = undefined;
+    this.revision++;
+    this.scheduleRenewal();
+    const storage = this.storage;
+    if (storage) {
+      this.trackWrite(async () => storage.clearToken());
     }
   }
 
   /**
-   * Load token from storage
+   * Load token from storage, unless a token has already been set (e.g. passed to the
+   * constructor). `getAccessToken()` waits for the load to finish.
    */
-  async loadFromStorage(): Promise<void> {
-    if (!this.storage) {
-      return;
+  loadFromStorage(): Promise<void> {
+    const storage = this.storage;
+    if (!storage) {
+      return Promise.resolve();
     }
 
-    const token = await this.storage.loadToken();
-    if (token) {
+    const revision = this.revision;
+    this.loading = (async () => {
+      const token = await storage.loadToken();
+      // Keep tokens set before or while the load was in flight (e.g. from handleCallback)
+      if (token && !this.token && this.revision === revision) {
+        this.token = token;
+        this.characterUid = undefined;
+        this.scheduleRenewal();
+      }
+    })();
+    return this.loading;
+  }
+
+  /**
+   * Wait for the latest loadFromStorage() call. Rejects if the load failed.
+   */
+  async loadFinished(): Promise<void> {
+    await this.loading;
+  }
+
+  /**
+   * Wait for the most recent storage write. Rejects if that write failed.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  /**
+   * Replace the token, save it to storage and re-arm renewal
+   */
+  private storeToken(token: OAuthToken | string): void {
+    if (typeof token === 'string') {
+      // Only the access token is known; assume it lasts an hour
+      this.token = {
+        accessToken: token,
+        expiresAt: Date.now() + 3600 * 1000,
+      };
+    } else {
       this.token = token;
     }
+    this.revision++;
+    this.scheduleRenewal();
+
+    // Save to storage if available
+    const storage = this.storage;
+    const saved = this.token;
+    if (storage && saved) {
+      this.trackWrite(async () => storage.saveToken(saved));
+    }
+  }
+
+  /**
+   * (Re)arm the renewal timer for the current token
+   */
+  private scheduleRenewal(): void {
+    if (this.renewalTimer) {
+      clearTimeout(this.renewalTimer);
+      this.renewalTimer = undefined;
+    }
+
+    const leadTime = this.autoRefreshLeadTime;
+    const token = this.token;
+    if (leadTime === undefined || !token?.refreshToken) {
+      return;
+    }
+
+    const renewAt = token.expiresAt - leadTime;
+    const delay = Math.min(Math.max(0, renewAt - Date.now()), MAX_TIMER_DELAY);
+    this.renewalTimer = setTimeout(() => {
+      this.renewalTimer = undefined;
+      // Long expiries are reached in several timer hops
+      if (Date.now() < renewAt) {
+        this.scheduleRenewal();
+        return;
+      }
+      this.refreshToken().catch(() => {
+        // Reported through the refresh failed callback
+      });
+    }, delay);
+    this.renewalTimer.unref?.();
+  }
+
+  /**
+   * Queue a storage write after the previous one and remember it for flush().
+   * Writes run one at a time, so a save or clear never overtakes an earlier one.
+   */
+  private trackWrite(write: () => Promise<void>): void {
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(write);
+    // Failures are reported through flush(); don't let them surface as unhandled rejections
+    this.pendingWrite.catch(() => undefined);
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * Built-in TokenStorage adapters
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SWCError } from '../http/errors.js';
+import type { OAuthToken } from '../types/index.js';
+import type { TokenStorage } from './TokenManager.js';
+
+/** Numbers temporary files, so concurrent writes never share one */
+let tmpCounter = 0;
+
+/**
+ * Keeps the token in process memory. Useful for tests and short-lived scripts.
+ */
+export class MemoryTokenStorage implements TokenStorage {
+  private token: OAuthToken | null;
+
+  constructor(token: OAuthToken | null = null) {
+    this.token = token ? { ...token } : null;
+  }
+
+  saveToken(token: OAuthToken): void {
+    this.token = { ...token };
+  }
+
+  loadToken(): OAuthToken | null {
+    return this.token ? { ...this.token } : null;
+  }
+
+  clearToken(): void {
+    this.token = null;
+  }
+}
+
+/**
+ * Stores the token as JSON in a file readable only by the current user (mode 0600).
+ * Writes go to a temporary file that is renamed into place, so a crash mid-write
+ * never leaves a truncated token file behind.
+ *
+ * @example
+ * ```typescript
+ * const client = new SWCombine({
+ *   clientId, clientSecret,
+ *   tokenStorage: new FileTokenStorage('./.swc-token.json'),
+ * });
+ * ```
+ */
+export class FileTokenStorage implements TokenStorage {
+  constructor(private readonly filePath: string) {}
+
+  async saveToken(token: OAuthToken): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tmp = `${this.filePath}.${process.pid}.${++tmpCounter}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(token, null, 2), { mode: 0o600 });
+    // writeFile only applies the mode when creating the file
+    await fs.chmod(tmp, 0o600);
+    await fs.rename(tmp, this.filePath);
+  }
+
+  async loadToken(): Promise<OAuthToken | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let token: Partial<OAuthToken>;
+    try {
+      token = JSON.parse(contents);
+    } catch {
+      token = {};
+    }
+
+    if (typeof token?.accessToken !== 'string' || typeof token.expiresAt !== 'number') {
+      throw new SWCError(`Token file ${this.filePath} does not contain a valid OAuth token.`, {
+        type: 'validation',
+      });
+    }
+
+    return {
+      accessToken: token.accessToken,
+      expiresAt: token.expiresAt,
+      ...(typeof token.refreshToken === 'string' && { refreshToken: token.refreshToken }),
+    };
+  }
+
+  async clearToken(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Token vault for clients acting on behalf of several characters
+ */
+
+import { TokenManager } from './TokenManager.js';
+import { SWCError } from '../http/errors.js';
+import type { OAuthToken } from '../types/index.js';
+
+/**
+ * A character's entry in the vault
+ */
+export interface VaultEntry {
+  /** Character UID (e.g. `1:12345`) */
+  uid: string;
+  /** Character name, if known */
+  name?: string;
+  token: OAuthToken;
+}
+
+/**
+ * Exchanges a refresh token for a new token
+ */
+export type VaultRefreshHandler = (refreshToken: string) => Promise<OAuthToken>;
+
+/**
+ * Holds one token per character UID. Each entry has its own TokenManager, so
+ * entries refresh independently and concurrent refreshes of one entry are shared.
+ *
+ * @example
+ * ```typescript
+ * const { uid } = await client.auth.addCharacter(req.query);
+ * const inventory = await client.as(uid).inventory.get({ uid });
+ * ```
+ */
+export class TokenVault {
+  private entries = new Map<string, { name?: string; manager: TokenManager }>();
+
+  constructor(private readonly refreshHandler: VaultRefreshHandler) {}
+
+  /**
+   * Add or replace the token for a character
+   */
+  set(uid: string, token: OAuthToken, name?: string): void {
+    const existing = this.entries.get(uid);
+    if (existing) {
+      existing.manager.setToken(token);
+      existing.manager.setCharacterUid(uid);
+      existing.name = name ?? existing.name;
+      return;
+    }
+
+    const manager = new TokenManager(token);
+    manager.setCharacterUid(uid);
+    // TokenManager only calls back once it has checked a refresh token is present
+    manager.setRefreshCallback(() => this.refreshHandler(manager.getRefreshToken()!));
+    this.entries.set(uid, { name, manager });
+  }
+
+  /**
+   * Get a character's entry, or undefined if the vault has no token for it
+   */
+  get(uid: string): VaultEntry | undefined {
+    const entry = this.entries.get(uid);
+    const token = entry?.manager.getToken();
+    return entry && token ? { uid, name: entry.name, token } : undefined;
+  }
+
+  has(uid: string): boolean {
+    return this.entries.has(uid);
+  }
+
+  /**
+   * Remove a character from the vault
+   */
+  delete(uid: string): boolean {
+    return this.entries.delete(uid);
+  }
+
+  /**
+   * List all entries
+   */
+  list(): VaultEntry[] {
+    return [...this.entries.keys()]
+      .map((uid) => this.get(uid))
+      .filter((entry): entry is VaultEntry => entry !== undefined);
+  }
+
+  /**
+   * Refresh a character's token now
+   */
+  async refresh(uid: string): Promise<void> {
+    await this.tokenManager(uid).refreshToken();
+  }
+
+  /**
+   * Get the TokenManager backing a character's entry
+   */
+  tokenManager(uid: string): TokenManager {
+    const entry = this.entries.get(uid);
+    if (!entry) {
+      throw new SWCError(`No token stored for character ${uid}. Add it to the vault first.`, {
+        type: 'auth',
+      });
+    }
+    return entry.manager;
+  }
+}
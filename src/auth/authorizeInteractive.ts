@@ -0,0 +1,207 @@
+/**
+ * Loopback authorization for CLI and desktop tools
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { spawn } from 'child_process';
+import { OAuthClient } from './OAuthClient.js';
+import { OAuthFlow } from './OAuthFlow.js';
+import { SWCError } from '../http/errors.js';
+import type {
+  InteractiveAuthorizationOptions,
+  OAuthCallbackQuery,
+  OAuthToken,
+} from '../types/index.js';
+
+/** Default time to wait for the user to authorize */
+const DEFAULT_INTERACTIVE_TIMEOUT = 5 * 60 * 1000;
+
+/** Time responses in flight get to finish before remaining connections are dropped on close */
+const CLOSE_GRACE_PERIOD = 1000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+interface Callback {
+  query: OAuthCallbackQuery;
+  response: ServerResponse;
+}
+
+/**
+ * Authorize from a terminal or desktop app. Starts a temporary HTTP server on the
+ * client's `redirectUri` (which must be an `http://localhost` address), shows the
+ * authorization URL, waits for the callback, checks its state and exchanges the code.
+ *
+ * @example
+ * ```typescript
+ * const oauthClient = new OAuthClient({
+ *   clientId,
+ *   clientSecret,
+ *   redirectUri: 'http://localhost:3000/callback',
+ * });
+ * const token = await authorizeInteractive(oauthClient, {
+ *   scopes: [CharacterScopes.READ],
+ *   open: true,
+ * });
+ * ```
+ */
+export async function authorizeInteractive(
+  oauthClient: OAuthClient,
+  options: InteractiveAuthorizationOptions
+): Promise<OAuthToken> {
+  const redirectUri = loopbackRedirectUri(oauthClient.getRedirectUri());
+  const timeout = options.timeout ?? DEFAULT_INTERACTIVE_TIMEOUT;
+  const flow = new OAuthFlow(oauthClient, { pkce: options.pkce, ttl: timeout });
+
+  const server = createServer();
+  await listen(server, redirectUri);
+
+  try {
+    const callback = waitForCallback(server, redirectUri.pathname, timeout);
+    // Observed below; this keeps an early failure in start() from leaving it unhandled
+    callback.catch(() => undefined);
+    const { url } = await flow.start({ scopes: options.scopes });
+    await showAuthorizationUrl(url, options.open ?? false);
+
+    const { query, response } = await callback;
+    try {
+      const result = await flow.complete(query);
+      if (!result.success || !result.token) {
+        throw new SWCError(`Authorization failed: ${result.error ?? 'no token received'}`, {
+          type: 'auth',
+        });
+      }
+      respond(response, 200, 'Authorization complete. You can close this window.');
+      return result.token;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Authorization failed';
+      respond(response, 400, message);
+      throw error;
+    }
+  } finally {
+    await close(server);
+  }
+}
+
+/**
+ * Check the redirect URI points at this machine
+ */
+function loopbackRedirectUri(redirectUri: string | undefined): URL {
+  const url = redirectUri ? new URL(redirectUri) : undefined;
+  if (!url || url.protocol !== 'http:' || !LOOPBACK_HOSTS.includes(url.hostname)) {
+    throw new SWCError(
+      `authorizeInteractive() requires an http://localhost redirectUri, got ${redirectUri ?? 'none'}.`,
+      { type: 'validation' }
+    );
+  }
+  return url;
+}
+
+function listen(server: Server, redirectUri: URL): Promise<void> {
+  const host = redirectUri.hostname.replace(/^\[(.*)\]$/, '$1');
+  const port = Number(redirectUri.port || 80);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', (error) =>
+      reject(
+        new SWCError(`Cannot listen on ${redirectUri.origin}: ${error.message}`, {
+          type: 'network',
+          cause: error,
+        })
+      )
+    );
+    server.listen(port, host, () => resolve());
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    // Browsers keep spare connections open; responses are sent with `Connection: close`
+    server.closeIdleConnections?.();
+    // Drop connections still open after that, such as a request that never finished
+    setTimeout(() => server.closeAllConnections?.(), CLOSE_GRACE_PERIOD).unref();
+  });
+}
+
+/**
+ * Resolve with the first request to the callback path, or reject after `timeout`.
+ * Later requests to the callback path are answered with 409 so the server can close.
+ */
+function waitForCallback(server: Server, pathname: string, timeout: number): Promise<Callback> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const timer = setTimeout(() => {
+      settled = true;
+      reject(
+        new SWCError(`Timed out after ${timeout}ms waiting for the OAuth callback.`, {
+          type: 'auth',
+        })
+      );
+    }, timeout);
+    server.once('close', () => clearTimeout(timer));
+
+    server.on('request', (request: IncomingMessage, response: ServerResponse) => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      if (url.pathname !== pathname) {
+        respond(response, 404, 'Not found');
+        return;
+      }
+      if (settled) {
+        respond(response, 409, 'This authorization request has already been handled.');
+        return;
+      }
+
+      settled = true;
+      clearTimeout(timer);
+      const params = url.searchParams;
+      resolve({
+        query: {
+          code: params.get('code') ?? undefined,
+          error: params.get('error') ?? undefined,
+          error_description: params.get('error_description') ?? undefined,
+          state: params.get('state') ?? undefined,
+        },
+        response,
+      });
+    });
+  });
+}
+
+async function showAuthorizationUrl(
+  url: string,
+  open: InteractiveAuthorizationOptions['open']
+): Promise<void> {
+  if (typeof open === 'function') {
+    await open(url);
+    return;
+  }
+
+  console.log(`Open this URL to authorize:\n${url}`);
+  if (open) {
+    openBrowser(url);
+  }
+}
+
+/**
+ * Open a URL in the system browser. Failures are ignored; the URL has already been printed.
+ */
+function openBrowser(url: string): void {
+  const [command, args] =
+    process.platform === 'darwin'
+      ? ['open', [url]]
+      : process.platform === 'win32'
+        ? ['rundll32', ['url.dll,FileProtocolHandler', url]]
+        : ['xdg-open', [url]];
+
+  const child = spawn(command, args, { stdio: 'ignore', detached: true });
+  child.on('error', () => undefined);
+  child.unref();
+}
+
+function respond(response: ServerResponse, status: number, message: string): void {
+  response.writeHead(status, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    Connection: 'close',
+  });
+  response.end(message);
+}
@@ -0,0 +1,323 @@
+/**
+ * Scopes required by each resource method
+ *
+ * Machine-readable version of the `@requires_scope` documentation, so scopes can
+ * be checked before a request is sent (see the `strictScopes` client option).
+ */
+
+import {
+  CharacterScopes,
+  MessageScopes,
+  PersonalInventoryScopes,
+  FactionScopes,
+  FactionInventoryScopes,
+} from './scopes.js';
+import { compileRoute } from '../http/paths.js';
+import { SWCError } from '../http/errors.js';
+
+/**
+ * Scope requirement of one resource method
+ */
+export interface ScopeRequirement {
+  /** HTTP method the resource method sends */
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** API path. `{name}` matches one segment, `{name?}` an optional trailing segment */
+  path: string;
+  /** Granting any one of these allows the call. `{name}` is filled from the path */
+  anyOf: string[];
+}
+
+const inventoryScopes = (action: string): string[] => [
+  `personal_inv_{entityType}_${action}`,
+  `faction_inv_{entityType}_${action}`,
+];
+
+const messagesRead: ScopeRequirement = {
+  method: 'GET',
+  path: 'character/{uid}/messages/{mode?}',
+  anyOf: [MessageScopes.READ],
+};
+const characterCreditlog: ScopeRequirement = {
+  method: 'GET',
+  path: 'character/{uid}/creditlog',
+  anyOf: [CharacterScopes.CREDITS],
+};
+const factionMembers: ScopeRequirement = {
+  method: 'GET',
+  path: 'faction/{factionId}/members',
+  anyOf: [FactionScopes.MEMBERS],
+};
+const factionBudgets: ScopeRequirement = {
+  method: 'GET',
+  path: 'faction/{factionId}/budgets',
+  anyOf: [FactionScopes.BUDGETS_READ],
+};
+const factionStockholders: ScopeRequirement = {
+  method: 'GET',
+  path: 'faction/{factionId}/stockholders',
+  anyOf: [FactionScopes.STOCKS],
+};
+const factionCreditlog: ScopeRequirement = {
+  method: 'GET',
+  path: 'faction/{factionId}/creditlog',
+  anyOf: [FactionScopes.CREDITS_READ],
+};
+const inventoryEntities: ScopeRequirement = {
+  method: 'GET',
+  path: 'inventory/{uid}/{entityType}/{assignType}',
+  anyOf: inventoryScopes('read'),
+};
+const characterEvents: ScopeRequirement = {
+  method: 'GET',
+  path: 'events/personal/{eventType?}',
+  anyOf: [CharacterScopes.EVENTS],
+};
+
+/**
+ * Scope requirements keyed by resource method (`client.character.messages.list` ->
+ * `character.messages.list`). Methods that are not listed need no scope.
+ * More specific paths come first, since the first matching entry wins.
+ */
+export const SCOPE_MAP = {
+  'character.me': { method: 'GET', path: 'character', anyOf: [CharacterScopes.READ] },
+  'character.messages.list': messagesRead,
+  'character.messages.iterate': messagesRead,
+  'character.messages.listAll': messagesRead,
+  'character.messages.get': {
+    method: 'GET',
+    path: 'character/{uid}/messages/{messageId}',
+    anyOf: [MessageScopes.READ],
+  },
+  'character.messages.delete': {
+    method: 'DELETE',
+    path: 'character/{uid}/messages/{messageId}',
+    anyOf: [MessageScopes.DELETE],
+  },
+  'character.messages.create': {
+    method: 'PUT',
+    path: 'character/{uid}/messages',
+    anyOf: [MessageScopes.SEND],
+  },
+  'character.skills.list': {
+    method: 'GET',
+    path: 'character/{uid}/skills',
+    anyOf: [CharacterScopes.SKILLS],
+  },
+  'character.privileges.list': {
+    method: 'GET',
+    path: 'character/{uid}/privileges',
+    anyOf: [CharacterScopes.PRIVILEGES],
+  },
+  'character.privileges.get': {
+    method: 'GET',
+    path: 'character/{uid}/privileges/{privilegeGroup}/{privilege}',
+    anyOf: [CharacterScopes.PRIVILEGES],
+  },
+  'character.credits.get': {
+    method: 'GET',
+    path: 'character/{uid}/credits',
+    anyOf: [CharacterScopes.CREDITS],
+  },
+  'character.credits.transfer': {
+    method: 'POST',
+    path: 'character/{uid}/credits',
+    anyOf: [CharacterScopes.CREDITS_WRITE],
+  },
+  'character.creditlog.list': characterCreditlog,
+  'character.creditlog.iterate': characterCreditlog,
+  'character.creditlog.listAll': characterCreditlog,
+  'character.creditlog.ledger': characterCreditlog,
+  'character.get': { method: 'GET', path: 'character/{uid}', anyOf: [CharacterScopes.READ] },
+  'faction.get': { method: 'GET', path: 'faction/{uid?}', anyOf: [FactionScopes.READ] },
+  'faction.members.list': factionMembers,
+  'faction.members.iterate': factionMembers,
+  'faction.members.listAll': factionMembers,
+  'faction.members.updateMemberInfo': {
+    method: 'POST',
+    path: 'faction/{factionId}/members',
+    anyOf: [FactionScopes.MEMBERS],
+  },
+  'faction.budgets.list': factionBudgets,
+  'faction.budgets.iterate': factionBudgets,
+  'faction.budgets.listAll': factionBudgets,
+  'faction.budgets.get': {
+    method: 'GET',
+    path: 'faction/{factionId}/budget/{budgetId}',
+    anyOf: [FactionScopes.BUDGETS_READ],
+  },
+  'faction.stockholders.list': factionStockholders,
+  'faction.stockholders.iterate': factionStockholders,
+  'faction.stockholders.listAll': factionStockholders,
+  'faction.credits.get': {
+    method: 'GET',
+    path: 'faction/{factionId}/credits',
+    anyOf: [FactionScopes.CREDITS_READ],
+  },
+  'faction.credits.transfer': {
+    method: 'POST',
+    path: 'faction/{factionId}/credits',
+    anyOf: [FactionScopes.CREDITS_WRITE],
+  },
+  'faction.creditlog.list': factionCreditlog,
+  'faction.creditlog.iterate': factionCreditlog,
+  'faction.creditlog.listAll': factionCreditlog,
+  'faction.creditlog.ledger': factionCreditlog,
+  'datacard.list': {
+    method: 'GET',
+    path: 'datacards/{factionId}',
+    anyOf: [FactionScopes.DATACARDS_READ],
+  },
+  'datacard.get': {
+    method: 'GET',
+    path: 'datacard/{uid}',
+    anyOf: [FactionScopes.DATACARDS_READ],
+  },
+  'datacard.create': {
+    method: 'POST',
+    path: 'datacard/{uid}',
+    anyOf: [FactionScopes.DATACARDS_WRITE],
+  },
+  'datacard.delete': {
+    method: 'DELETE',
+    path: 'datacard/{uid}',
+    anyOf: [FactionScopes.DATACARDS_WRITE],
+  },
+  'inventory.get': {
+    method: 'GET',
+    path: 'inventory/{uid}',
+    anyOf: [PersonalInventoryScopes.OVERVIEW, FactionInventoryScopes.OVERVIEW],
+  },
+  'inventory.entities.list': inventoryEntities,
+  'inventory.entities.iterate': inventoryEntities,
+  'inventory.entities.listAll': inventoryEntities,
+  'inventory.entities.get': {
+    method: 'GET',
+    path: 'inventory/{entityType}/{uid}',
+    anyOf: inventoryScopes('read'),
+  },
+  'inventory.entities.updateProperty': {
+    method: 'POST',
+    path: 'inventory/{entityType}/{uid}/{property}',
+    // The scope depends on the property; any write scope for the entity type may apply
+    anyOf: [
+      ...inventoryScopes('rename'),
+      ...inventoryScopes('assign'),
+      ...inventoryScopes('makeover'),
+    ],
+  },
+  'inventory.entities.addTag': {
+    method: 'PUT',
+    path: 'inventory/{entityType}/{uid}/tag/{tag}',
+    anyOf: inventoryScopes('tags_write'),
+  },
+  'inventory.entities.removeTag': {
+    method: 'DELETE',
+    path: 'inventory/{entityType}/{uid}/tag/{tag}',
+    anyOf: inventoryScopes('tags_write'),
+  },
+  'inventory.entities.removeAllTags': {
+    method: 'DELETE',
+    path: 'inventory/{entityType}/{uid}/tags',
+    anyOf: inventoryScopes('tags_write'),
+  },
+  'events.list': characterEvents,
+  'events.iterate': characterEvents,
+  'events.listAll': characterEvents,
+} satisfies Record<string, ScopeRequirement>;
+
+/**
+ * A resource method name from `SCOPE_MAP`
+ */
+export type ScopedMethod = keyof typeof SCOPE_MAP;
+
+/**
+ * A scope requirement matched against a request
+ */
+export interface MatchedScopeRequirement {
+  /** Resource method name */
+  name: ScopedMethod;
+  /** Acceptable scopes, with path placeholders filled in */
+  anyOf: string[];
+}
+
+/** `_all` scope covering each scope */
+const ALL_SCOPES = new Map<string, string>();
+for (const group of [
+  CharacterScopes,
+  MessageScopes,
+  FactionScopes,
+  ...Object.values(PersonalInventoryScopes),
+  ...Object.values(FactionInventoryScopes),
+]) {
+  if (typeof group === 'object' && 'ALL' in group) {
+    Object.values(group).forEach((scope) => ALL_SCOPES.set(scope, group.ALL));
+  }
+}
+
+const compiled = Object.entries(SCOPE_MAP).map(([name, requirement]) => ({
+  name: name as ScopedMethod,
+  requirement: requirement as ScopeRequirement,
+  route: compileRoute(requirement.path),
+}));
+
+/**
+ * Find the scope requirement for a request, if any
+ * @param method - HTTP method
+ * @param url - Request URL or API path
+ */
+export function findScopeRequirement(
+  method: string,
+  url: string
+): MatchedScopeRequirement | undefined {
+  for (const entry of compiled) {
+    const values = entry.requirement.method === method.toUpperCase() && entry.route.match(url);
+    if (values) {
+      return {
+        name: entry.name,
+        anyOf: entry.requirement.anyOf.map((scope) =>
+          scope.replace(/\{(\w+)\}/g, (placeholder, param: string) => {
+            return values.get(param.toLowerCase()) ?? placeholder;
+          })
+        ),
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether `scope` is granted, directly or through its group's `_all` scope.
+ * Scope names are compared case-insensitively.
+ */
+export function hasScope(granted: string[], scope: string): boolean {
+  const wanted = scope.toLowerCase();
+  const all = ALL_SCOPES.get(wanted);
+  return granted.some((grantedScope) => {
+    const normalized = grantedScope.toLowerCase();
+    return normalized === wanted || normalized === all;
+  });
+}
+
+/**
+ * List the scopes to request so that every one of `methods` is allowed.
+ * Templated scopes keep their placeholder (e.g. `personal_inv_{entityType}_read`).
+ *
+ * @example
+ * ```typescript
+ * explainMissingScopes(['character.messages.create', 'character.credits.get'], ['messages_read']);
+ * // ['messages_send', 'character_credits']
+ * ```
+ */
+export function explainMissingScopes(methods: string[], granted: string[]): string[] {
+  const missing = new Set<string>();
+  for (const method of methods) {
+    const requirement = (SCOPE_MAP as Record<string, ScopeRequirement>)[method];
+    if (!requirement) {
+      throw new SWCError(`Unknown resource method "${method}".`, { type: 'validation' });
+    }
+    if (!requirement.anyOf.some((scope) => hasScope(granted, scope))) {
+      missing.add(requirement.anyOf[0]);
+    }
+  }
+  return [...missing];
+}
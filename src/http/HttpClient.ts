@@ -6,11 +6,98 @@ import axios, {
   AxiosInstance,
   AxiosRequestConfig,
   AxiosError,
+  AxiosResponse,
   InternalAxiosRequestConfig,
 } from 'axios';
-import { SWCError } from './errors.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SWCError, HttpErrorContext, parseRetryAfter } from './errors.js';
+import { RateLimiter } from './RateLimiter.js';
+import { ResponseCache, cacheOwnerFor } from './ResponseCache.js';
+import { ResponseValidator } from './ResponseValidator.js';
+import { attachCgt } from '../models/timeBlobs.js';
 import type { TokenManager } from '../auth/TokenManager.js';
-import type { RateLimitInfo } from '../types/index.js';
+import type {
+  CacheStats,
+  RateLimiterOptions,
+  RateLimitInfo,
+  RequestPriority,
+  ResponseCacheOptions,
+  ResponseValidationOptions,
+} from '../types/index.js';
+import type { RateLimitEntry } from '../resources/ApiResource.js';
+
+/**
+ * Request details passed to middleware. `url`, `params`, `headers` and `data`
+ * may be modified in `beforeRequest` to rewrite the outgoing request.
+ */
+export interface MiddlewareRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  url: string;
+  /** Query parameters (the access token is added after middleware runs) */
+  params: Record<string, unknown>;
+  headers: Record<string, string>;
+  data?: unknown;
+  /** Time the first attempt started (milliseconds since epoch) */
+  startedAt: number;
+  /** 1 for the first attempt, incremented on each retry */
+  attempt: number;
+}
+
+/**
+ * Response details passed to `afterResponse`
+ */
+export interface MiddlewareResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  /** Unwrapped response body; may be replaced by middleware */
+  data: unknown;
+  /** Milliseconds since the first attempt started */
+  durationMs: number;
+  /** True when a `beforeRequest` hook supplied the response */
+  shortCircuited: boolean;
+  /** True when the response came from the response cache */
+  fromCache: boolean;
+}
+
+/**
+ * Hooks that run around every API request, in registration order.
+ */
+export interface Middleware {
+  /**
+   * Called before each attempt is sent. Return `{ data }` to skip the network
+   * call and resolve the request with that value.
+   */
+  beforeRequest?: (
+    request: MiddlewareRequest
+  ) => void | { data: unknown } | Promise<void | { data: unknown }>;
+  /** Called once the request succeeds */
+  afterResponse?: (
+    request: MiddlewareRequest,
+    response: MiddlewareResponse
+  ) => void | Promise<void>;
+  /** Called once the request has failed for good (after retries) */
+  onError?: (request: MiddlewareRequest, error: unknown) => void | Promise<void>;
+}
+
+/** Request config carrying the settings of a view (see `forTokenManager()`, `withoutScopeCheck()`) */
+type ScopedRequestConfig = AxiosRequestConfig & {
+  _tokenManager?: TokenManager;
+  _skipScopeCheck?: boolean;
+  /** Set by `get()`: look the final request up in the response cache */
+  _cacheable?: boolean;
+};
+
+type MiddlewareRequestConfig = InternalAxiosRequestConfig & {
+  _tokenManager?: TokenManager;
+  _skipScopeCheck?: boolean;
+  _cacheable?: boolean;
+  _middlewareRequest?: MiddlewareRequest;
+  _shortCircuited?: boolean;
+  /** Where to store the response, for cacheable requests that missed the cache */
+  _cacheEntry?: { key: string; ttl: number };
+  _cacheHit?: boolean;
+};
 
 export interface HttpClientOptions {
   baseURL?: string;
@@ -20,6 +107,18 @@ export interface HttpClientOptions {
   debug?: boolean;
   /** Callback fired when rate limit info is received from API */
   onRateLimitUpdate?: (info: RateLimitInfo) => void;
+  /** Queue requests client-side so they stay within the rate limit budget */
+  rateLimiter?: RateLimiterOptions;
+  /** Cache GET responses for endpoints with a TTL policy */
+  cache?: ResponseCacheOptions;
+  /** Called before each request is queued; throw to reject it without using rate limit budget */
+  checkScopes?: (method: string, url: string, tokenManager?: TokenManager) => Promise<void>;
+  /** Check responses from the main endpoints against their schema */
+  validation?: ResponseValidationOptions;
+  /** Attach a parsed `cgt` Timestamp to every time blob in responses */
+  cgtTimestamps?: boolean;
+  /** Look up the character a token acts as, for `characterUid()` and per-character caching */
+  identifyCharacter?: (tokenManager: TokenManager) => Promise<string>;
 }
 
 /**
@@ -28,11 +127,30 @@ export interface HttpClientOptions {
 export class HttpClient {
   private axios: AxiosInstance;
   private tokenManager?: TokenManager;
+  /** Set on views created by forTokenManager(); overrides `tokenManager` for their requests */
+  private scopedTokenManager?: TokenManager;
+  /** Set on views created by withoutScopeCheck() */
+  private skipScopeCheck = false;
+  /** Set on views created by withoutCache() */
+  private skipCache = false;
+  private checkScopes?: HttpClientOptions['checkScopes'];
+  private identifyCharacter?: HttpClientOptions['identifyCharacter'];
+  /** Character lookups in flight, shared by concurrent requests */
+  private identifying = new WeakMap<TokenManager, Promise<string>>();
   private maxRetries: number;
   private retryDelay: number;
+  /** Set while running code that retries whole operations itself, such as a batch */
+  private readonly noRetryContext = new AsyncLocalStorage<boolean>();
   private debug: boolean;
   private onRateLimitUpdate?: (info: RateLimitInfo) => void;
   private _lastRateLimitInfo: RateLimitInfo | null = null;
+  private rateLimiter?: RateLimiter;
+  private cache?: ResponseCache;
+  private validator?: ResponseValidator;
+  private cgtTimestamps: boolean;
+  private middleware: Middleware[] = [];
+  /** Responses/errors already reported, so retried requests notify middleware once */
+  private reportedToMiddleware = new WeakSet<object>();
 
   constructor(options: HttpClientOptions, tokenManager?: TokenManager) {
     this.tokenManager = tokenManager;
@@ -40,6 +158,18 @@ export class HttpClient {
     this.retryDelay = options.retryDelay ?? 1000;
     this.debug = options.debug ?? false;
     this.onRateLimitUpdate = options.onRateLimitUpdate;
+    this.checkScopes = options.checkScopes;
+    this.identifyCharacter = options.identifyCharacter;
+    this.cgtTimestamps = options.cgtTimestamps ?? false;
+    if (options.rateLimiter) {
+      this.rateLimiter = new RateLimiter(options.rateLimiter);
+    }
+    if (options.cache) {
+      this.cache = new ResponseCache(options.cache);
+    }
+    if (options.validation && options.validation.mode !== 'off') {
+      this.validator = new ResponseValidator(options.validation);
+    }
 
     // Create axios instance
     this.axios = axios.create({
@@ -54,6 +184,7 @@ export class HttpClient {
     // Set up interceptors
     this.setupRequestInterceptor();
     this.setupResponseInterceptor();
+    this.setupMiddlewareInterceptors();
   }
 
   /**
@@ -61,11 +192,36 @@ export class HttpClient {
    */
   private setupRequestInterceptor(): void {
     this.axios.interceptors.request.use(
-      async (config: InternalAxiosRequestConfig) => {
+      async (config: MiddlewareRequestConfig) => {
+        // Middleware already supplied the response; nothing will be sent
+        if (config._shortCircuited) {
+          return config;
+        }
+
+        const tokenManager = config._tokenManager ?? this.tokenManager;
+        // Looked up after middleware has rewritten the request, and before it uses rate limit budget
+        if (config._cacheable && (await this.serveFromCache(config, tokenManager))) {
+          return config;
+        }
+
+        if (this.checkScopes && !config._skipScopeCheck) {
+          await this.checkScopes(config.method ?? 'get', config.url ?? '', tokenManager);
+        }
+
+        // Wait for rate limit budget before sending
+        if (this.rateLimiter) {
+          if (this.debug && this.rateLimiter.getQueueSize() > 0) {
+            console.log(
+              `[SWC SDK] Rate limiter queued ${config.url} (${this.rateLimiter.getQueueSize()} waiting)`
+            );
+          }
+          await this.rateLimiter.acquire(config.url ?? '');
+        }
+
         // Add access token if available
-        if (this.tokenManager) {
+        if (tokenManager) {
           try {
-            const token = await this.tokenManager.getAccessToken();
+            const token = await tokenManager.getAccessToken();
             if (token) {
               // SW Combine API supports two methods for sending access tokens:
               // 1. Authorization header: "Authorization: OAuth TOKEN"
@@ -111,34 +267,7 @@ export class HttpClient {
   private setupResponseInterceptor(): void {
     this.axios.interceptors.response.use(
       (response) => {
-        // Extract and store rate limit headers if available
-        if (response.headers) {
-          const limit = response.headers['x-ratelimit-limit'];
-          const remaining = response.headers['x-ratelimit-remaining'];
-          const reset = response.headers['x-ratelimit-reset'];
-          const resetTime = response.headers['x-ratelimit-resettime'];
-
-          if (limit) {
-            this._lastRateLimitInfo = {
-              limit: parseInt(limit, 10),
-              remaining: parseInt(remaining, 10),
-              reset: parseInt(reset, 10),
-              resetTime: resetTime || new Date(parseInt(reset, 10) * 1000).toISOString(),
-            };
-
-            // Call the callback if registered
-            if (this.onRateLimitUpdate) {
-              this.onRateLimitUpdate(this._lastRateLimitInfo);
-            }
-
-            if (this.debug) {
-              console.log(
-                `[SWC SDK] Rate Limit: ${this._lastRateLimitInfo.remaining}/${this._lastRateLimitInfo.limit} remaining` +
-                  ` (resets at ${this._lastRateLimitInfo.resetTime})`
-              );
-            }
-          }
-        }
+        this.recordRateLimitHeaders(response.headers, response.config?.url);
 
         // Extract data from swcapi wrapper if present
         if (response.data && typeof response.data === 'object' && 'swcapi' in response.data) {
@@ -152,89 +281,257 @@ export class HttpClient {
             response.data = swcapiData;
           }
         }
-        return response;
-      },
-      async (error: AxiosError) => {
-        const config = error.config as InternalAxiosRequestConfig & { _retryCount?: number };
 
-        // Handle 401 - attempt token refresh
-        if (error.response?.status === 401 && this.tokenManager) {
+        const config = response.config as MiddlewareRequestConfig | undefined;
+        if (this.validator && !config?._shortCircuited && !config?._cacheHit) {
           try {
-            await this.tokenManager.refreshToken();
-            // Retry the request with new token
-            return this.axios.request(config);
-          } catch (refreshError) {
-            if (SWCError.isSWCError(refreshError)) {
-              throw refreshError;
-            }
-            // Token refresh failed, throw auth error
-            throw SWCError.fromHttpResponse(
-              401,
-              error.response?.data,
-              error.response?.headers['x-request-id']
+            this.validator.validate(
+              config?.method ?? 'get',
+              config?.url ?? '',
+              response.data,
+              response.headers?.['x-request-id']
             );
+          } catch (error) {
+            return this.notifyMiddlewareError(config, error).then(() => Promise.reject(error));
           }
         }
+        return response;
+      },
+      async (error: AxiosError) => {
+        try {
+          return await this.handleResponseError(error);
+        } catch (finalError) {
+          await this.notifyMiddlewareError(error.config, finalError);
+          throw finalError;
+        }
+      }
+    );
+  }
 
-        // Handle retryable errors
-        if (this.shouldRetry(error, config._retryCount ?? 0)) {
-          config._retryCount = (config._retryCount ?? 0) + 1;
-
-          // Calculate delay: use Retry-After header if available, otherwise exponential backoff
-          let delay = this.retryDelay * Math.pow(2, config._retryCount - 1);
+  /**
+   * Handle a failed response: refresh tokens on 401, retry retryable errors,
+   * and convert everything else to SWCError
+   */
+  private async handleResponseError(error: AxiosError): Promise<AxiosResponse> {
+    const config = error.config as MiddlewareRequestConfig & { _retryCount?: number };
 
-          // Check for Retry-After header (used for rate limiting)
-          const retryAfter = error.response?.headers?.['retry-after'];
-          if (retryAfter) {
-            // Retry-After can be seconds (number) or HTTP date
-            const retryAfterSeconds = parseInt(retryAfter, 10);
-            if (!isNaN(retryAfterSeconds)) {
-              delay = retryAfterSeconds * 1000; // Convert to milliseconds
-            } else {
-              // Try parsing as HTTP date
-              const retryDate = new Date(retryAfter);
-              if (!isNaN(retryDate.getTime())) {
-                delay = Math.max(0, retryDate.getTime() - Date.now());
-              }
-            }
-          }
+    // Errors thrown by middleware hooks never reached the network
+    if (!config) {
+      throw error;
+    }
 
-          if (this.debug) {
-            console.log(
-              `[SWC SDK] Retrying request in ${delay}ms (attempt ${config._retryCount}/${this.maxRetries})` +
-                (retryAfter ? ` [Retry-After: ${retryAfter}]` : '')
-            );
-          }
+    if (error.response) {
+      this.recordRateLimitHeaders(error.response.headers, config?.url);
+    }
 
-          await this.sleep(delay);
-          return this.axios.request(config);
+    // Handle 401 - attempt token refresh
+    const tokenManager = config._tokenManager ?? this.tokenManager;
+    if (error.response?.status === 401 && tokenManager) {
+      try {
+        await tokenManager.refreshToken();
+        // Retry the request with new token
+        return this.axios.request(config);
+      } catch (refreshError) {
+        if (SWCError.isSWCError(refreshError)) {
+          throw refreshError;
         }
+        // Token refresh failed, throw auth error
+        throw SWCError.fromHttpResponse(
+          401,
+          error.response?.data,
+          error.response?.headers['x-request-id'],
+          this.errorContext(config, error.response)
+        );
+      }
+    }
+
+    // Handle retryable errors
+    if (this.shouldRetry(error, config._retryCount ?? 0)) {
+      config._retryCount = (config._retryCount ?? 0) + 1;
+
+      // Calculate delay: use Retry-After header if available, otherwise exponential backoff
+      let delay = this.retryDelay * Math.pow(2, config._retryCount - 1);
+
+      // Check for Retry-After header (used for rate limiting)
+      const retryAfter = error.response?.headers?.['retry-after'];
+      const retryAfterSeconds = parseRetryAfter(retryAfter);
+      if (retryAfterSeconds !== undefined) {
+        delay = retryAfterSeconds * 1000; // Convert to milliseconds
+      }
+
+      if (this.debug) {
+        console.log(
+          `[SWC SDK] Retrying request in ${delay}ms (attempt ${config._retryCount}/${this.maxRetries})` +
+            (retryAfter ? ` [Retry-After: ${retryAfter}]` : '')
+        );
+      }
+
+      await this.sleep(delay);
+      return this.axios.request(config);
+    }
+
+    // Convert to SWCError
+    if (error.response) {
+      throw SWCError.fromHttpResponse(
+        error.response.status,
+        error.response.data,
+        error.response.headers['x-request-id'],
+        this.errorContext(config, error.response)
+      );
+    } else if (error.request) {
+      throw SWCError.fromNetworkError(error);
+    } else {
+      throw new SWCError(error.message, {
+        type: 'unknown',
+        cause: error,
+      });
+    }
+  }
 
-        // Convert to SWCError
-        if (error.response) {
-          throw SWCError.fromHttpResponse(
-            error.response.status,
-            error.response.data,
-            error.response.headers['x-request-id']
-          );
-        } else if (error.request) {
-          throw SWCError.fromNetworkError(error);
-        } else {
-          throw new SWCError(error.message, {
-            type: 'unknown',
-            cause: error,
+  /**
+   * Set up interceptors that run registered middleware.
+   *
+   * Axios runs request interceptors in reverse registration order, so
+   * `beforeRequest` hooks run before the rate limiter and auth token interceptor.
+   * Response interceptors run in order, so `afterResponse` sees unwrapped data.
+   * `onError` hooks run from the main error handler once the final SWCError is known.
+   */
+  private setupMiddlewareInterceptors(): void {
+    this.axios.interceptors.request.use(async (config: MiddlewareRequestConfig) => {
+      if (this.middleware.length === 0) {
+        return config;
+      }
+
+      const params: Record<string, unknown> = { ...config.params };
+      delete params.access_token;
+      const previous = config._middlewareRequest;
+      const request: MiddlewareRequest = {
+        method: (config.method ?? 'get').toUpperCase(),
+        url: config.url ?? '',
+        params,
+        headers: {},
+        data: config.data,
+        startedAt: previous?.startedAt ?? Date.now(),
+        attempt: (previous?.attempt ?? 0) + 1,
+      };
+      config._middlewareRequest = request;
+      config._shortCircuited = false;
+
+      for (const middleware of this.middleware) {
+        const result = await middleware.beforeRequest?.(request);
+        if (result && 'data' in result) {
+          config._shortCircuited = true;
+          config.adapter = async () => ({
+            data: result.data,
+            status: 200,
+            statusText: 'OK',
+            headers: {},
+            config,
           });
+          break;
         }
       }
-    );
+
+      config.url = request.url;
+      config.params = { ...request.params };
+      config.data = request.data;
+      for (const [name, value] of Object.entries(request.headers)) {
+        config.headers.set(name, value);
+      }
+
+      return config;
+    });
+
+    this.axios.interceptors.response.use(async (response: AxiosResponse) => {
+      const config = response.config as MiddlewareRequestConfig | undefined;
+      const request = config?._middlewareRequest;
+      if (!request || this.reportedToMiddleware.has(response)) {
+        return response;
+      }
+      this.reportedToMiddleware.add(response);
+
+      const details: MiddlewareResponse = {
+        status: response.status,
+        headers: { ...response.headers },
+        data: response.data,
+        durationMs: Date.now() - request.startedAt,
+        shortCircuited: config?._shortCircuited ?? false,
+        fromCache: config?._cacheHit ?? false,
+      };
+      for (const middleware of this.middleware) {
+        await middleware.afterResponse?.(request, details);
+      }
+      response.data = details.data;
+      return response;
+    });
+  }
+
+  /**
+   * Run `onError` hooks for a request that failed for good
+   */
+  private async notifyMiddlewareError(
+    config: MiddlewareRequestConfig | undefined,
+    error: unknown
+  ): Promise<void> {
+    const request = config?._middlewareRequest;
+    if (!request || typeof error !== 'object' || error === null) {
+      return;
+    }
+    // A retried request rejects through each nested interceptor chain; report it once
+    if (this.reportedToMiddleware.has(error)) {
+      return;
+    }
+    this.reportedToMiddleware.add(error);
+
+    for (const middleware of this.middleware) {
+      await middleware.onError?.(request, error);
+    }
+  }
+
+  /**
+   * Extract and store rate limit headers if available
+   */
+  private recordRateLimitHeaders(
+    headers: AxiosResponse['headers'] | undefined,
+    url?: string
+  ): void {
+    const limit = headers?.['x-ratelimit-limit'];
+    if (!headers || !limit) {
+      return;
+    }
+
+    const remaining = headers['x-ratelimit-remaining'];
+    const reset = headers['x-ratelimit-reset'];
+    const resetTime = headers['x-ratelimit-resettime'];
+
+    this._lastRateLimitInfo = {
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      reset: parseInt(reset, 10),
+      resetTime: resetTime || new Date(parseInt(reset, 10) * 1000).toISOString(),
+    };
+
+    this.rateLimiter?.update(url ?? '', this._lastRateLimitInfo);
+
+    // Call the callback if registered
+    if (this.onRateLimitUpdate) {
+      this.onRateLimitUpdate(this._lastRateLimitInfo);
+    }
+
+    if (this.debug) {
+      console.log(
+        `[SWC SDK] Rate Limit: ${this._lastRateLimitInfo.remaining}/${this._lastRateLimitInfo.limit} remaining` +
+          ` (resets at ${this._lastRateLimitInfo.resetTime})`
+      );
+    }
   }
 
   /**
    * Determine if a request should be retried
    */
   private shouldRetry(error: AxiosError, retryCount: number): boolean {
-    // Don't retry if we've exceeded max retries
-    if (retryCount >= this.maxRetries) {
+    // Don't retry if we've exceeded max retries or the caller retries for us
+    if (retryCount >= this.maxRetries || this.noRetryContext.getStore()) {
       return false;
     }
 
@@ -271,6 +568,17 @@ export class HttpClient {
     return false;
   }
 
+  /**
+   * Describe the failed request for SWCError
+   */
+  private errorContext(config: AxiosRequestConfig, response?: AxiosResponse): HttpErrorContext {
+    return {
+      method: config.method,
+      endpoint: config.url?.replace(/\?.*$/, ''),
+      headers: response?.headers,
+    };
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -282,40 +590,182 @@ export class HttpClient {
    * Make a GET request
    */
   async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.axios.get<T>(url, config);
-    return response.data;
+    if (!this.cache || this.skipCache) {
+      const response = await this.axios.get<T>(url, this.scoped(config));
+      return this.output(response.data);
+    }
+
+    const cacheable: ScopedRequestConfig = { ...this.scoped(config), _cacheable: true };
+    const response = await this.axios.get<T>(url, cacheable);
+    const entry = (response.config as MiddlewareRequestConfig | undefined)?._cacheEntry;
+    if (entry) {
+      await this.cache.set(entry.key, response.data, entry.ttl);
+    }
+    return this.output(response.data);
   }
 
   /**
    * Make a POST request
    */
   async post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.axios.post<T>(url, data, config);
-    return response.data;
+    const response = await this.axios.post<T>(url, data, this.scoped(config));
+    return this.output(response.data);
   }
 
   /**
    * Make a PUT request
    */
   async put<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.axios.put<T>(url, data, config);
-    return response.data;
+    const response = await this.axios.put<T>(url, data, this.scoped(config));
+    return this.output(response.data);
   }
 
   /**
    * Make a DELETE request
    */
   async delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.axios.delete<T>(url, config);
-    return response.data;
+    const response = await this.axios.delete<T>(url, this.scoped(config));
+    return this.output(response.data);
   }
 
   /**
    * Make a custom request
    */
   async request<T = any>(config: AxiosRequestConfig): Promise<T> {
-    const response = await this.axios.request<T>(config);
-    return response.data;
+    const response = await this.axios.request<T>(this.scoped(config));
+    return this.output(response.data);
+  }
+
+  /**
+   * Create a view of this client that authenticates with `tokenManager`.
+   * The view shares the axios instance, rate limiter, cache and middleware.
+   */
+  forTokenManager(tokenManager: TokenManager): HttpClient {
+    const view = Object.create(this) as HttpClient;
+    view.scopedTokenManager = tokenManager;
+    return view;
+  }
+
+  /**
+   * Create a view of this client whose requests skip the `checkScopes` hook,
+   * e.g. for looking up the granted scopes themselves.
+   */
+  withoutScopeCheck(): HttpClient {
+    const view = Object.create(this) as HttpClient;
+    view.skipScopeCheck = true;
+    return view;
+  }
+
+  /**
+   * Create a view of this client whose requests bypass the response cache
+   */
+  withoutCache(): HttpClient {
+    const view = Object.create(this) as HttpClient;
+    view.skipCache = true;
+    return view;
+  }
+
+  /**
+   * Answer a cacheable request from the cache by swapping in an adapter that returns the
+   * stored response. On a miss, remember where `get()` should store the response.
+   *
+   * @returns Whether the request was answered from the cache
+   */
+  private async serveFromCache(
+    config: MiddlewareRequestConfig,
+    tokenManager?: TokenManager
+  ): Promise<boolean> {
+    const ttl = this.cache?.ttlFor(config.url ?? '') ?? 0;
+    if (!this.cache || ttl <= 0) {
+      return false;
+    }
+
+    const owner = await this.cacheOwner(tokenManager);
+    const key = this.cache.keyFor(config.url ?? '', config.params, owner);
+    const cached = await this.cache.get(key);
+    if (cached === undefined) {
+      config._cacheEntry = { key, ttl };
+      return false;
+    }
+
+    if (this.debug) {
+      console.log(`[SWC SDK] Cache hit: GET ${config.url}`);
+    }
+    config._cacheHit = true;
+    config.adapter = async () => ({
+      data: cached,
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    });
+    return true;
+  }
+
+  /**
+   * UID of the character a token acts as. Looked up with `identifyCharacter` once per token
+   * and remembered on the token manager; undefined without a token or a lookup.
+   * @throws The lookup's error if it fails; the next call looks up again
+   */
+  async characterUid(tokenManager: TokenManager): Promise<string | undefined> {
+    const token = tokenManager.getToken();
+    const known = tokenManager.getCharacterUid();
+    if (!token || known !== undefined || !this.identifyCharacter) {
+      return token ? known : undefined;
+    }
+
+    let pending = this.identifying.get(tokenManager);
+    if (!pending) {
+      pending = this.identifyCharacter(tokenManager)
+        .then((found) => {
+          // Only trust the answer if the token was not replaced during the lookup
+          if (tokenManager.getToken() === token) {
+            tokenManager.setCharacterUid(found);
+          }
+          return found;
+        })
+        .finally(() => this.identifying.delete(tokenManager));
+      this.identifying.set(tokenManager, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Cache owner for a request: the character the token acts as, falling back to a hash of
+   * the token while the character is unknown
+   */
+  private async cacheOwner(tokenManager?: TokenManager): Promise<string> {
+    const token = tokenManager?.getToken() ?? null;
+    if (!tokenManager || !token) {
+      return cacheOwnerFor(null);
+    }
+
+    const uid = await this.characterUid(tokenManager).catch(() => undefined);
+    return uid !== undefined ? `character:${uid}` : cacheOwnerFor(token);
+  }
+
+  /**
+   * Apply response options that must also cover cache hits
+   */
+  private output<T>(data: T): T {
+    return this.cgtTimestamps ? attachCgt(data) : data;
+  }
+
+  /**
+   * Attach the view's settings to a request config
+   */
+  private scoped<C extends AxiosRequestConfig | undefined>(config: C): C {
+    if (!this.scopedTokenManager && !this.skipScopeCheck) {
+      return config;
+    }
+    const scoped: ScopedRequestConfig = { ...config };
+    if (this.scopedTokenManager) {
+      scoped._tokenManager = this.scopedTokenManager;
+    }
+    if (this.skipScopeCheck) {
+      scoped._skipScopeCheck = true;
+    }
+    return scoped as C;
   }
 
   /**
@@ -325,6 +775,13 @@ export class HttpClient {
     this.tokenManager = tokenManager;
   }
 
+  /**
+   * Register middleware that runs around every request
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
   /**
    * Get the last known rate limit information from API response headers.
    * Returns null if no rate limit info has been received yet.
@@ -357,4 +814,41 @@ export class HttpClient {
   setRateLimitCallback(callback: (info: RateLimitInfo) => void): void {
     this.onRateLimitUpdate = callback;
   }
+
+  /**
+   * Get response cache hit/miss counters (zero when caching is disabled)
+   */
+  getCacheStats(): CacheStats {
+    return this.cache?.getStats() ?? { hits: 0, misses: 0 };
+  }
+
+  /**
+   * Remove cached responses whose path matches `pattern` (e.g. `/types/*`), or all of them
+   */
+  async invalidateCache(pattern?: string): Promise<void> {
+    await this.cache?.invalidate(pattern);
+  }
+
+  /**
+   * Seed the rate limiter with per-endpoint limits from `/api/ratelimits`.
+   * Has no effect when the rate limiter is disabled.
+   */
+  seedRateLimits(entries: RateLimitEntry[]): void {
+    this.rateLimiter?.seed(entries);
+  }
+
+  /**
+   * Run `fn` with every request it makes queued in the given priority lane.
+   * Interactive requests are released before background ones when budget is short.
+   */
+  runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+    return this.rateLimiter ? this.rateLimiter.runWithPriority(priority, fn) : fn();
+  }
+
+  /**
+   * Run `fn` without retrying failed requests it makes, for callers that retry themselves
+   */
+  runWithoutRetries<T>(fn: () => T): T {
+    return this.noRetryContext.run(true, fn);
+  }
 }
@@ -0,0 +1,236 @@
+/**
+ * Client-side request scheduler that keeps calls under the API rate limits
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { normalizePath, patternToRegExp } from './paths.js';
+import type { RateLimitInfo, RateLimiterOptions, RequestPriority } from '../types/index.js';
+import type { RateLimitEntry } from '../resources/ApiResource.js';
+
+const DEFAULT_LIMIT = 600;
+const DEFAULT_WINDOW_MS = 60 * 60 * 1000;
+const PRIORITY_ORDER: RequestPriority[] = ['interactive', 'background'];
+
+/**
+ * Token bucket for a single rate limit window
+ */
+class TokenBucket {
+  private tokens: number;
+  private ratePerMs: number;
+  private updatedAt: number;
+  private windowReset = 0;
+  private blockedUntil = 0;
+
+  constructor(
+    limit: number,
+    private readonly capacity: number,
+    private readonly windowMs: number,
+    now: number
+  ) {
+    this.tokens = capacity;
+    this.ratePerMs = limit / windowMs;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until a token is available (0 if one is available now)
+   */
+  waitTime(now: number): number {
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    this.refill(now);
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.ratePerMs);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  /**
+   * Align the bucket with limits reported by the API
+   */
+  sync(limit: number, remaining: number, resetMs: number, now: number): void {
+    this.refill(now);
+    if (limit > 0) {
+      this.ratePerMs = limit / this.windowMs;
+    }
+
+    if (resetMs > this.windowReset) {
+      // A new window started since the last report; trust the server's remaining count.
+      this.windowReset = resetMs;
+      this.tokens = Math.min(this.capacity, remaining);
+    } else {
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+
+    this.blockedUntil = remaining <= 0 ? resetMs : 0;
+  }
+
+  private refill(now: number): void {
+    if (this.windowReset > 0 && now >= this.windowReset) {
+      // The server-side window has rolled over, so the full budget is available again.
+      this.tokens = this.capacity;
+      this.windowReset = 0;
+      this.blockedUntil = 0;
+      this.updatedAt = now;
+      return;
+    }
+
+    const elapsed = now - this.updatedAt;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerMs);
+      this.updatedAt = now;
+    }
+  }
+}
+
+interface PatternBucket {
+  matcher: RegExp;
+  bucket: TokenBucket;
+}
+
+interface Waiter {
+  path: string;
+  resolve: () => void;
+}
+
+/**
+ * Token bucket scheduler that queues outgoing requests.
+ *
+ * A default bucket covers every request; buckets seeded from `/api/ratelimits`
+ * additionally cover requests whose path matches their pattern. Buckets are kept
+ * in sync with the `x-ratelimit-*` headers of each response.
+ */
+export class RateLimiter {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private readonly burst: number;
+  private readonly defaultBucket: TokenBucket;
+  private readonly patternBuckets = new Map<string, PatternBucket>();
+  private readonly queues: Record<RequestPriority, Waiter[]> = {
+    interactive: [],
+    background: [],
+  };
+  private readonly priorityContext = new AsyncLocalStorage<RequestPriority>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.limit = options.limit ?? DEFAULT_LIMIT;
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.burst = options.burst ?? this.limit;
+    this.defaultBucket = new TokenBucket(this.limit, this.burst, this.windowMs, Date.now());
+  }
+
+  /**
+   * Wait until a request to `path` may be sent
+   */
+  acquire(path: string): Promise<void> {
+    const priority = this.priorityContext.getStore() ?? 'background';
+    return new Promise((resolve) => {
+      this.queues[priority].push({ path: normalizePath(path), resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Run `fn` so that every request it makes is queued in the given lane
+   */
+  runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+    return this.priorityContext.run(priority, fn);
+  }
+
+  /**
+   * Record rate limit headers received for a request to `path`
+   */
+  update(path: string, info: RateLimitInfo): void {
+    const now = Date.now();
+    const resetMs = info.reset * 1000;
+    const matching = this.matchingPatternBuckets(normalizePath(path));
+    const buckets = matching.length > 0 ? matching : [this.defaultBucket];
+
+    for (const bucket of buckets) {
+      bucket.sync(info.limit, info.remaining, resetMs, now);
+    }
+    this.drain();
+  }
+
+  /**
+   * Seed per-pattern buckets from `client.api.rateLimits()`
+   */
+  seed(entries: RateLimitEntry[]): void {
+    const now = Date.now();
+    for (const entry of entries) {
+      const { pattern, limit, remaining, reset } = entry.attributes;
+      let patternBucket = this.patternBuckets.get(pattern);
+      if (!patternBucket) {
+        const burst = Math.min(this.burst, limit);
+        patternBucket = {
+          matcher: patternToRegExp(pattern),
+          bucket: new TokenBucket(limit, burst, this.windowMs, now),
+        };
+        this.patternBuckets.set(pattern, patternBucket);
+      }
+      patternBucket.bucket.sync(limit, remaining, reset * 1000, now);
+    }
+    this.drain();
+  }
+
+  /**
+   * Number of requests currently waiting for budget
+   */
+  getQueueSize(): number {
+    return this.queues.interactive.length + this.queues.background.length;
+  }
+
+  private matchingPatternBuckets(path: string): TokenBucket[] {
+    const buckets: TokenBucket[] = [];
+    for (const { matcher, bucket } of this.patternBuckets.values()) {
+      if (matcher.test(path)) {
+        buckets.push(bucket);
+      }
+    }
+    return buckets;
+  }
+
+  /**
+   * Release every queued request that has budget, interactive lane first,
+   * then schedule another pass for the earliest blocked request.
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    let nextWait = Infinity;
+
+    for (const priority of PRIORITY_ORDER) {
+      const queue = this.queues[priority];
+      let index = 0;
+      while (index < queue.length) {
+        const waiter = queue[index];
+        const buckets = [this.defaultBucket, ...this.matchingPatternBuckets(waiter.path)];
+        const wait = Math.max(...buckets.map((bucket) => bucket.waitTime(now)));
+
+        if (wait === 0) {
+          buckets.forEach((bucket) => bucket.take(now));
+          queue.splice(index, 1);
+          waiter.resolve();
+        } else {
+          nextWait = Math.min(nextWait, wait);
+          index++;
+        }
+      }
+    }
+
+    if (nextWait !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), nextWait);
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Response cache for GET requests to rarely-changing endpoints
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { normalizePath, patternToRegExp } from './paths.js';
+import type {
+  CacheEntry,
+  CacheStats,
+  CacheStore,
+  OAuthToken,
+  ResponseCacheOptions,
+} from '../types/index.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/** Numbers temporary files, so concurrent writes never share one */
+let tmpCounter = 0;
+
+/**
+ * Default TTLs for static data
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  '/types': 24 * HOUR,
+  '/galaxy/sectors': 24 * HOUR,
+  '/galaxy/systems': 24 * HOUR,
+  '/factions': HOUR,
+};
+
+/**
+ * In-memory cache store that evicts the least recently used entry once full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Filesystem cache store that keeps one JSON file per entry in `directory`
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const stored = await this.read(this.fileFor(key));
+    return stored?.key === key ? stored.entry : undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(key);
+    const tmp = `${file}.${process.pid}.${++tmpCounter}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ key, entry }));
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (const name of await this.listFiles()) {
+      const stored = await this.read(path.join(this.directory, name));
+      if (stored) {
+        keys.push(stored.key);
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    for (const name of await this.listFiles()) {
+      await fs.rm(path.join(this.directory, name), { force: true });
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.directory)).filter((name) => name.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async read(file: string): Promise<{ key: string; entry: CacheEntry } | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      // Missing or partially written files are treated as cache misses
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Caches GET responses according to per-endpoint TTL policies.
+ *
+ * Keys are `<owner>|<path>?<query>`, where the owner is `character:<uid>` for the
+ * character the request's token acts as (a token hash while that is unknown, or
+ * `public` for unauthenticated calls).
+ *
+ * Values are copied on the way in and out, so callers may modify what they get back.
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly policies: Array<{ pattern: string; matcher: RegExp; ttl: number }>;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    const ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttl };
+    // Most specific pattern first
+    this.policies = Object.entries(ttls)
+      .map(([pattern, ttl]) => ({ pattern, matcher: patternToRegExp(pattern), ttl }))
+      .sort((a, b) => normalizePath(b.pattern).length - normalizePath(a.pattern).length);
+  }
+
+  /**
+   * TTL in milliseconds for a request path, or 0 if it should not be cached
+   */
+  ttlFor(url: string): number {
+    const normalized = normalizePath(url);
+    return this.policies.find((policy) => policy.matcher.test(normalized))?.ttl ?? 0;
+  }
+
+  /**
+   * Build the cache key for a request
+   */
+  keyFor(url: string, params: Record<string, unknown> | undefined, owner: string): string {
+    const query = Object.keys(params ?? {})
+      .filter((name) => name !== 'access_token' && params![name] !== undefined)
+      .sort()
+      .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(String(params![name]))}`)
+      .join('&');
+    return `${owner}|${normalizePath(url)}?${query}`;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = await this.store.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      return structuredClone(entry.value) as T;
+    }
+    if (entry) {
+      await this.store.delete(key);
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: unknown, ttl: number): Promise<void> {
+    await this.store.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Remove cached responses whose path matches `pattern`, or everything if omitted
+   */
+  async invalidate(pattern?: string): Promise<void> {
+    if (!pattern) {
+      await this.store.clear();
+      return;
+    }
+
+    const matcher = patternToRegExp(pattern);
+    for (const key of await this.store.keys()) {
+      const keyPath = key.slice(key.indexOf('|') + 1, key.indexOf('?'));
+      if (matcher.test(keyPath)) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  getStats(): CacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+}
+
+/**
+ * Cache owner for a token: a short hash so raw tokens never end up in cache keys
+ */
+export function cacheOwnerFor(token: OAuthToken | null): string {
+  if (!token) {
+    return 'public';
+  }
+  // Refresh tokens outlive access tokens, so prefer them to keep keys stable across refreshes
+  const secret = token.refreshToken ?? token.accessToken;
+  return createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
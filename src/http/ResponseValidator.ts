@@ -0,0 +1,92 @@
+/**
+ * Runtime validation of API responses against their schemas
+ */
+
+import { compileRoute } from './paths.js';
+import { RESPONSE_SCHEMAS } from './schemas.js';
+import { SWCSchemaError } from './errors.js';
+import type {
+  ResponseValidationOptions,
+  ValidationMode,
+  ValidationReport,
+} from '../types/index.js';
+
+const routes = RESPONSE_SCHEMAS.map((entry) => ({ ...entry, route: compileRoute(entry.path) }));
+
+/**
+ * Checks GET responses from endpoints listed in `RESPONSE_SCHEMAS`.
+ * In `strict` mode a mismatch throws `SWCSchemaError`; in `warn` mode it is reported
+ * and the response is returned unchanged.
+ */
+export class ResponseValidator {
+  private mode: ValidationMode;
+  private onIssue: (report: ValidationReport) => void;
+
+  constructor(options: ResponseValidationOptions) {
+    this.mode = options.mode;
+    this.onIssue = options.onIssue ?? ResponseValidator.logReport;
+  }
+
+  /**
+   * Validate an unwrapped response body
+   * @param method - HTTP method of the request
+   * @param url - Request URL or API path
+   * @param data - Unwrapped response body
+   * @param requestId - Request ID from the response headers
+   */
+  validate(method: string, url: string, data: unknown, requestId?: string): void {
+    if (this.mode === 'off' || method.toUpperCase() !== 'GET') {
+      return;
+    }
+
+    const entry = routes.find((candidate) => candidate.route.match(url));
+    if (!entry) {
+      return;
+    }
+
+    const issues: ValidationReport['issues'] = [];
+    entry.check(data, '', issues);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const report: ValidationReport = {
+      schema: entry.schema,
+      method: 'GET',
+      endpoint: url.replace(/\?.*$/, ''),
+      requestId,
+      issues,
+    };
+
+    if (this.mode === 'strict') {
+      throw new SWCSchemaError(ResponseValidator.describe(report), {
+        schema: report.schema,
+        issues,
+        method: report.method,
+        endpoint: report.endpoint,
+        requestId,
+        response: data,
+      });
+    }
+    this.onIssue(report);
+  }
+
+  /**
+   * Summarize a report in one line, e.g.
+   * `GET /inventory/ships/5:1 does not match ShipEntity: value.hull.attributes.max expected number, received string`
+   */
+  static describe(report: ValidationReport): string {
+    const fields = report.issues
+      .map(
+        (issue) =>
+          `${issue.path || '<root>'} expected ${issue.expected}, received ${issue.received}`
+      )
+      .join('; ');
+    const requestId = report.requestId ? ` (request ${report.requestId})` : '';
+    return `${report.method} ${report.endpoint} does not match ${report.schema}${requestId}: ${fields}`;
+  }
+
+  private static logReport(report: ValidationReport): void {
+    console.warn(`[SWC SDK] ${ResponseValidator.describe(report)}`);
+  }
+}
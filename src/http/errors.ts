@@ -2,6 +2,8 @@
  * Error handling for SW Combine SDK
  */
 
+import type { ValidationIssue } from '../types/index.js';
+
 export type SWCErrorType =
   | 'auth'
   | 'rate_limit'
@@ -9,6 +11,7 @@ export type SWCErrorType =
   | 'validation'
   | 'server'
   | 'network'
+  | 'schema'
   | 'unknown';
 
 export interface SWCErrorOptions {
@@ -19,6 +22,26 @@ export interface SWCErrorOptions {
   retryable?: boolean;
   retryAfter?: number;
   cause?: Error;
+  endpoint?: string;
+  method?: string;
+  code?: string;
+}
+
+/**
+ * Options for the typed subclasses, whose `type` is fixed
+ */
+export type SWCErrorSubclassOptions = Omit<SWCErrorOptions, 'type'>;
+
+/**
+ * Request details attached to errors created from HTTP responses
+ */
+export interface HttpErrorContext {
+  /** HTTP method (e.g. `GET`) */
+  method?: string;
+  /** Endpoint path that was requested */
+  endpoint?: string;
+  /** Response headers, used for `Retry-After` */
+  headers?: { [name: string]: unknown };
 }
 
 /**
@@ -39,10 +62,16 @@ export class SWCError extends Error {
   public readonly retryAfter?: number;
   /** Original error that caused this error */
   public readonly cause?: Error;
+  /** Endpoint path of the failed request */
+  public readonly endpoint?: string;
+  /** HTTP method of the failed request */
+  public readonly method?: string;
+  /** Error code parsed from the API response (e.g. `invalid_grant`) */
+  public readonly code?: string;
 
   constructor(message: string, options: SWCErrorOptions) {
     super(message);
-    this.name = 'SWCError';
+    this.name = new.target.name;
     this.type = options.type;
     this.statusCode = options.statusCode;
     this.requestId = options.requestId;
@@ -50,10 +79,13 @@ export class SWCError extends Error {
     this.retryable = options.retryable ?? this.determineRetryable(options.type, options.statusCode);
     this.retryAfter = options.retryAfter;
     this.cause = options.cause;
+    this.endpoint = options.endpoint;
+    this.method = options.method;
+    this.code = options.code;
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, SWCError);
+      Error.captureStackTrace(this, new.target);
     }
   }
 
@@ -81,76 +113,70 @@ export class SWCError extends Error {
   }
 
   /**
-   * Create an error from an HTTP status code and response
+   * Create a typed error from an HTTP status code and response body.
+   * Returns the matching subclass (e.g. `SWCNotFoundError` for 404).
    */
-  static fromHttpResponse(statusCode: number, response: any, requestId?: string): SWCError {
-    let type: SWCErrorType;
-    let message: string;
+  static fromHttpResponse(
+    statusCode: number,
+    response: any,
+    requestId?: string,
+    context: HttpErrorContext = {}
+  ): SWCError {
+    const apiError = parseApiError(response);
+    const options: SWCErrorSubclassOptions = {
+      statusCode,
+      requestId,
+      response,
+      endpoint: context.endpoint,
+      method: context.method?.toUpperCase(),
+      code: apiError.code,
+    };
+    const message = (fallback: string) => apiError.message ?? fallback;
 
-    // Check if this is a rate limit error (SW Combine uses HTTP 400 for rate limiting)
+    // SW Combine uses HTTP 400 for rate limiting
     const isRateLimitError =
-      statusCode === 400 &&
-      (response?.error === 'rate_limit_exceeded' ||
-        response?.message?.toLowerCase().includes('rate limit') ||
-        response?.error_description?.toLowerCase().includes('rate limit'));
+      statusCode === 429 ||
+      (statusCode === 400 &&
+        (apiError.code === 'rate_limit_exceeded' ||
+          /rate limit/i.test(response?.message ?? '') ||
+          /rate limit/i.test(response?.error_description ?? '')));
 
-    // Determine error type from status code and content
     if (isRateLimitError) {
-      type = 'rate_limit';
-      message = 'Rate limit exceeded. Please wait before making more requests.';
-    } else {
-      switch (statusCode) {
-        case 401:
-          type = 'auth';
-          message = 'Authentication failed. Check your credentials or token.';
-          break;
-        case 403:
-          type = 'auth';
-          message = 'Forbidden. You do not have permission to access this resource.';
-          break;
-        case 404:
-          type = 'not_found';
-          message = 'Resource not found.';
-          break;
-        case 400:
-        case 422:
-          type = 'validation';
-          message = 'Invalid request parameters.';
-          break;
-        case 429:
-          type = 'rate_limit';
-          message = 'Rate limit exceeded. Please wait before making more requests.';
-          break;
-        default:
-          if (statusCode >= 500) {
-            type = 'server';
-            message = 'Server error occurred. Please try again later.';
-          } else {
-            type = 'unknown';
-            message = 'An unknown error occurred.';
-          }
-      }
+      return new SWCRateLimitError(
+        message('Rate limit exceeded. Please wait before making more requests.'),
+        { ...options, retryAfter: parseRetryAfter(context.headers?.['retry-after']) }
+      );
     }
 
-    // Use error message from response if available
-    if (response?.error_description) {
-      message = response.error_description;
-    } else if (response?.message) {
-      message = response.message;
-    } else if (response?.error) {
-      message = typeof response.error === 'string' ? response.error : message;
+    switch (statusCode) {
+      case 401:
+        return new SWCAuthError(
+          message('Authentication failed. Check your credentials or token.'),
+          options
+        );
+      case 403: {
+        const text = `${apiError.code ?? ''} ${apiError.message ?? ''}`;
+        return /scope/i.test(text)
+          ? new SWCScopeError(message('The token was not granted the required scope.'), options)
+          : new SWCAuthError(
+              message('Forbidden. You do not have permission to access this resource.'),
+              options
+            );
+      }
+      case 404:
+        return new SWCNotFoundError(message('Resource not found.'), options);
+      case 400:
+      case 422:
+        return new SWCValidationError(message('Invalid request parameters.'), options);
+      default:
+        if (statusCode >= 500) {
+          return new SWCServerError(
+            message('Server error occurred. Please try again later.'),
+            options
+          );
+        }
+        return new SWCError(message('An unknown error occurred.'), { ...options, type: 'unknown' });
     }
-
-    // Extract retry-after header for rate limit errors
-    const retryAfter = type === 'rate_limit' ? response?.retry_after : undefined;
-
-    return new SWCError(message, {
-      type,
-      statusCode,
-      requestId,
-      response,
-      retryAfter,
-    });
   }
 
   /**
@@ -190,8 +216,136 @@ export class SWCError extends Error {
         return 'A server error occurred. Please try again later.';
       case 'network':
         return 'Network connection failed. Please check your internet connection and try again.';
+      case 'schema':
+        return 'The server returned data in an unexpected format.';
       default:
         return 'An unexpected error occurred. Please try again.';
     }
   }
 }
+
+/**
+ * Authentication or authorization failed (HTTP 401/403)
+ */
+export class SWCAuthError extends SWCError {
+  constructor(message: string, options: SWCErrorSubclassOptions = {}) {
+    super(message, { ...options, type: 'auth' });
+  }
+}
+
+/**
+ * The token lacks a scope the endpoint requires
+ */
+export class SWCScopeError extends SWCAuthError {
+  /** Scopes that would allow the call, when known */
+  public readonly requiredScopes?: string[];
+
+  constructor(
+    message: string,
+    options: SWCErrorSubclassOptions & { requiredScopes?: string[] } = {}
+  ) {
+    const { requiredScopes, ...rest } = options;
+    super(message, rest);
+    this.requiredScopes = requiredScopes;
+  }
+}
+
+/**
+ * Too many requests; see `retryAfter`
+ */
+export class SWCRateLimitError extends SWCError {
+  constructor(message: string, options: SWCErrorSubclassOptions = {}) {
+    super(message, { ...options, type: 'rate_limit' });
+  }
+}
+
+/**
+ * The requested entity does not exist (HTTP 404)
+ */
+export class SWCNotFoundError extends SWCError {
+  constructor(message: string, options: SWCErrorSubclassOptions = {}) {
+    super(message, { ...options, type: 'not_found' });
+  }
+}
+
+/**
+ * The request parameters were rejected (HTTP 400/422)
+ */
+export class SWCValidationError extends SWCError {
+  constructor(message: string, options: SWCErrorSubclassOptions = {}) {
+    super(message, { ...options, type: 'validation' });
+  }
+}
+
+/**
+ * The API failed to handle the request (HTTP 5xx)
+ */
+export class SWCServerError extends SWCError {
+  constructor(message: string, options: SWCErrorSubclassOptions = {}) {
+    super(message, { ...options, type: 'server' });
+  }
+}
+
+/**
+ * A response did not match its schema (see the `validateResponses` client option)
+ */
+export class SWCSchemaError extends SWCError {
+  /** Schema the response was checked against */
+  public readonly schema: string;
+  /** Fields that did not match */
+  public readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    options: SWCErrorSubclassOptions & { schema: string; issues: ValidationIssue[] }
+  ) {
+    const { schema, issues, ...rest } = options;
+    super(message, { ...rest, type: 'schema' });
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = new Date(String(value)).getTime();
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Extract the error code and message from the API's error body formats:
+ * `{ error, error_description }`, `{ message }` and `{ error: { code, message } }`
+ */
+function parseApiError(response: unknown): { code?: string; message?: string } {
+  const root = asRecord(response);
+  const body = asRecord(root.swcapi ?? response);
+  const error = body.error;
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const code = (value: unknown) =>
+    typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+  if (error && typeof error === 'object') {
+    const nested = asRecord(error);
+    return { code: code(nested.code), message: text(nested.message) ?? text(body.message) };
+  }
+
+  return {
+    code: text(error) ?? code(body.code),
+    message: text(body.error_description) ?? text(body.message) ?? text(error),
+  };
+}
+
+function asRecord(value: unknown): { [key: string]: unknown } {
+  return value && typeof value === 'object' ? (value as { [key: string]: unknown }) : {};
+}
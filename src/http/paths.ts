@@ -0,0 +1,62 @@
+/**
+ * Helpers for matching request URLs against endpoint patterns
+ */
+
+/**
+ * Normalize a request URL or endpoint pattern to a bare API path
+ * (e.g. `https://www.swcombine.com/ws/v2.0/character/1:1/` -> `character/1:1`)
+ */
+export function normalizePath(path: string): string {
+  return path
+    .replace(/^[a-z]+:\/\/[^/]+/i, '')
+    .replace(/^\/?ws\/v2\.0/i, '')
+    .replace(/\?.*$/, '')
+    .replace(/^\/+|\/+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Build a matcher for an endpoint pattern such as `/character/*\/messages`.
+ * `*` matches any characters, and a pattern also matches every path below it.
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const escaped = normalizePath(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}(?:/.*)?$`);
+}
+
+/**
+ * Build a matcher for a route template such as `character/{uid}/messages/{mode?}`.
+ * `{name}` matches one segment and `{name?}` an optional segment; the captured values
+ * are returned by name (lower-cased) from `match()`.
+ */
+export function compileRoute(template: string): {
+  match(url: string): Map<string, string> | undefined;
+} {
+  const params: string[] = [];
+  // Not normalizePath(): it would read `{name?}` as the start of a query string
+  const source = template
+    .replace(/^\/+|\/+$/g, '')
+    .toLowerCase()
+    .split('/')
+    .map((segment, index) => {
+      const param = /^\{(\w+)(\?)?\}$/.exec(segment);
+      const separator = index === 0 ? '' : '/';
+      if (!param) {
+        return separator + segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+      }
+      params.push(param[1]);
+      return param[2] ? `(?:${separator}([^/]+))?` : `${separator}([^/]+)`;
+    })
+    .join('');
+  const pattern = new RegExp(`^${source}$`);
+
+  return {
+    match(url: string) {
+      const match = pattern.exec(normalizePath(url));
+      return match ? new Map(params.map((param, index) => [param, match[index + 1]])) : undefined;
+    },
+  };
+}
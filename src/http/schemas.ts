@@ -0,0 +1,459 @@
+/**
+ * Runtime schemas for the main API response shapes
+ *
+ * Each schema mirrors the matching interface in `types/index.ts`: required fields must be
+ * present, optional fields are checked when present, and unknown fields are allowed.
+ */
+
+import type { ValidationIssue } from '../types/index.js';
+
+/**
+ * Checks a value, appending an issue for every field that does not match
+ */
+export interface Check {
+  (value: unknown, path: string, issues: ValidationIssue[]): void;
+  /** Description of the accepted values, used in issues */
+  expected: string;
+}
+
+function define(expected: string, test: (value: unknown) => boolean): Check {
+  const check = ((value, path, issues) => {
+    if (!test(value)) {
+      issues.push({ path, expected, received: typeOf(value) });
+    }
+  }) as Check;
+  check.expected = expected;
+  return check;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+const string = define('string', (value) => typeof value === 'string');
+const number = define('number', (value) => typeof value === 'number' && Number.isFinite(value));
+const anyObject = define('object', isObject);
+const nullValue = define('null', (value) => value === null);
+const emptyObject = define('{}', (value) => isObject(value) && Object.keys(value).length === 0);
+
+function literal(...values: string[]): Check {
+  return define(values.map((value) => `'${value}'`).join(' | '), (value) =>
+    values.includes(value as string)
+  );
+}
+
+/** Accept values matching any of the checks */
+function union(...checks: Check[]): Check {
+  const check = ((value, path, issues) => {
+    const attempts = checks.map((candidate) => {
+      const found: ValidationIssue[] = [];
+      candidate(value, path, found);
+      return found;
+    });
+    if (attempts.some((found) => found.length === 0)) {
+      return;
+    }
+    // A value of the right type with mismatched fields reports those fields
+    const nested = attempts.find((found) => found.every((issue) => issue.path !== path));
+    issues.push(...(nested ?? [{ path, expected: check.expected, received: typeOf(value) }]));
+  }) as Check;
+  check.expected = checks.map((candidate) => candidate.expected).join(' | ');
+  return check;
+}
+
+/**
+ * Object with `required` fields that must be present and `optional` fields that may be
+ * missing. Other fields are not checked.
+ */
+function object(required: Record<string, Check>, optional: Record<string, Check> = {}): Check {
+  const check = ((value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, expected: 'object', received: typeOf(value) });
+      return;
+    }
+    for (const [key, field] of Object.entries(required)) {
+      field(value[key], join(path, key), issues);
+    }
+    for (const [key, field] of Object.entries(optional)) {
+      if (value[key] !== undefined) {
+        field(value[key], join(path, key), issues);
+      }
+    }
+  }) as Check;
+  check.expected = 'object';
+  return check;
+}
+
+function arrayOf(item: Check): Check {
+  const check = ((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: `${item.expected}[]`, received: typeOf(value) });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  }) as Check;
+  check.expected = `${item.expected}[]`;
+  return check;
+}
+
+const yesNo = literal('yes', 'no');
+const trueFalse = literal('true', 'false');
+const numberOrString = union(number, string);
+
+/** `{ value, attributes: { uid, href } }` reference where every field may be missing */
+const reference = object(
+  {},
+  {
+    value: string,
+    attributes: object({}, { uid: string, href: string, type: string }),
+  }
+);
+
+const timestamp = object({
+  years: number,
+  days: number,
+  hours: number,
+  mins: number,
+  secs: number,
+  timestamp: string,
+});
+
+const href = object({}, { attributes: object({}, { href: string }) });
+
+const coordinatePoint = object(
+  {},
+  { attributes: union(object({}, { x: numberOrString, y: numberOrString }), nullValue) }
+);
+const coordinates = object(
+  {},
+  {
+    galaxy: coordinatePoint,
+    system: coordinatePoint,
+    surface: coordinatePoint,
+    ground: coordinatePoint,
+  }
+);
+
+// ----------------------------------------------------------------------------
+// Character
+// ----------------------------------------------------------------------------
+
+const CharacterMe = object(
+  { uid: string, name: string },
+  {
+    image: string,
+    lastlogin: object(
+      {},
+      { years: number, days: number, hours: number, mins: number, secs: number, timestamp: string }
+    ),
+    gender: string,
+    shortdescription: string,
+    biography: string,
+    race: reference,
+    health: number,
+    healthMax: number,
+    xp: number,
+    xpLevel: number,
+    force: object({}, { attributes: object({}, { isAware: trueFalse }) }),
+    faction: reference,
+    factions: arrayOf(reference),
+    skills: href,
+    inventories: anyObject,
+    privileges: href,
+    location: object(
+      {},
+      {
+        container: reference,
+        sector: reference,
+        system: reference,
+        planet: reference,
+        city: reference,
+        coordinates: coordinates,
+      }
+    ),
+    credits: object({}, { value: number }),
+    creditlog: href,
+    events: href,
+  }
+);
+
+// ----------------------------------------------------------------------------
+// Faction
+// ----------------------------------------------------------------------------
+
+const FactionDetail = object({
+  attributes: object({}, { isbasic: trueFalse }),
+  uid: string,
+  name: string,
+  parent: anyObject,
+  description: string,
+  category: string,
+  colour: object({ r: number, g: number, b: number }),
+  leader: reference,
+  secondincommand: reference,
+  founded: timestamp,
+  ircroom: string,
+  homepage: string,
+  recruitmentliaisons: arrayOf(reference),
+  datacards: anyObject,
+  subfactions: anyObject,
+  modules: object({}, { module: arrayOf(reference) }),
+  images: object({}, { logo: string, horizontalbanner: string, verticalbanner: string }),
+});
+
+// ----------------------------------------------------------------------------
+// Galaxy
+// ----------------------------------------------------------------------------
+
+const galaxyReference = object(
+  { value: string },
+  { attributes: object({ uid: string, href: string }, { type: string }) }
+);
+const galaxyNode = union(galaxyReference, emptyObject);
+
+const galaxyLocation = object(
+  {},
+  {
+    container: galaxyNode,
+    sector: galaxyNode,
+    system: galaxyNode,
+    planet: galaxyNode,
+    city: galaxyNode,
+    coordinates: coordinates,
+  }
+);
+
+const Planet = object(
+  { uid: string, name: string },
+  {
+    description: string,
+    controlledby: galaxyReference,
+    governor: galaxyNode,
+    magistrate: galaxyNode,
+    type: galaxyReference,
+    size: numberOrString,
+    cities: union(anyObject, number),
+    location: galaxyLocation,
+    population: number,
+    hireablepopulation: number,
+    civilisationlevel: number,
+    taxlevel: number,
+    terrainmap: string,
+    grid: anyObject,
+    images: anyObject,
+    sector: union(anyObject, string),
+    system: union(anyObject, string),
+    terrain: string,
+  }
+);
+
+const System = object(
+  { uid: string, name: string },
+  {
+    description: string,
+    controlledby: galaxyReference,
+    planets: anyObject,
+    stations: anyObject,
+    location: galaxyLocation,
+    population: number,
+    hyperlanes: anyObject,
+    sector: union(anyObject, string),
+  }
+);
+
+// ----------------------------------------------------------------------------
+// Inventory
+// ----------------------------------------------------------------------------
+
+const entityReference = object({
+  value: string,
+  attributes: object({ uid: string, type: string, href: string }),
+});
+const entityStat = object({ value: number, attributes: object({ max: number }) });
+
+const ShipEntity = object({
+  attributes: object({ href: string }),
+  value: object(
+    { uid: string },
+    {
+      entitytype: literal('Ship'),
+      name: string,
+      owner: entityReference,
+      pilot: entityReference,
+      infotext: string,
+      images: object({}, { small: string, large: string }),
+      opento: string,
+      protected: yesNo,
+      wrecked: yesNo,
+      hull: entityStat,
+      shield: entityStat,
+      ionic: entityStat,
+      location: anyObject,
+      type: object({ value: string, attributes: object({ uid: string, href: string }) }),
+      underconstruction: yesNo,
+      tags: object({ tag: arrayOf(string) }),
+    }
+  ),
+});
+
+// ----------------------------------------------------------------------------
+// Types
+// ----------------------------------------------------------------------------
+
+const valueWithUnits = object({ value: numberOrString }, { attributes: anyObject });
+const typesReferenceList = (key: string) =>
+  object({}, { [key]: arrayOf(object({ attributes: object({ uid: string }), value: string })) });
+
+const TypesShipEntity = object(
+  { uid: string, name: string },
+  {
+    description: string,
+    class: object({ attributes: object({ uid: string }) }),
+    speed: object(
+      {},
+      { hyperspace: numberOrString, sublight: valueWithUnits, planetary: valueWithUnits }
+    ),
+    manoeuvrability: number,
+    sensors: number,
+    ecm: number,
+    weight: valueWithUnits,
+    volume: valueWithUnits,
+    weightcapacity: valueWithUnits,
+    volumecapacity: valueWithUnits,
+    maxpassengers: number,
+    escapepods: number,
+    length: valueWithUnits,
+    hull: number,
+    shield: number,
+    armour: number,
+    ioniccapacity: number,
+    repulsors: yesNo,
+    slotsize: number,
+    medicalrooms: number,
+    asteroidprospectingsensors: number,
+    asteroidminingpower: number,
+    hangarbay: yesNo,
+    dockingbay: yesNo,
+    canrecycle: yesNo,
+    caninterdict: yesNo,
+    weapons: typesReferenceList('weapon'),
+    materials: typesReferenceList('material'),
+    price: object({}, { credits: numberOrString }),
+    production: anyObject,
+    images: object({}, { small: string, large: string }),
+  }
+);
+
+// ----------------------------------------------------------------------------
+// News
+// ----------------------------------------------------------------------------
+
+/** Raw news item; `get()` normalizes string references and numeric-string ids */
+const NewsItem = object(
+  {
+    url: string,
+    title: string,
+    id: numberOrString,
+    author: union(string, reference),
+    faction: union(string, reference),
+  },
+  {
+    logo: string,
+    hacked: number,
+    location: string,
+    body: string,
+    posted: object(
+      {},
+      { years: number, days: number, hours: number, mins: number, secs: number, timestamp: number }
+    ),
+    category: string,
+  }
+);
+
+// ----------------------------------------------------------------------------
+// Credit log
+// ----------------------------------------------------------------------------
+
+const creditParty = object(
+  {},
+  { attributes: object({ uid: string }, { href: string }), value: string }
+);
+
+const CreditLogEntry = object({
+  attributes: object({ transaction_id: number }),
+  time: timestamp,
+  amount: number,
+  sender: creditParty,
+  receiver: creditParty,
+  communication: string,
+});
+
+/**
+ * Schemas by name of the type they check
+ */
+export const SCHEMAS = {
+  CharacterMe,
+  FactionDetail,
+  Planet,
+  System,
+  ShipEntity,
+  TypesShipEntity,
+  NewsItem,
+  CreditLogEntry,
+};
+
+/**
+ * Name of a response schema
+ */
+export type SchemaName = keyof typeof SCHEMAS;
+
+/**
+ * Check `value` against a schema and return every field that does not match
+ *
+ * @example
+ * ```typescript
+ * validateSchema('ShipEntity', ship);
+ * // [{ path: 'value.hull.attributes.max', expected: 'number', received: 'string' }]
+ * ```
+ */
+export function validateSchema(schema: SchemaName, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  SCHEMAS[schema](value, '', issues);
+  return issues;
+}
+
+/**
+ * Endpoints whose GET responses are validated, with the schema of the unwrapped body.
+ * List endpoints are checked item by item.
+ */
+export const RESPONSE_SCHEMAS: Array<{ path: string; schema: SchemaName; check: Check }> = [
+  { path: 'character', schema: 'CharacterMe', check: CharacterMe },
+  { path: 'faction/{uid?}', schema: 'FactionDetail', check: FactionDetail },
+  { path: 'galaxy/planets/{uid}', schema: 'Planet', check: Planet },
+  { path: 'galaxy/systems/{uid}', schema: 'System', check: System },
+  { path: 'inventory/ships/{uid}', schema: 'ShipEntity', check: ShipEntity },
+  { path: 'types/ships/{uid}', schema: 'TypesShipEntity', check: TypesShipEntity },
+  { path: 'news/gns/{id}', schema: 'NewsItem', check: union(NewsItem, arrayOf(NewsItem)) },
+  { path: 'news/simnews/{id}', schema: 'NewsItem', check: union(NewsItem, arrayOf(NewsItem)) },
+  {
+    path: 'character/{uid}/creditlog',
+    schema: 'CreditLogEntry',
+    check: object({}, { transaction: arrayOf(CreditLogEntry) }),
+  },
+  {
+    path: 'faction/{factionId}/creditlog',
+    schema: 'CreditLogEntry',
+    check: object({}, { transaction: arrayOf(CreditLogEntry) }),
+  },
+];
@@ -4,13 +4,66 @@
  */
 
 // Main client
-export { SWCombine } from './SWCombine.js';
+export { SWCombine, ScopedClient, ClientResources } from './SWCombine.js';
 
 // Error handling
-export { SWCError } from './http/errors.js';
+export {
+  SWCError,
+  SWCAuthError,
+  SWCScopeError,
+  SWCRateLimitError,
+  SWCNotFoundError,
+  SWCValidationError,
+  SWCServerError,
+  SWCSchemaError,
+} from './http/errors.js';
+export type { SWCErrorType, SWCErrorOptions, HttpErrorContext } from './http/errors.js';
+
+// Response cache stores
+export { MemoryCacheStore, FileCacheStore } from './http/ResponseCache.js';
+
+// Response validation
+export { SCHEMAS, validateSchema } from './http/schemas.js';
+export type { SchemaName } from './http/schemas.js';
 
 // Utilities
 export { Timestamp } from './Timestamp.js';
+export { TimestampRange } from './TimestampRange.js';
+export { CgtSchedule } from './CgtSchedule.js';
+export { DurationUtil } from './DurationUtil.js';
+export { Uid } from './Uid.js';
+export { RouteGraph } from './models/RouteGraph.js';
+export { GalaxyIndex } from './models/GalaxyIndex.js';
+export { SpatialIndex } from './models/SpatialIndex.js';
+export { PlanetSurface } from './models/PlanetSurface.js';
+export {
+  CreditLedger,
+  MemoryCreditLedgerStore,
+  FileCreditLedgerStore,
+} from './models/CreditLedger.js';
+export { FactionTreasury } from './models/FactionTreasury.js';
+export {
+  toCoordinates,
+  normalizeCoordinates,
+  distanceBetween,
+  sectorPolygon,
+  isPointInPolygon,
+} from './models/coordinates.js';
+export { attachCgt, isTimeBlob } from './models/timeBlobs.js';
+
+// Normalized models
+export {
+  normalizeValue,
+  normalizeCharacter,
+  normalizeFaction,
+  normalizePlanet,
+  normalizeSystem,
+  normalizeSector,
+  normalizeStation,
+  normalizeCity,
+  normalizeEntity,
+  normalizeTypesEntity,
+} from './models/normalize.js';
 
 // Types
 export * from './types/index.js';
@@ -32,6 +85,23 @@ export {
   getReadOnlyScopes,
   getMinimalScopes,
 } from './auth/scopes.js';
+export {
+  SCOPE_MAP,
+  explainMissingScopes,
+  findScopeRequirement,
+  hasScope,
+} from './auth/scopeMap.js';
+export type { ScopeRequirement, ScopedMethod, MatchedScopeRequirement } from './auth/scopeMap.js';
 
 // Auth types
 export type { TokenStorage } from './auth/TokenManager.js';
+export { MemoryTokenStorage, FileTokenStorage } from './auth/TokenStorage.js';
+export { TokenVault } from './auth/TokenVault.js';
+export { OAuthFlow, MemoryAuthorizationStore } from './auth/OAuthFlow.js';
+export { OAuthClient } from './auth/OAuthClient.js';
+export type { OAuthClientConfig } from './auth/OAuthClient.js';
+export { authorizeInteractive } from './auth/authorizeInteractive.js';
+export type { VaultEntry, VaultRefreshHandler } from './auth/TokenVault.js';
+
+// Middleware types
+export type { Middleware, MiddlewareRequest, MiddlewareResponse } from './http/HttpClient.js';
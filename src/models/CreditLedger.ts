@@ -0,0 +1,386 @@
+/**
+ * Local, incrementally synced copy of a character or faction credit log, with reports
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SWCError, SWCValidationError } from '../http/errors.js';
+import { Timestamp } from '../Timestamp.js';
+import { TimestampRange } from '../TimestampRange.js';
+import { Uid } from '../Uid.js';
+import type {
+  CounterpartyFlow,
+  CreditBalanceHistoryOptions,
+  CreditBalancePoint,
+  CreditLedgerFilter,
+  CreditLedgerOptions,
+  CreditLedgerPeriod,
+  CreditLedgerStore,
+  CreditLedgerSyncOptions,
+  CreditLogEntry,
+  CreditPeriodTotal,
+  UidLike,
+} from '../types/index.js';
+
+/** Largest page the credit log endpoints return */
+const PAGE_SIZE = 1000;
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_YEAR = 365;
+
+type Party = CreditLogEntry['sender'];
+
+function transactionId(entry: CreditLogEntry): number {
+  return Number(entry.attributes?.transaction_id);
+}
+
+function timeOf(entry: CreditLogEntry): Timestamp {
+  return entry.time.cgt instanceof Timestamp ? entry.time.cgt : Timestamp.fromTimeBlob(entry.time);
+}
+
+/** Drop attached `cgt` timestamps, which do not survive JSON */
+function withoutCgt(key: string, value: unknown): unknown {
+  return key === 'cgt' ? undefined : value;
+}
+
+/**
+ * Keeps the entries in process memory
+ */
+export class MemoryCreditLedgerStore implements CreditLedgerStore {
+  private entries: CreditLogEntry[] | null = null;
+
+  load(): CreditLogEntry[] | null {
+    return this.entries && [...this.entries];
+  }
+
+  save(entries: CreditLogEntry[]): void {
+    this.entries = [...entries];
+  }
+}
+
+/**
+ * Stores the entries as JSON in a file. Writes go to a temporary file that is renamed
+ * into place, so an interrupted sync never leaves a truncated ledger behind.
+ */
+export class FileCreditLedgerStore implements CreditLedgerStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<CreditLogEntry[] | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let stored: { entries?: unknown };
+    try {
+      stored = JSON.parse(contents);
+    } catch {
+      stored = {};
+    }
+    if (!Array.isArray(stored?.entries)) {
+      throw new SWCError(`Ledger file ${this.filePath} does not contain credit log entries.`, {
+        type: 'validation',
+      });
+    }
+    return stored.entries as CreditLogEntry[];
+  }
+
+  async save(entries: CreditLogEntry[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ version: 1, entries }, withoutCgt));
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+/**
+ * Full credit log of one character or faction, kept by transaction ID.
+ *
+ * `sync()` fetches only transactions newer than the last one it has, 1000 at a time, so the
+ * whole history is downloaded once and then topped up. Amounts count as received when the
+ * owner is the receiver and as sent when the owner is the sender.
+ *
+ * @example
+ * ```typescript
+ * const ledger = client.character.creditlog.ledger({
+ *   uid: '1:12345',
+ *   store: new FileCreditLedgerStore('./ledger.json'),
+ * });
+ * await ledger.sync();
+ * ledger.counterparties().slice(0, 5);
+ * ledger.aggregate('week', { direction: 'in' });
+ * ```
+ */
+export class CreditLedger {
+  /** UID of the character or faction whose log this is */
+  readonly owner: string;
+
+  private byId = new Map<number, CreditLogEntry>();
+  private sorted?: CreditLogEntry[];
+  private store?: CreditLedgerStore;
+  private fetchPage?: CreditLedgerOptions['fetchPage'];
+  private loaded?: Promise<void>;
+  private syncing?: Promise<number>;
+
+  /**
+   * @param owner - Character or faction UID
+   * @param options - Store and, for `sync()`, the source of entries
+   */
+  constructor(owner: UidLike, options: CreditLedgerOptions = {}) {
+    this.owner = Uid.parse(owner).toString();
+    this.store = options.store;
+    this.fetchPage = options.fetchPage;
+  }
+
+  /**
+   * Number of entries in the ledger
+   */
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /**
+   * Highest transaction ID in the ledger, or 0 when empty
+   */
+  get lastTransactionId(): number {
+    const entries = this.ordered();
+    return entries.length > 0 ? transactionId(entries[entries.length - 1]) : 0;
+  }
+
+  /**
+   * Load the store's entries, if not done yet
+   */
+  load(): Promise<void> {
+    this.loaded ??= Promise.resolve(this.store?.load())
+      .then((entries) => {
+        this.add(entries ?? []);
+      })
+      .catch((error) => {
+        this.loaded = undefined;
+        throw error;
+      });
+    return this.loaded;
+  }
+
+  /**
+   * Add entries, skipping transactions already in the ledger
+   *
+   * @returns Number of entries added
+   */
+  add(entries: CreditLogEntry[]): number {
+    let added = 0;
+    for (const entry of entries) {
+      const id = transactionId(entry);
+      if (Number.isInteger(id) && !this.byId.has(id)) {
+        this.byId.set(id, entry);
+        added++;
+      }
+    }
+    if (added > 0) {
+      this.sorted = undefined;
+    }
+    return added;
+  }
+
+  /**
+   * Fetch transactions newer than the last one in the ledger, saving each page to the store.
+   * Concurrent calls share one sync.
+   *
+   * @returns Number of new entries
+   * @throws SWCValidationError if the ledger was not created with a source to sync from
+   */
+  sync(options: CreditLedgerSyncOptions = {}): Promise<number> {
+    this.syncing ??= this.runSync(options).finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Entries matching a filter, oldest first
+   */
+  entries(filter: CreditLedgerFilter = {}): CreditLogEntry[] {
+    return this.ordered().filter((entry) => this.matches(entry, filter));
+  }
+
+  /**
+   * Signed amount of an entry: positive when the owner received the credits
+   */
+  change(entry: CreditLogEntry): number {
+    const amount = Number(entry.amount);
+    if (this.isOwner(entry.sender) && !this.isOwner(entry.receiver)) {
+      return -amount;
+    }
+    return this.isOwner(entry.receiver) && !this.isOwner(entry.sender) ? amount : 0;
+  }
+
+  /**
+   * Owner's balance after each matching transaction
+   */
+  balanceHistory(
+    options: CreditBalanceHistoryOptions = {},
+    filter: CreditLedgerFilter = {}
+  ): CreditBalancePoint[] {
+    const entries = this.entries(filter);
+    const net = entries.reduce((total, entry) => total + this.change(entry), 0);
+    let balance =
+      options.closingBalance !== undefined
+        ? options.closingBalance - net
+        : (options.openingBalance ?? 0);
+
+    return entries.map((entry) => {
+      const change = this.change(entry);
+      balance += change;
+      return { transactionId: transactionId(entry), time: timeOf(entry), change, balance };
+    });
+  }
+
+  /**
+   * Credits exchanged with each other party, largest net flow (either way) first
+   */
+  counterparties(filter: CreditLedgerFilter = {}): CounterpartyFlow[] {
+    const flows = new Map<string, CounterpartyFlow>();
+    for (const entry of this.entries(filter)) {
+      const change = this.change(entry);
+      const party = this.isOwner(entry.sender) ? entry.receiver : entry.sender;
+      const uid = party?.attributes?.uid;
+      const name = party?.value ?? '';
+      const key = uid ?? `name:${name.toLowerCase()}`;
+
+      const flow = flows.get(key) ?? { name, incoming: 0, outgoing: 0, net: 0, count: 0 };
+      if (uid !== undefined) {
+        flow.uid = uid;
+      }
+      flow.incoming += Math.max(change, 0);
+      flow.outgoing += Math.max(-change, 0);
+      flow.net += change;
+      flow.count++;
+      flows.set(key, flow);
+    }
+    return [...flows.values()].sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+  }
+
+  /**
+   * Credit flow per CGT day or week, oldest first. Periods without transactions are left out.
+   */
+  aggregate(period: CreditLedgerPeriod, filter: CreditLedgerFilter = {}): CreditPeriodTotal[] {
+    if (period !== 'day' && period !== 'week') {
+      throw new RangeError('period must be one of: day, week.');
+    }
+
+    const totals = new Map<string, CreditPeriodTotal>();
+    for (const entry of this.entries(filter)) {
+      const range = this.periodOf(timeOf(entry), period);
+      const key = range.start.toString();
+      const total = totals.get(key) ?? { range, incoming: 0, outgoing: 0, net: 0, count: 0 };
+      const change = this.change(entry);
+      total.incoming += Math.max(change, 0);
+      total.outgoing += Math.max(-change, 0);
+      total.net += change;
+      total.count++;
+      totals.set(key, total);
+    }
+    return [...totals.values()].sort((a, b) => a.range.start.compare(b.range.start));
+  }
+
+  private async runSync(options: CreditLedgerSyncOptions): Promise<number> {
+    const fetchPage = this.fetchPage;
+    if (!fetchPage) {
+      throw new SWCValidationError(
+        'This ledger has no source to sync from: create it with character.creditlog.ledger() or faction.creditlog.ledger().'
+      );
+    }
+    await this.load();
+
+    let added = 0;
+    let startId = this.lastTransactionId + 1;
+    while (!options.signal?.aborted) {
+      const page = await fetchPage(startId, PAGE_SIZE);
+      const pageAdded = this.add(page);
+      added += pageAdded;
+      // Save as we go, so a failure part way through a long first sync keeps what was fetched
+      if (pageAdded > 0) {
+        await this.store?.save(this.ordered());
+      }
+      options.onProgress?.(this.size);
+
+      const lastId = Math.max(...page.map(transactionId).filter(Number.isInteger));
+      // A short page is the end of the log; a page without newer IDs means `start_id` was ignored
+      if (page.length < PAGE_SIZE || !(lastId >= startId)) {
+        break;
+      }
+      startId = lastId + 1;
+    }
+    return added;
+  }
+
+  private ordered(): CreditLogEntry[] {
+    this.sorted ??= [...this.byId.entries()].sort(([a], [b]) => a - b).map(([, entry]) => entry);
+    return this.sorted;
+  }
+
+  private periodOf(time: Timestamp, period: CreditLedgerPeriod): TimestampRange {
+    if (period === 'day') {
+      return TimestampRange.of(time, 'day');
+    }
+    const first = Math.floor((time.getDay() - 1) / DAYS_PER_WEEK) * DAYS_PER_WEEK + 1;
+    const last = Math.min(first + DAYS_PER_WEEK - 1, DAYS_PER_YEAR);
+    const year = time.getYear();
+    return new TimestampRange(
+      new Timestamp({ year, day: first }),
+      new Timestamp({ year, day: last }).endOf('day')
+    );
+  }
+
+  private isOwner(party: Party | undefined): boolean {
+    return party?.attributes?.uid === this.owner;
+  }
+
+  private matches(entry: CreditLogEntry, filter: CreditLedgerFilter): boolean {
+    const id = transactionId(entry);
+    if (filter.minTransactionId !== undefined && id < filter.minTransactionId) {
+      return false;
+    }
+    if (filter.maxTransactionId !== undefined && id > filter.maxTransactionId) {
+      return false;
+    }
+    const amount = Number(entry.amount);
+    if (filter.minAmount !== undefined && amount < filter.minAmount) {
+      return false;
+    }
+    if (filter.maxAmount !== undefined && amount > filter.maxAmount) {
+      return false;
+    }
+    if (filter.direction !== undefined) {
+      const change = this.change(entry);
+      if (filter.direction === 'in' ? change <= 0 : change >= 0) {
+        return false;
+      }
+    }
+    if (filter.counterparty !== undefined) {
+      const party = this.isOwner(entry.sender) ? entry.receiver : entry.sender;
+      const uid = Uid.tryParse(filter.counterparty);
+      const matched = uid
+        ? party?.attributes?.uid === uid.toString()
+        : party?.value?.toLowerCase() === String(filter.counterparty).trim().toLowerCase();
+      if (!matched) {
+        return false;
+      }
+    }
+    if (filter.text !== undefined) {
+      const communication = entry.communication ?? '';
+      const matched =
+        typeof filter.text === 'string'
+          ? communication.toLowerCase().includes(filter.text.toLowerCase())
+          : filter.text.test(communication);
+      if (!matched) {
+        return false;
+      }
+    }
+    return !filter.range || filter.range.contains(timeOf(entry));
+  }
+}
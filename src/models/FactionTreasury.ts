@@ -0,0 +1,258 @@
+/**
+ * Reconciliation of faction credits and budgets against the faction credit log
+ */
+
+import { SWCValidationError } from '../http/errors.js';
+import { Timestamp } from '../Timestamp.js';
+import { TimestampRange } from '../TimestampRange.js';
+import { Uid } from '../Uid.js';
+import type { CreditLedger } from './CreditLedger.js';
+import type {
+  Budget,
+  FactionCredits,
+  FactionMember,
+  FactionResource,
+} from '../resources/FactionResource.js';
+import type {
+  GetFactionTreasuryOptions,
+  TreasuryBudget,
+  TreasuryBudgetChange,
+  TreasuryFlag,
+  TreasuryReport,
+  TreasurySnapshot,
+} from '../types/index.js';
+
+const DEFAULT_LARGE_OUTFLOW = 1_000_000;
+
+function toAmount(value: unknown): number {
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+function toBudget(budget: Budget): TreasuryBudget {
+  const attributes = budget.attributes as { uid?: string; name?: string } | undefined;
+  return {
+    uid: String(budget.uid ?? attributes?.uid ?? ''),
+    name: String(budget.name ?? attributes?.name ?? ''),
+    amount: toAmount(budget.amount),
+  };
+}
+
+/**
+ * UID of a member, whether the API sends it as a string, a character or a reference
+ */
+function memberUid(member: FactionMember): string | undefined {
+  const candidates: unknown[] = [member.character, member.uid, member.attributes];
+  for (const candidate of candidates) {
+    const value =
+      typeof candidate === 'object' && candidate !== null
+        ? ((candidate as { uid?: unknown }).uid ??
+          (candidate as { attributes?: { uid?: unknown } }).attributes?.uid)
+        : candidate;
+    const uid = Uid.tryParse(value);
+    if (uid) {
+      return uid.toString();
+    }
+  }
+  return undefined;
+}
+
+function timeOfSnapshot(snapshot: TreasurySnapshot): Timestamp {
+  return Timestamp.fromUnixTimestamp(snapshot.takenAt);
+}
+
+/**
+ * Point-in-time snapshots of a faction's credits and budgets, reconciled against the credit
+ * log between them.
+ *
+ * A report replays the log from one snapshot to the next and flags credits the log does not
+ * account for, budgets that add up to more than the faction holds, large outflows and
+ * transfers to characters outside the faction.
+ *
+ * @example
+ * ```typescript
+ * const treasury = client.faction.treasury({
+ *   factionId: '20:123',
+ *   ledgerStore: new FileCreditLedgerStore('./treasury-log.json'),
+ * });
+ * const monday = await treasury.snapshot();
+ * // ... later, or in another run with a saved snapshot
+ * const report = await treasury.reconcile(monday);
+ * report.flags.forEach((flag) => console.log(flag.kind, flag.message));
+ * ```
+ */
+export class FactionTreasury {
+  readonly factionId: string;
+  /** The faction's credit log, synced by each snapshot */
+  readonly ledger: CreditLedger;
+
+  private largeOutflow: number;
+  private tolerance: number;
+
+  /**
+   * @param faction - Faction resource to fetch credits, budgets, members and the credit log with
+   * @param options - Faction UID, credit log store and flag thresholds
+   */
+  constructor(
+    private readonly faction: FactionResource,
+    options: GetFactionTreasuryOptions
+  ) {
+    this.factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    this.ledger = faction.creditlog.ledger({
+      factionId: this.factionId,
+      store: options.ledgerStore,
+    });
+    this.largeOutflow = options.largeOutflow ?? DEFAULT_LARGE_OUTFLOW;
+    this.tolerance = options.tolerance ?? 0;
+  }
+
+  /**
+   * Record the faction's credits and every budget, and sync the credit log up to now.
+   *
+   * Transactions made while the snapshot is taken may be counted in the log but not yet in
+   * the credits, and show up as a discrepancy in the next report.
+   */
+  async snapshot(): Promise<TreasurySnapshot> {
+    const takenAt = Date.now();
+    const [credits, budgets] = await Promise.all([
+      this.faction.credits.get({ factionId: this.factionId }),
+      this.faction.budgets.listAll({ factionId: this.factionId }),
+    ]);
+    await this.ledger.sync();
+
+    return {
+      factionId: this.factionId,
+      takenAt,
+      credits: toAmount(typeof credits === 'object' ? (credits as FactionCredits).amount : credits),
+      budgets: budgets.map(toBudget),
+      lastTransactionId: this.ledger.lastTransactionId,
+    };
+  }
+
+  /**
+   * Replay the credit log between two snapshots and flag anything that does not add up
+   *
+   * @param from - Earlier snapshot
+   * @param to - Later snapshot. Default: a new snapshot taken now
+   * @throws SWCValidationError if the snapshots are of another faction or out of order
+   */
+  async reconcile(from: TreasurySnapshot, to?: TreasurySnapshot): Promise<TreasuryReport> {
+    const closing = to ?? (await this.snapshot());
+    if (from.factionId !== this.factionId || closing.factionId !== this.factionId) {
+      throw new SWCValidationError(`Snapshots must be of faction ${this.factionId}.`);
+    }
+    if (closing.lastTransactionId < from.lastTransactionId || closing.takenAt < from.takenAt) {
+      throw new SWCValidationError('The second snapshot must not be older than the first.');
+    }
+
+    await this.ledger.load();
+    const members = await this.faction.members.listAll({ factionId: this.factionId });
+    const memberUids = members.map(memberUid).filter((uid): uid is string => uid !== undefined);
+    return this.report(from, closing, new Set(memberUids));
+  }
+
+  private report(
+    from: TreasurySnapshot,
+    to: TreasurySnapshot,
+    members: Set<string>
+  ): TreasuryReport {
+    const filter = {
+      minTransactionId: from.lastTransactionId + 1,
+      maxTransactionId: to.lastTransactionId,
+    };
+    const transactions = this.ledger.entries(filter);
+    const flags: TreasuryFlag[] = [];
+
+    let incoming = 0;
+    let outgoing = 0;
+    for (const entry of transactions) {
+      const change = this.ledger.change(entry);
+      incoming += Math.max(change, 0);
+      outgoing += Math.max(-change, 0);
+      if (change >= 0) {
+        continue;
+      }
+
+      const uid = entry.receiver?.attributes?.uid;
+      const name = entry.receiver?.value ?? '';
+      const details = {
+        amount: -change,
+        transactionId: Number(entry.attributes.transaction_id),
+        time: Timestamp.fromTimeBlob(entry.time),
+        counterparty: uid !== undefined ? { uid, name } : { name },
+      };
+      if (-change >= this.largeOutflow) {
+        flags.push({
+          kind: 'large-outflow',
+          message: `${-change} credits sent to ${name || uid}.`,
+          ...details,
+        });
+      }
+      if (uid !== undefined && Uid.tryParse(uid)?.is('character') && !members.has(uid)) {
+        flags.push({
+          kind: 'non-member-transfer',
+          message: `${-change} credits sent to ${name || uid}, who is not a member.`,
+          ...details,
+        });
+      }
+    }
+
+    const expectedCredits = from.credits + incoming - outgoing;
+    const discrepancy = to.credits - expectedCredits;
+    if (Math.abs(discrepancy) > this.tolerance) {
+      flags.unshift({
+        kind: 'discrepancy',
+        message: `Credits are ${to.credits}; the credit log accounts for ${expectedCredits}.`,
+        amount: discrepancy,
+      });
+    }
+    const budgetTotal = to.budgets.reduce((total, budget) => total + budget.amount, 0);
+    if (budgetTotal > to.credits) {
+      flags.push({
+        kind: 'budgets-exceed-credits',
+        message: `Budgets hold ${budgetTotal} credits; the faction has ${to.credits}.`,
+        amount: budgetTotal - to.credits,
+      });
+    }
+
+    return {
+      factionId: this.factionId,
+      from,
+      to,
+      range: new TimestampRange(timeOfSnapshot(from), timeOfSnapshot(to)),
+      openingCredits: from.credits,
+      closingCredits: to.credits,
+      incoming,
+      outgoing,
+      expectedCredits,
+      discrepancy,
+      transactions,
+      budgets: this.budgetChanges(from.budgets, to.budgets),
+      counterparties: this.ledger.counterparties(filter),
+      flags,
+    };
+  }
+
+  private budgetChanges(
+    opening: TreasuryBudget[],
+    closing: TreasuryBudget[]
+  ): TreasuryBudgetChange[] {
+    const changes = new Map<string, TreasuryBudgetChange>();
+    for (const budget of opening) {
+      changes.set(budget.uid, {
+        uid: budget.uid,
+        name: budget.name,
+        opening: budget.amount,
+        change: -budget.amount,
+      });
+    }
+    for (const budget of closing) {
+      const change = changes.get(budget.uid) ?? { uid: budget.uid, name: budget.name, change: 0 };
+      change.name = budget.name;
+      change.closing = budget.amount;
+      change.change = budget.amount - (change.opening ?? 0);
+      changes.set(budget.uid, change);
+    }
+    return [...changes.values()];
+  }
+}
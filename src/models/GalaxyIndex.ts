@@ -0,0 +1,331 @@
+/**
+ * Offline lookups over a galaxy snapshot, plus the snapshot's JSON and NDJSON file formats
+ */
+
+import { promises as fs } from 'fs';
+import { SWCValidationError } from '../http/errors.js';
+import { Uid } from '../Uid.js';
+import { distanceBetween, toCoordinates } from './coordinates.js';
+import type {
+  Coordinates,
+  GalaxyLocation,
+  GalaxyPlace,
+  GalaxyPlaceKind,
+  GalaxyReference,
+  GalaxySnapshot,
+  GalaxySnapshotCollection,
+  UidLike,
+} from '../types/index.js';
+
+const SNAPSHOT_VERSION = 1;
+
+/** Snapshot collections in crawl and file order, with the kind of place each holds */
+export const GALAXY_SNAPSHOT_COLLECTIONS: ReadonlyArray<
+  [GalaxySnapshotCollection, GalaxyPlaceKind]
+> = [
+  ['sectors', 'sector'],
+  ['systems', 'system'],
+  ['planets', 'planet'],
+  ['stations', 'station'],
+  ['cities', 'city'],
+];
+
+/** Depth of each kind in the containment tree, used to pick a place's parent */
+const DEPTH: Record<GalaxyPlaceKind, number> = {
+  sector: 0,
+  system: 1,
+  planet: 2,
+  station: 3,
+  city: 3,
+};
+
+/** Location references that may point at the containing place, most specific first */
+const PARENT_KEYS = ['planet', 'system', 'sector', 'container'] as const;
+
+function referenceOf(value: unknown): GalaxyReference | undefined {
+  const reference = value as GalaxyReference | undefined;
+  return typeof reference?.value === 'string' || reference?.attributes?.uid ? reference : undefined;
+}
+
+function kindOf(key: (typeof PARENT_KEYS)[number], reference: GalaxyReference): string | undefined {
+  if (key !== 'container') {
+    return key;
+  }
+  return reference.attributes?.type ?? Uid.tryParse(reference.attributes?.uid)?.kind;
+}
+
+function depthOf(kind: string | undefined): number | undefined {
+  return kind !== undefined && Object.prototype.hasOwnProperty.call(DEPTH, kind)
+    ? DEPTH[kind as GalaxyPlaceKind]
+    : undefined;
+}
+
+function emptySnapshot(createdAt: string): GalaxySnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    createdAt,
+    sectors: [],
+    systems: [],
+    planets: [],
+    stations: [],
+    cities: [],
+  };
+}
+
+function append<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const values = map.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+function invalid(reason: string): SWCValidationError {
+  return new SWCValidationError(`Invalid galaxy snapshot: ${reason}.`);
+}
+
+/**
+ * Serialize a snapshot as one JSON document, or as NDJSON: a header line followed by one
+ * `{ "type": "<kind>", "data": {...} }` line per place
+ */
+export function formatGalaxySnapshot(
+  snapshot: GalaxySnapshot,
+  format: 'json' | 'ndjson' = 'json'
+): string {
+  if (format === 'json') {
+    return JSON.stringify(snapshot);
+  }
+  const lines = [
+    JSON.stringify({ type: 'snapshot', version: snapshot.version, createdAt: snapshot.createdAt }),
+  ];
+  for (const [collection, kind] of GALAXY_SNAPSHOT_COLLECTIONS) {
+    for (const data of snapshot[collection]) {
+      lines.push(JSON.stringify({ type: kind, data }));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Parse a snapshot written by `formatGalaxySnapshot()` in either format
+ * @throws SWCValidationError if the text is not a version 1 galaxy snapshot
+ */
+export function parseGalaxySnapshot(text: string): GalaxySnapshot {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  let header: { type?: string; version?: unknown; createdAt?: unknown };
+  try {
+    header = JSON.parse(lines[0] ?? '');
+  } catch {
+    throw invalid('not JSON or NDJSON');
+  }
+  if (header?.version !== SNAPSHOT_VERSION) {
+    throw invalid(`unsupported version ${String(header?.version)}`);
+  }
+  if (header.type !== 'snapshot') {
+    return header as GalaxySnapshot;
+  }
+
+  const snapshot = emptySnapshot(String(header.createdAt));
+  const collections = new Map(
+    GALAXY_SNAPSHOT_COLLECTIONS.map(([collection, kind]) => [kind, collection])
+  );
+  lines.slice(1).forEach((line, index) => {
+    let entry: { type?: GalaxyPlaceKind; data?: unknown };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw invalid(`line ${index + 2} is not JSON`);
+    }
+    const collection = entry.type && collections.get(entry.type);
+    if (!collection) {
+      throw invalid(`line ${index + 2} has unknown type "${entry.type}"`);
+    }
+    (snapshot[collection] as unknown[]).push(entry.data);
+  });
+  return snapshot;
+}
+
+/**
+ * In-memory index over a galaxy snapshot, answering lookups by UID, name, coordinates,
+ * controlling faction and containment without any network calls.
+ *
+ * @example
+ * ```typescript
+ * await client.galaxy.snapshot({ file: 'galaxy.ndjson' });
+ * const galaxy = await GalaxyIndex.load('galaxy.ndjson');
+ * const tatooine = galaxy.findByName('Tatooine', 'planet')[0];
+ * const cities = galaxy.children(tatooine.uid, 'city');
+ * ```
+ */
+export class GalaxyIndex {
+  /** Time the snapshot crawl started */
+  readonly createdAt: string;
+
+  private byUid = new Map<string, GalaxyPlace>();
+  private byName = new Map<string, GalaxyPlace[]>();
+  private byParent = new Map<string, GalaxyPlace[]>();
+
+  constructor(snapshot: GalaxySnapshot) {
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw invalid(`unsupported version ${String(snapshot?.version)}`);
+    }
+    this.createdAt = snapshot.createdAt;
+
+    for (const [collection, kind] of GALAXY_SNAPSHOT_COLLECTIONS) {
+      for (const data of snapshot[collection] ?? []) {
+        this.add(kind, data);
+      }
+    }
+  }
+
+  /**
+   * Read a snapshot file written by `galaxy.snapshot()`
+   * @throws SWCValidationError if the file is not a galaxy snapshot
+   */
+  static async load(file: string): Promise<GalaxyIndex> {
+    return GalaxyIndex.parse(await fs.readFile(file, 'utf8'));
+  }
+
+  /**
+   * Index a snapshot serialized as JSON or NDJSON
+   * @throws SWCValidationError if the text is not a galaxy snapshot
+   */
+  static parse(text: string): GalaxyIndex {
+    return new GalaxyIndex(parseGalaxySnapshot(text));
+  }
+
+  /**
+   * Number of places in the index
+   */
+  get size(): number {
+    return this.byUid.size;
+  }
+
+  /**
+   * All places, optionally of one kind
+   */
+  places(kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    return [...this.byUid.values()].filter((place) => !kind || place.kind === kind);
+  }
+
+  /**
+   * Look up a place by UID
+   */
+  get(uid: UidLike): GalaxyPlace | undefined {
+    return this.byUid.get(String(uid).trim());
+  }
+
+  /**
+   * Find places by name, ignoring case
+   */
+  findByName(name: string, kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    return (this.byName.get(name.trim().toLowerCase()) ?? []).filter(
+      (place) => !kind || place.kind === kind
+    );
+  }
+
+  /**
+   * Find places at exact galaxy coordinates: a system and the planets and stations in it
+   */
+  at(coordinates: Coordinates, kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    return this.places(kind).filter(
+      ({ galaxy }) => galaxy && galaxy.x === coordinates.x && galaxy.y === coordinates.y
+    );
+  }
+
+  /**
+   * Find places within `radius` of galaxy coordinates, nearest first
+   */
+  near(coordinates: Coordinates, radius: number, kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    const distance = (place: GalaxyPlace) => distanceBetween(place.galaxy!, coordinates);
+    return this.places(kind)
+      .filter((place) => place.galaxy && distance(place) <= radius)
+      .sort((a, b) => distance(a) - distance(b));
+  }
+
+  /**
+   * Find places controlled by a faction, given its UID or name
+   */
+  controlledBy(faction: UidLike, kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    const key = String(faction).trim();
+    const uid = Uid.tryParse(key)?.toString();
+    return this.places(kind).filter(({ controlledBy }) =>
+      uid ? controlledBy?.uid === uid : controlledBy?.name.toLowerCase() === key.toLowerCase()
+    );
+  }
+
+  /**
+   * Containing place: the sector of a system, the system of a planet, or the planet (or
+   * system) of a city or station. Undefined when the parent is not in the snapshot
+   */
+  parent(uid: UidLike): GalaxyPlace | undefined {
+    const parent = this.get(uid)?.parent;
+    return parent !== undefined ? this.byUid.get(parent) : undefined;
+  }
+
+  /**
+   * Places directly contained in a place
+   */
+  children(uid: UidLike, kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    return (this.byParent.get(String(uid).trim()) ?? []).filter(
+      (place) => !kind || place.kind === kind
+    );
+  }
+
+  /**
+   * Places contained in a place at any depth, such as every city in a sector
+   */
+  descendants(uid: UidLike, kind?: GalaxyPlaceKind): GalaxyPlace[] {
+    const found: GalaxyPlace[] = [];
+    const queue = this.children(uid);
+    for (let place = queue.shift(); place; place = queue.shift()) {
+      if (!kind || place.kind === kind) {
+        found.push(place);
+      }
+      queue.push(...this.children(place.uid));
+    }
+    return found;
+  }
+
+  private add(kind: GalaxyPlaceKind, data: GalaxyPlace['data']): void {
+    const uid = data.attributes?.uid;
+    if (!uid) {
+      return;
+    }
+    const location = data.location as GalaxyLocation | undefined;
+    const controller = referenceOf(data.controlledby);
+
+    const place: GalaxyPlace = { kind, uid, name: data.attributes.name ?? '', data };
+    for (const key of PARENT_KEYS) {
+      const reference = referenceOf(location?.[key]);
+      const parent = reference?.attributes?.uid;
+      const depth = reference && depthOf(kindOf(key, reference));
+      if (parent && parent !== uid && depth !== undefined && depth < DEPTH[kind]) {
+        place.parent = parent;
+        break;
+      }
+    }
+    const galaxy = toCoordinates(location?.coordinates?.galaxy);
+    const system = toCoordinates(location?.coordinates?.system);
+    const surface = toCoordinates(location?.coordinates?.surface);
+    Object.assign(
+      place,
+      galaxy && { galaxy },
+      system && { system },
+      surface && { surface },
+      controller && {
+        controlledBy: {
+          ...(controller.attributes?.uid && { uid: controller.attributes.uid }),
+          name: controller.value ?? '',
+        },
+      }
+    );
+
+    this.byUid.set(uid, place);
+    append(this.byName, place.name.toLowerCase(), place);
+    if (place.parent) {
+      append(this.byParent, place.parent, place);
+    }
+  }
+}
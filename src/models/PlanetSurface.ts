@@ -0,0 +1,225 @@
+/**
+ * Planet surface grid decoded from a planet's terrain map, grid points and cities
+ */
+
+import { SWCValidationError } from '../http/errors.js';
+import { toArray } from './normalize.js';
+import type {
+  GalaxyCitySummary,
+  GalaxyGridPoint,
+  Planet,
+  SurfaceCity,
+  SurfaceTerrain,
+  SurfaceTile,
+  TerrainCount,
+  TypesEntityListItem,
+  TypesTerrainEntity,
+} from '../types/index.js';
+
+type TerrainType = TypesEntityListItem | TypesTerrainEntity;
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function typeUid(type: TerrainType): string | undefined {
+  return typeof type.uid === 'string' ? type.uid : (type.attributes as { uid?: string })?.uid;
+}
+
+function typeCode(type: TerrainType): string | undefined {
+  const code = type.code ?? (type.attributes as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+function typeName(type: TerrainType): string | undefined {
+  const name = typeof type.name === 'string' ? type.name : type.value;
+  return typeof name === 'string' ? name : undefined;
+}
+
+/**
+ * Surface of a planet as a grid of tiles, built from `galaxy.planets.get()`.
+ *
+ * `terrainmap` holds one terrain code per tile, row by row from the top-left corner. Codes
+ * are linked to terrain types through the planet's `grid` points and, when given, the
+ * `types.entities` terrain types.
+ *
+ * @example
+ * ```typescript
+ * const surface = await client.galaxy.planets.surface({ uid: '23:1' });
+ * surface.terrainCounts().forEach(({ terrain, count }) => console.log(terrain.name, count));
+ * const freeForest = surface.freeTiles('Forest');
+ * ```
+ */
+export class PlanetSurface {
+  readonly uid: string;
+  readonly name: string;
+  readonly width: number;
+  readonly height: number;
+  /** Tiles by row, so `grid[y][x]` */
+  readonly grid: SurfaceTile[][];
+  /** Cities with their grid positions */
+  readonly cities: SurfaceCity[];
+
+  private terrainByCode = new Map<string, SurfaceTerrain>();
+
+  /**
+   * @param planet - Planet from `galaxy.planets.get()`
+   * @param terrainTypes - Terrain types from `types.entities`, matched by code or UID
+   * @throws SWCValidationError if the terrain map does not fit the planet's size
+   */
+  constructor(planet: Planet, terrainTypes: TerrainType[] = []) {
+    this.uid = planet.uid;
+    this.name = planet.name;
+
+    const points = toArray<GalaxyGridPoint>(planet.grid?.point);
+    const map = (planet.terrainmap ?? '').replace(/\s+/g, '');
+    const side = Math.sqrt(map.length);
+    const size =
+      toNumber(planet.size) ??
+      (map.length > 0 && Number.isInteger(side) ? side : undefined) ??
+      Math.max(
+        0,
+        ...points.map(
+          ({ attributes }) =>
+            Math.max(toNumber(attributes?.x) ?? -1, toNumber(attributes?.y) ?? -1) + 1
+        )
+      );
+    this.width = size;
+    this.height = size;
+    if (map.length > 0 && map.length !== size * size) {
+      throw new SWCValidationError(
+        `Terrain map of planet ${planet.uid} has ${map.length} tiles; expected ${size}x${size}.`
+      );
+    }
+
+    const byUid = new Map<string, TerrainType>();
+    const byCode = new Map<string, TerrainType>();
+    for (const type of terrainTypes) {
+      const uid = typeUid(type);
+      const code = typeCode(type);
+      if (uid) {
+        byUid.set(uid, type);
+      }
+      if (code) {
+        byCode.set(code, type);
+      }
+    }
+    const terrainFor = (code: string, uid?: string, name?: string): SurfaceTerrain => {
+      const terrain = this.terrainByCode.get(code) ?? { code };
+      this.terrainByCode.set(code, terrain);
+      const type = terrain.type ?? byCode.get(code) ?? (uid ? byUid.get(uid) : undefined);
+      if (type) {
+        terrain.type = type;
+      }
+      const typeUidValue = type && typeUid(type);
+      const typeNameValue = type && typeName(type);
+      if (terrain.uid === undefined && (uid ?? typeUidValue)) {
+        terrain.uid = uid ?? typeUidValue;
+      }
+      if (terrain.name === undefined && (name ?? typeNameValue)) {
+        terrain.name = name ?? typeNameValue;
+      }
+      return terrain;
+    };
+
+    this.grid = Array.from({ length: size }, (_, y) =>
+      Array.from({ length: size }, (_, x): SurfaceTile => {
+        const code = map[y * size + x];
+        return code ? { x, y, terrain: terrainFor(code) } : { x, y };
+      })
+    );
+    // Grid points name the terrain behind each code, and fill tiles the map leaves out
+    for (const point of points) {
+      const attributes = point.attributes;
+      const tile = this.tile(toNumber(attributes?.x) ?? -1, toNumber(attributes?.y) ?? -1);
+      if (tile && attributes.code) {
+        const terrain = terrainFor(attributes.code, attributes.uid, point.value || undefined);
+        tile.terrain ??= terrain;
+      }
+    }
+
+    const collection = typeof planet.cities === 'object' ? planet.cities : undefined;
+    this.cities = [];
+    for (const city of toArray<GalaxyCitySummary>(collection?.city)) {
+      const x = toNumber(city.attributes?.x);
+      const y = toNumber(city.attributes?.y);
+      if (x === undefined || y === undefined) {
+        continue;
+      }
+      const placed: SurfaceCity = { uid: city.attributes.uid, name: city.attributes.name, x, y };
+      this.cities.push(placed);
+      const tile = this.tile(x, y);
+      if (tile) {
+        tile.city = placed;
+      }
+    }
+  }
+
+  /**
+   * Terrain types found on the planet
+   */
+  get terrainTypes(): SurfaceTerrain[] {
+    return [...this.terrainByCode.values()];
+  }
+
+  /**
+   * Tile at grid coordinates, or undefined outside the grid
+   */
+  tile(x: number, y: number): SurfaceTile | undefined {
+    return this.grid[y]?.[x];
+  }
+
+  /**
+   * Every tile, row by row
+   */
+  tiles(): SurfaceTile[] {
+    return this.grid.flat();
+  }
+
+  /**
+   * Terrain matrix by row, so `terrainMatrix()[y][x]`
+   */
+  terrainMatrix(): Array<Array<SurfaceTerrain | undefined>> {
+    return this.grid.map((row) => row.map((tile) => tile.terrain));
+  }
+
+  /**
+   * Number of tiles of each terrain type, most common first
+   */
+  terrainCounts(): TerrainCount[] {
+    const counts = new Map<SurfaceTerrain, number>();
+    for (const tile of this.tiles()) {
+      if (tile.terrain) {
+        counts.set(tile.terrain, (counts.get(tile.terrain) ?? 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([terrain, count]) => ({ terrain, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Tiles of a terrain type, given by code, name (ignoring case) or terrain type UID
+   */
+  tilesOf(terrain: string): SurfaceTile[] {
+    return this.tiles().filter((tile) => tile.terrain && this.matches(tile.terrain, terrain));
+  }
+
+  /**
+   * Tiles without a city, optionally of one terrain type (code, name or UID)
+   */
+  freeTiles(terrain?: string): SurfaceTile[] {
+    return (terrain === undefined ? this.tiles() : this.tilesOf(terrain)).filter(
+      (tile) => !tile.city
+    );
+  }
+
+  private matches(terrain: SurfaceTerrain, query: string): boolean {
+    return (
+      terrain.code === query ||
+      terrain.uid === query ||
+      terrain.name?.toLowerCase() === query.trim().toLowerCase()
+    );
+  }
+}
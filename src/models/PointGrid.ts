@@ -0,0 +1,98 @@
+/**
+ * Grid of buckets for finding items near a point without scanning every item
+ */
+
+import { distanceBetween } from './coordinates.js';
+import type { Coordinates } from '../types/index.js';
+
+/** Width and height of a bucket, in parsecs */
+const DEFAULT_CELL_SIZE = 10;
+
+interface Cell<T> {
+  column: number;
+  row: number;
+  items: T[];
+}
+
+/**
+ * Items bucketed by the square cell of the galaxy they are in. Radius queries only look at
+ * the cells that overlap the circle, or at the occupied cells when there are fewer of those.
+ */
+export class PointGrid<T> {
+  private cells = new Map<string, Cell<T>>();
+
+  /**
+   * @param locate - Coordinates of an item; they must not change while it is in the grid
+   */
+  constructor(
+    private readonly locate: (item: T) => Coordinates,
+    private readonly cellSize = DEFAULT_CELL_SIZE
+  ) {}
+
+  add(item: T): void {
+    const { x, y } = this.locate(item);
+    const column = Math.floor(x / this.cellSize);
+    const row = Math.floor(y / this.cellSize);
+    const key = `${column},${row}`;
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.items.push(item);
+    } else {
+      this.cells.set(key, { column, row, items: [item] });
+    }
+  }
+
+  delete(item: T): void {
+    const { x, y } = this.locate(item);
+    const key = `${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`;
+    const cell = this.cells.get(key);
+    const index = cell ? cell.items.indexOf(item) : -1;
+    if (cell && index >= 0) {
+      cell.items.splice(index, 1);
+      if (cell.items.length === 0) {
+        this.cells.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Items within `radius` of a point, with their distance, in no particular order
+   */
+  within(center: Coordinates, radius: number): Array<{ item: T; distance: number }> {
+    const found: Array<{ item: T; distance: number }> = [];
+    for (const cell of this.cellsNear(center, radius)) {
+      for (const item of cell.items) {
+        const distance = distanceBetween(center, this.locate(item));
+        if (distance <= radius) {
+          found.push({ item, distance });
+        }
+      }
+    }
+    return found;
+  }
+
+  private cellsNear(center: Coordinates, radius: number): Cell<T>[] {
+    const minColumn = Math.floor((center.x - radius) / this.cellSize);
+    const maxColumn = Math.floor((center.x + radius) / this.cellSize);
+    const minRow = Math.floor((center.y - radius) / this.cellSize);
+    const maxRow = Math.floor((center.y + radius) / this.cellSize);
+    const span = (maxColumn - minColumn + 1) * (maxRow - minRow + 1);
+
+    if (!(span <= this.cells.size)) {
+      return [...this.cells.values()].filter(
+        ({ column, row }) =>
+          column >= minColumn && column <= maxColumn && row >= minRow && row <= maxRow
+      );
+    }
+    const cells: Cell<T>[] = [];
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const cell = this.cells.get(`${column},${row}`);
+        if (cell) {
+          cells.push(cell);
+        }
+      }
+    }
+    return cells;
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Hyperspace route planning over systems, hyperlanes and straight-line jumps
+ */
+
+import { SWCValidationError } from '../http/errors.js';
+import { Uid } from '../Uid.js';
+import { distanceBetween, toCoordinates } from './coordinates.js';
+import { toArray } from './normalize.js';
+import { PointGrid } from './PointGrid.js';
+import type {
+  Coordinates,
+  GalaxyLocation,
+  GalaxySystemListItem,
+  Route,
+  RouteLeg,
+  RouteOptions,
+  RoutePoint,
+  RouteStop,
+  System,
+} from '../types/index.js';
+
+const DEFAULT_SECONDS_PER_UNIT = 3600;
+
+interface Lane {
+  to: Node;
+  distance?: number;
+  modifier: number;
+}
+
+interface Node {
+  stop: RouteStop;
+  /** Lanes keyed by destination, so each pair of systems is linked once */
+  lanes: Map<Node, Lane>;
+}
+
+interface Edge {
+  to: Node;
+  via: RouteLeg['via'];
+  distance: number;
+  modifier: number;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function coordinateKey({ x, y }: Coordinates): string {
+  return `${x},${y}`;
+}
+
+function isCoordinates(point: RoutePoint): point is Coordinates {
+  return typeof point === 'object' && !(point instanceof Uid) && 'x' in point && 'y' in point;
+}
+
+/**
+ * Link two nodes both ways, merging with a lane already between them
+ */
+function link(from: Node, to: Node, distance: number | undefined, modifier: number): void {
+  const existing = from.lanes.get(to);
+  const lane = { distance: distance ?? existing?.distance, modifier };
+  from.lanes.set(to, { to, ...lane });
+  to.lanes.set(from, { to: from, ...lane });
+}
+
+/**
+ * Binary min-heap of nodes by score. Nodes whose score improves are pushed again and the
+ * stale entries are skipped when popped.
+ */
+class OpenSet {
+  private heap: Array<{ node: Node; score: number }> = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(node: Node, score: number): void {
+    const heap = this.heap;
+    heap.push({ node, score });
+    for (let i = heap.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].score <= heap[i].score) {
+        break;
+      }
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): Node | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].score < heap[smallest].score) {
+          smallest = left;
+        }
+        if (right < heap.length && heap[right].score < heap[smallest].score) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top?.node;
+  }
+}
+
+/**
+ * Graph of systems and hyperlanes for planning hyperspace routes with A*.
+ *
+ * Ships may jump in a straight line between any two points (up to `maxJump`) or follow a
+ * hyperlane, which multiplies hyperspeed by its `modifier`. Lanes can be travelled both ways.
+ *
+ * @example
+ * ```typescript
+ * const graph = new RouteGraph(await client.galaxy.systems.listAll());
+ * graph.addSystem(await client.galaxy.systems.get({ uid: '24:1' }));
+ * const route = graph.plan('Tatoo', { x: 120, y: 80 }, { hyperspeed: 3 });
+ * ```
+ */
+export class RouteGraph {
+  private nodes: Node[] = [];
+  private byUid = new Map<string, Node>();
+  private byName = new Map<string, Node>();
+  private byCoordinates = new Map<string, Node>();
+  private grid = new PointGrid<Node>((node) => node.stop);
+
+  /**
+   * @param systems - Systems from `galaxy.systems.list()` or `galaxy.systems.get()`
+   */
+  constructor(systems: Array<System | GalaxySystemListItem> = []) {
+    for (const system of systems) {
+      this.addSystem(system);
+    }
+  }
+
+  /**
+   * Number of systems and points in the graph
+   */
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  /**
+   * Add a system, or merge its details (such as hyperlanes) into one already in the graph.
+   * A lane listed by both of its systems, or added again, replaces the earlier one.
+   * Systems without galaxy coordinates are skipped.
+   */
+  addSystem(system: System | GalaxySystemListItem): void {
+    const attributes = system.attributes as { uid?: string; name?: string } | undefined;
+    const uid = typeof system.uid === 'string' ? system.uid : attributes?.uid;
+    const name = typeof system.name === 'string' ? system.name : attributes?.name;
+    const location = system.location as GalaxyLocation | undefined;
+    const coordinates = toCoordinates(location?.coordinates?.galaxy);
+
+    let node = uid !== undefined ? this.byUid.get(uid) : undefined;
+    if (!node) {
+      if (!coordinates) {
+        return;
+      }
+      node = this.nodeAt(coordinates);
+    }
+    if (uid !== undefined) {
+      node.stop.uid = uid;
+      this.byUid.set(uid, node);
+    }
+    if (name !== undefined) {
+      node.stop.name = name;
+      this.byName.set(name.toLowerCase(), node);
+    }
+
+    for (const lane of toArray((system as System).hyperlanes?.hyperlane)) {
+      const laneAttributes = lane.attributes ?? {};
+      const destination = String(laneAttributes.destination ?? lane.value ?? '');
+      const point = toCoordinates({
+        attributes: { x: laneAttributes.destinationX ?? '', y: laneAttributes.destinationY ?? '' },
+      });
+      const to =
+        this.byUid.get(destination) ??
+        this.byName.get(destination.toLowerCase()) ??
+        (point && this.nodeAt(point));
+      if (!to || to === node) {
+        continue;
+      }
+      const distance = toNumber(laneAttributes.blocks);
+      const modifier = toNumber(laneAttributes.modifier) ?? 1;
+      link(node, to, distance, modifier);
+    }
+  }
+
+  /**
+   * Find the shortest or cheapest route between two systems or points.
+   * Returns undefined when no route exists within `maxJump`.
+   *
+   * Jumps are only considered to points within `maxJump`. Without a limit, a jump through an
+   * empty point is never shorter than jumping straight past it, so only the goal and systems
+   * with hyperlanes are jump targets.
+   *
+   * @param from - System UID or name, or galaxy coordinates
+   * @param to - System UID or name, or galaxy coordinates
+   * @throws SWCValidationError if a system is not in the graph or an option is invalid
+   */
+  plan(from: RoutePoint, to: RoutePoint, options: RouteOptions = {}): Route | undefined {
+    const hyperspeed = options.hyperspeed ?? 1;
+    const secondsPerUnit = options.secondsPerUnit ?? DEFAULT_SECONDS_PER_UNIT;
+    const maxJump = options.maxJump ?? Infinity;
+    const byTime = (options.optimize ?? 'cheapest') === 'cheapest';
+    if (!(hyperspeed > 0) || !(secondsPerUnit > 0)) {
+      throw new SWCValidationError(
+        'Invalid route options: hyperspeed and secondsPerUnit must be positive.'
+      );
+    }
+
+    const start = this.resolve(from);
+    const goal = this.resolve(to);
+    const free = [start, goal].filter((node) => !this.byCoordinates.has(coordinateKey(node.stop)));
+    const hubs = Number.isFinite(maxJump)
+      ? undefined
+      : [...this.nodes.filter((node) => node.lanes.size > 0), goal];
+    const jumpTargets = (node: Node): Node[] =>
+      hubs ??
+      this.grid
+        .within(node.stop, maxJump)
+        .map(({ item }) => item)
+        .concat(free.filter((point) => distanceBetween(node.stop, point.stop) <= maxJump));
+
+    const seconds = (distance: number, modifier: number) =>
+      (distance * secondsPerUnit) / (hyperspeed * modifier);
+    const cost = (edge: Edge) => (byTime ? seconds(edge.distance, edge.modifier) : edge.distance);
+
+    // Keep the heuristic admissible: no lane is faster than the fastest one, and a lane's
+    // length in blocks may be shorter than the straight line between its ends
+    let fastest = 1;
+    let shortening = 1;
+    for (const node of this.nodes) {
+      for (const lane of node.lanes.values()) {
+        fastest = Math.max(fastest, lane.modifier);
+        const straight = distanceBetween(node.stop, lane.to.stop);
+        if (lane.distance !== undefined && straight > 0) {
+          shortening = Math.min(shortening, lane.distance / straight);
+        }
+      }
+    }
+    const estimate = (node: Node) => {
+      const distance = distanceBetween(node.stop, goal.stop) * shortening;
+      return byTime ? seconds(distance, fastest) : distance;
+    };
+
+    const best = new Map<Node, number>([[start, 0]]);
+    const previous = new Map<Node, { node: Node; edge: Edge }>();
+    const open = new OpenSet();
+    const closed = new Set<Node>();
+    open.push(start, estimate(start));
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (current === goal) {
+        break;
+      }
+      if (closed.has(current)) {
+        continue;
+      }
+      closed.add(current);
+
+      for (const edge of this.edges(current, jumpTargets(current))) {
+        if (closed.has(edge.to)) {
+          continue;
+        }
+        const score = best.get(current)! + cost(edge);
+        if (score < (best.get(edge.to) ?? Infinity)) {
+          best.set(edge.to, score);
+          previous.set(edge.to, { node: current, edge });
+          open.push(edge.to, score + estimate(edge.to));
+        }
+      }
+    }
+
+    if (!best.has(goal)) {
+      return undefined;
+    }
+
+    const legs: RouteLeg[] = [];
+    for (let node = goal; node !== start; ) {
+      const { node: from, edge } = previous.get(node)!;
+      legs.unshift({
+        from: { ...from.stop },
+        to: { ...edge.to.stop },
+        via: edge.via,
+        distance: edge.distance,
+        modifier: edge.modifier,
+        seconds: seconds(edge.distance, edge.modifier),
+      });
+      node = from;
+    }
+    return {
+      legs,
+      distance: legs.reduce((total, leg) => total + leg.distance, 0),
+      seconds: legs.reduce((total, leg) => total + leg.seconds, 0),
+    };
+  }
+
+  private edges(node: Node, targets: Node[]): Edge[] {
+    const edges: Edge[] = [...node.lanes.values()].map((lane) => ({
+      to: lane.to,
+      via: 'hyperlane',
+      distance: lane.distance ?? distanceBetween(node.stop, lane.to.stop),
+      modifier: lane.modifier > 0 ? lane.modifier : 1,
+    }));
+    for (const point of targets) {
+      if (point !== node) {
+        edges.push({
+          to: point,
+          via: 'jump',
+          distance: distanceBetween(node.stop, point.stop),
+          modifier: 1,
+        });
+      }
+    }
+    return edges;
+  }
+
+  private nodeAt(coordinates: Coordinates): Node {
+    const key = coordinateKey(coordinates);
+    let node = this.byCoordinates.get(key);
+    if (!node) {
+      node = { stop: { x: coordinates.x, y: coordinates.y }, lanes: new Map() };
+      this.nodes.push(node);
+      this.grid.add(node);
+      this.byCoordinates.set(key, node);
+    }
+    return node;
+  }
+
+  /**
+   * Find the node for a route point; coordinates outside any system become a free-standing point
+   */
+  private resolve(point: RoutePoint): Node {
+    if (isCoordinates(point)) {
+      return (
+        this.byCoordinates.get(coordinateKey(point)) ?? {
+          stop: { x: point.x, y: point.y },
+          lanes: new Map(),
+        }
+      );
+    }
+    const uid = Uid.tryParse(point);
+    const node = uid
+      ? this.byUid.get(uid.toString())
+      : this.byName.get(String(point).trim().toLowerCase());
+    if (!node) {
+      throw new SWCValidationError(
+        `Unknown system "${point}": load it into the route graph first.`
+      );
+    }
+    return node;
+  }
+}
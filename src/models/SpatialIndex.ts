@@ -0,0 +1,198 @@
+/**
+ * Radius and sector containment queries over system and sector coordinates
+ */
+
+import { SWCValidationError } from '../http/errors.js';
+import { Uid } from '../Uid.js';
+import { isPointInPolygon, sectorPolygon, toCoordinates } from './coordinates.js';
+import { PointGrid } from './PointGrid.js';
+import type {
+  Coordinates,
+  GalaxyLocation,
+  GalaxyReference,
+  GalaxySectorListItem,
+  GalaxySnapshot,
+  GalaxySystemListItem,
+  RoutePoint,
+  Sector,
+  SpatialSector,
+  SpatialSystem,
+  System,
+  SystemDistance,
+} from '../types/index.js';
+
+function isCoordinates(point: RoutePoint): point is Coordinates {
+  return typeof point === 'object' && !(point instanceof Uid) && 'x' in point && 'y' in point;
+}
+
+function identify(item: System | Sector | GalaxySystemListItem | GalaxySectorListItem): {
+  uid?: string;
+  name?: string;
+} {
+  const attributes = item.attributes as { uid?: string; name?: string } | undefined;
+  return {
+    uid: typeof item.uid === 'string' ? item.uid : attributes?.uid,
+    name: typeof item.name === 'string' ? item.name : attributes?.name,
+  };
+}
+
+/**
+ * UID of the sector a system is in, from its location
+ */
+function sectorOf(location: GalaxyLocation | undefined): string | undefined {
+  const sector = location?.sector as GalaxyReference | undefined;
+  const container = location?.container as GalaxyReference | undefined;
+  if (sector?.attributes?.uid) {
+    return sector.attributes.uid;
+  }
+  const uid = container?.attributes?.uid;
+  return container?.attributes?.type === 'sector' || Uid.tryParse(uid)?.is('sector')
+    ? uid
+    : undefined;
+}
+
+/**
+ * Index of systems and sectors for spatial queries, built from `galaxy.loadSpatialIndex()`,
+ * a galaxy snapshot, or any systems and sectors already fetched.
+ *
+ * Sector containment uses each sector's outline from `galaxy.sectors.get()`. Sectors from the
+ * list endpoint have no outline, so `sectorAt()` falls back to the sector of a system at the
+ * exact point.
+ *
+ * @example
+ * ```typescript
+ * const spatial = SpatialIndex.fromSnapshot(snapshot);
+ * const nearby = spatial.within('Tatoo', 25);
+ * const sector = spatial.sectorAt({ x: 120, y: 80 });
+ * ```
+ */
+export class SpatialIndex {
+  private systems: SpatialSystem[] = [];
+  private systemsByUid = new Map<string, SpatialSystem>();
+  private systemsByName = new Map<string, SpatialSystem>();
+  private grid = new PointGrid<SpatialSystem>((system) => system);
+  private sectors = new Map<string, SpatialSector>();
+
+  /**
+   * @param systems - Systems from `galaxy.systems.list()` or `galaxy.systems.get()`
+   * @param sectors - Sectors from `galaxy.sectors.list()` or, for outlines, `galaxy.sectors.get()`
+   */
+  constructor(
+    systems: Array<System | GalaxySystemListItem> = [],
+    sectors: Array<Sector | GalaxySectorListItem> = []
+  ) {
+    for (const sector of sectors) {
+      this.addSector(sector);
+    }
+    for (const system of systems) {
+      this.addSystem(system);
+    }
+  }
+
+  /**
+   * Index the systems and sectors of a galaxy snapshot
+   * @param sectors - Sector details with outlines, to answer `sectorAt()` for any point
+   */
+  static fromSnapshot(snapshot: GalaxySnapshot, sectors: Sector[] = []): SpatialIndex {
+    return new SpatialIndex(snapshot.systems, [...snapshot.sectors, ...sectors]);
+  }
+
+  /**
+   * Number of systems with known coordinates
+   */
+  get size(): number {
+    return this.systems.length;
+  }
+
+  /**
+   * Add a system, replacing one with the same UID. Systems without galaxy coordinates are skipped.
+   */
+  addSystem(system: System | GalaxySystemListItem): void {
+    const { uid, name } = identify(system);
+    const location = system.location as GalaxyLocation | undefined;
+    const coordinates = toCoordinates(location?.coordinates?.galaxy);
+    if (uid === undefined || !coordinates) {
+      return;
+    }
+
+    const existing = this.systemsByUid.get(uid);
+    const sector = sectorOf(location) ?? existing?.sector;
+    const entry: SpatialSystem = { uid, name: name ?? existing?.name ?? '', ...coordinates };
+    if (sector !== undefined) {
+      entry.sector = sector;
+    }
+    if (existing) {
+      this.systems[this.systems.indexOf(existing)] = entry;
+      this.grid.delete(existing);
+    } else {
+      this.systems.push(entry);
+    }
+    this.grid.add(entry);
+    this.systemsByUid.set(uid, entry);
+    this.systemsByName.set(entry.name.toLowerCase(), entry);
+  }
+
+  /**
+   * Add a sector, or merge its outline into one already in the index
+   */
+  addSector(sector: Sector | GalaxySectorListItem): void {
+    const { uid, name } = identify(sector);
+    if (uid === undefined) {
+      return;
+    }
+    const existing = this.sectors.get(uid);
+    const polygon = sectorPolygon(sector as Sector);
+    this.sectors.set(uid, {
+      uid,
+      name: name ?? existing?.name ?? '',
+      polygon: polygon.length > 0 ? polygon : (existing?.polygon ?? []),
+    });
+  }
+
+  /**
+   * Look up a system by UID or name
+   */
+  system(system: string | Uid): SpatialSystem | undefined {
+    const uid = Uid.tryParse(system);
+    return uid
+      ? this.systemsByUid.get(uid.toString())
+      : this.systemsByName.get(String(system).trim().toLowerCase());
+  }
+
+  /**
+   * Systems within `radius` parsecs of a system (UID or name) or galaxy coordinates,
+   * nearest first. A center system is not included in its own results.
+   * @throws SWCValidationError if the center system is unknown or the radius is invalid
+   */
+  within(center: RoutePoint, radius: number): SystemDistance[] {
+    if (!(radius >= 0)) {
+      throw new SWCValidationError('Invalid radius: must be a non-negative number.');
+    }
+    const origin = isCoordinates(center) ? center : this.system(center);
+    if (!origin) {
+      throw new SWCValidationError(`Unknown system "${center}": add it to the index first.`);
+    }
+
+    return this.grid
+      .within(origin, radius)
+      .filter(({ item }) => item !== origin)
+      .map(({ item, distance }): SystemDistance => ({ system: item, distance }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Sector containing galaxy coordinates, or undefined if no known sector does
+   */
+  sectorAt(point: Coordinates): SpatialSector | undefined {
+    for (const sector of this.sectors.values()) {
+      if (sector.polygon.length >= 3 && isPointInPolygon(point, sector.polygon)) {
+        return sector;
+      }
+    }
+    const system = this.systems.find(({ x, y }) => x === point.x && y === point.y);
+    if (system?.sector === undefined) {
+      return undefined;
+    }
+    return this.sectors.get(system.sector) ?? { uid: system.sector, name: '', polygon: [] };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Coordinate helpers: numeric conversion, distances and sector outlines
+ *
+ * The API sends points as `{ attributes: { x, y } }`, with values that may be numbers or
+ * numeric strings. Galaxy coordinates are measured in parsecs.
+ */
+
+import { toArray } from './normalize.js';
+import type {
+  Coordinates,
+  GalaxyCoordinatePoint,
+  GalaxyCoordinatePointCollection,
+  GalaxyCoordinates,
+  LocationCoordinates,
+  Sector,
+} from '../types/index.js';
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Convert an API point (or already numeric coordinates) to numeric `Coordinates`.
+ * Returns undefined for empty or non-numeric points.
+ * @example
+ * toCoordinates({ attributes: { x: '12', y: -4 } }); // { x: 12, y: -4 }
+ */
+export function toCoordinates(
+  point: GalaxyCoordinatePoint | Coordinates | null | undefined
+): Coordinates | undefined {
+  const source = point && 'attributes' in point ? point.attributes : point;
+  const x = toNumber((source as Partial<Coordinates> | null | undefined)?.x);
+  const y = toNumber((source as Partial<Coordinates> | null | undefined)?.y);
+  return x !== undefined && y !== undefined ? { x, y } : undefined;
+}
+
+/**
+ * Convert the galaxy, system, surface and ground points of a location to numbers,
+ * leaving out levels without a position
+ */
+export function normalizeCoordinates(
+  coordinates: GalaxyCoordinates | null | undefined
+): LocationCoordinates {
+  const normalized: LocationCoordinates = {};
+  for (const level of ['galaxy', 'system', 'surface', 'ground'] as const) {
+    const point = toCoordinates(coordinates?.[level]);
+    if (point) {
+      normalized[level] = point;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Straight-line distance between two points
+ */
+export function distanceBetween(a: Coordinates, b: Coordinates): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Outline of a sector in galaxy coordinates, from `galaxy.sectors.get()` or its
+ * `coordinates` collection
+ */
+export function sectorPolygon(
+  sector: Pick<Sector, 'coordinates'> | GalaxyCoordinatePointCollection | null | undefined
+): Coordinates[] {
+  const collection =
+    sector && 'coordinates' in sector
+      ? sector.coordinates
+      : (sector as GalaxyCoordinatePointCollection | null | undefined);
+  return toArray(collection?.point)
+    .map(toCoordinates)
+    .filter((point): point is Coordinates => point !== undefined);
+}
+
+/**
+ * Whether a point lies inside a polygon. Points on an edge or corner count as inside,
+ * so a system on a sector border belongs to it.
+ */
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+    if (
+      cross === 0 &&
+      point.x >= Math.min(a.x, b.x) &&
+      point.x <= Math.max(a.x, b.x) &&
+      point.y >= Math.min(a.y, b.y) &&
+      point.y <= Math.max(a.y, b.y)
+    ) {
+      return true;
+    }
+    if (a.y > point.y !== b.y > point.y) {
+      const x = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (point.x < x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,269 @@
+/**
+ * Normalizers that turn the API's XML-to-JSON shapes into flat models
+ *
+ * The same rules apply at every level of a response:
+ * - `{ attributes: { uid, href }, value }` references become `Ref` objects
+ * - `'yes'` / `'no'` and `'true'` / `'false'` strings in known flag fields become booleans
+ * - `{ years, days, hours, mins, secs, timestamp }` blobs become `Timestamp` instances
+ * - `{ value, attributes: { max } }` stats become `{ value, max }`, and numeric values with
+ *   `units` become numbers
+ * - `{ attributes: { x, y } }` points become numeric `Coordinates`
+ * - collections such as `{ planet: [...] }` become arrays
+ * - other `attributes` are merged into their object, and empty objects are dropped
+ */
+
+import { isTimeBlob, parseTimeBlob } from './timeBlobs.js';
+import type {
+  CharacterModel,
+  CityModel,
+  EntityModel,
+  FactionModel,
+  PlanetModel,
+  SectorModel,
+  StationModel,
+  SystemModel,
+  TypesEntityModel,
+} from '../types/index.js';
+
+type RawObject = { [key: string]: unknown };
+
+/**
+ * Fields whose `'yes'` / `'no'` or `'true'` / `'false'` strings are converted to booleans.
+ * Other strings, such as message bodies and descriptions, are never converted.
+ */
+const BOOLEAN_KEYS = new Set([
+  'isaware',
+  'isbasic',
+  'force',
+  'primary',
+  'protected',
+  'wrecked',
+  'underconstruction',
+  'lockable',
+  'repulsors',
+  'hangarbay',
+  'dockingbay',
+  'canrecycle',
+  'caninterdict',
+  'canproduce',
+  'canmine',
+  'canresearch',
+  'canrefinealazhi',
+  'canfarmalazhi',
+  'isasteroidminingdepot',
+]);
+
+/** Fields whose numeric strings are converted to numbers */
+const NUMERIC_KEYS = new Set([
+  'x',
+  'y',
+  'size',
+  'credits',
+  'hyperspace',
+  'modifier',
+  'recyclingxp',
+  'destinationx',
+  'destinationy',
+]);
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function toBoolean(value: string): unknown {
+  switch (value) {
+    case 'yes':
+    case 'true':
+      return true;
+    case 'no':
+    case 'false':
+      return false;
+    default:
+      return value;
+  }
+}
+
+function normalizeString(value: string, key?: string): unknown {
+  const name = key?.toLowerCase() ?? '';
+  if (BOOLEAN_KEYS.has(name)) {
+    return toBoolean(value);
+  }
+  return NUMERIC_KEYS.has(name) ? toNumber(value) : value;
+}
+
+/**
+ * Wrap a collection's items in an array. The XML-to-JSON conversion returns a single item
+ * as a bare object, and no items as a missing field.
+ */
+export function toArray<T>(value: T | T[] | null | undefined): T[] {
+  return value === undefined || value === null ? [] : ([] as T[]).concat(value);
+}
+
+/** Singular item key of a collection, e.g. `cities` -> `city` */
+function itemKey(collectionKey: string): string {
+  return collectionKey.endsWith('ies')
+    ? `${collectionKey.slice(0, -3)}y`
+    : collectionKey.replace(/s$/, '');
+}
+
+function normalizeObject(value: RawObject): RawObject {
+  const normalized: RawObject = {};
+  for (const [key, field] of Object.entries(value)) {
+    const result = normalizeValue(field, key);
+    if (result !== undefined) {
+      normalized[key] = result;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Apply the normalization rules to any API value
+ * @param value - Unwrapped API response or part of one
+ * @param key - Field name the value was found under, used for collections and numeric fields
+ */
+export function normalizeValue(value: unknown, key?: string): unknown {
+  if (typeof value === 'string') {
+    return normalizeString(value, key);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 0 || (keys.length === 1 && value.attributes === null)) {
+    return undefined;
+  }
+  // Blobs that are not a point in time (e.g. an elapsed duration) keep their numbers
+  const time = isTimeBlob(value) ? (parseTimeBlob(value) ?? value) : undefined;
+  if (time) {
+    return time;
+  }
+
+  const { attributes, ...rest } = value;
+  if (isObject(attributes)) {
+    if (typeof attributes.uid === 'string') {
+      const { uid, href, type, name, value: attributeValue, ...extra } = attributes;
+      const { value: label, ...others } = rest;
+      const ref: RawObject = {
+        uid,
+        name: [label, name, attributeValue].find((item) => typeof item === 'string') ?? '',
+      };
+      if (typeof href === 'string') ref.href = href;
+      if (typeof type === 'string') ref.type = type;
+      return { ...ref, ...normalizeObject({ ...extra, ...others }) };
+    }
+    if (keys.length === 1 && 'x' in attributes && 'y' in attributes) {
+      return { x: toNumber(attributes.x), y: toNumber(attributes.y) };
+    }
+    const valueWithAttributes = keys.every((name) => name === 'attributes' || name === 'value');
+    if ('max' in attributes && valueWithAttributes) {
+      return { value: toNumber(value.value), max: toNumber(attributes.max) };
+    }
+    // Measurements such as `{ value: '12', attributes: { units: 'T' } }`
+    if ('units' in attributes && valueWithAttributes) {
+      return { ...normalizeObject(attributes), value: toNumber(value.value) };
+    }
+    return normalizeObject({ ...attributes, ...rest });
+  }
+
+  // Collections: `{ planet: [...] }`, or `{ planet: {...} }` for a single item under `planets`
+  if (keys.length === 1) {
+    const items = value[keys[0]];
+    if (Array.isArray(items)) {
+      return normalizeValue(items);
+    }
+    if (key && keys[0] === itemKey(key) && isObject(items)) {
+      return [normalizeValue(items)];
+    }
+  }
+
+  return normalizeObject(value);
+}
+
+/**
+ * Normalize a character from `character.me()` or `character.get()`
+ */
+export function normalizeCharacter(raw: unknown): CharacterModel {
+  const { force, credits, ...character } = normalizeValue(raw) as RawObject;
+  const model = character as CharacterModel;
+  if (isObject(force) && typeof force.isAware === 'boolean') {
+    model.forceAware = force.isAware;
+  }
+  const amount = isObject(credits) ? toNumber(credits.value) : undefined;
+  if (typeof amount === 'number') {
+    model.credits = amount;
+  }
+  return model;
+}
+
+/**
+ * Normalize a faction from `faction.get()`
+ */
+export function normalizeFaction(raw: unknown): FactionModel {
+  return normalizeValue(raw) as FactionModel;
+}
+
+/**
+ * Normalize a planet from `galaxy.planets.get()`
+ */
+export function normalizePlanet(raw: unknown): PlanetModel {
+  return normalizeValue(raw) as PlanetModel;
+}
+
+/**
+ * Normalize a system from `galaxy.systems.get()`
+ */
+export function normalizeSystem(raw: unknown): SystemModel {
+  return normalizeValue(raw) as SystemModel;
+}
+
+/**
+ * Normalize a sector from `galaxy.sectors.get()`
+ */
+export function normalizeSector(raw: unknown): SectorModel {
+  return normalizeValue(raw) as SectorModel;
+}
+
+/**
+ * Normalize a station from `galaxy.stations.get()`
+ */
+export function normalizeStation(raw: unknown): StationModel {
+  return normalizeValue(raw) as StationModel;
+}
+
+/**
+ * Normalize a city from `galaxy.cities.get()`
+ */
+export function normalizeCity(raw: unknown): CityModel {
+  return normalizeValue(raw) as CityModel;
+}
+
+/**
+ * Normalize an inventory entity, unwrapping `{ attributes: { href }, value }`
+ */
+export function normalizeEntity(raw: unknown): EntityModel {
+  if (isObject(raw) && isObject(raw.value) && raw.uid === undefined) {
+    const href = isObject(raw.attributes) ? raw.attributes.href : undefined;
+    const entity = normalizeValue(raw.value) as EntityModel;
+    return typeof href === 'string' ? { ...entity, href } : entity;
+  }
+  return normalizeValue(raw) as EntityModel;
+}
+
+/**
+ * Normalize an entity type from `types.get()`
+ */
+export function normalizeTypesEntity(raw: unknown): TypesEntityModel {
+  return normalizeValue(raw) as TypesEntityModel;
+}
@@ -0,0 +1,80 @@
+/**
+ * Parsed `cgt` timestamps for the time blobs in API responses
+ */
+
+import { Timestamp } from '../Timestamp.js';
+import type { TimeBlob } from '../types/index.js';
+
+type RawObject = { [key: string]: unknown };
+
+const PARTS = ['years', 'days', 'hours', 'mins', 'secs'];
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUnixTimestamp(value: unknown): boolean {
+  return (
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (typeof value === 'string' && /^\d+$/.test(value.trim()))
+  );
+}
+
+/**
+ * Check whether a value is a time from an API response: an object with the
+ * `{ years, days, hours, mins, secs }` parts, and usually a unix `timestamp`
+ */
+export function isTimeBlob(value: unknown): value is TimeBlob {
+  return (
+    isObject(value) &&
+    !(value instanceof Timestamp) &&
+    PARTS.every((key) => typeof value[key] === 'number')
+  );
+}
+
+/**
+ * Convert a time blob, or a record carrying a unix `timestamp`, to a Timestamp
+ *
+ * @returns The Timestamp, or undefined if the value is not a point in time (e.g. an elapsed
+ * duration)
+ */
+export function parseTimeBlob(value: TimeBlob): Timestamp | undefined {
+  try {
+    return Timestamp.fromTimeBlob(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Copy a response with a parsed `cgt` Timestamp attached to every time blob, and to every
+ * record that carries a unix `timestamp` (such as events). Blobs that are not a point in
+ * time (e.g. an elapsed duration) are left alone. The value passed in is not modified.
+ *
+ * @param value - Response data, or any part of it
+ * @returns A copy of the value
+ *
+ * @example
+ * const messages = attachCgt(await client.character.messages.list({ uid }));
+ * messages.sort((a, b) => Timestamp.compare(a.time.cgt!, b.time.cgt!));
+ */
+export function attachCgt<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => attachCgt(item)) as T;
+  }
+  if (!isObject(value) || value instanceof Timestamp) {
+    return value;
+  }
+
+  const copy: RawObject = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = key === 'cgt' ? field : attachCgt(field);
+  }
+  if (isUnixTimestamp(copy.timestamp) || isTimeBlob(copy)) {
+    const cgt = parseTimeBlob(copy as TimeBlob);
+    if (cgt) {
+      copy.cgt = cgt;
+    }
+  }
+  return copy as T;
+}
@@ -3,6 +3,7 @@
  */
 
 import { BaseResource } from './BaseResource.js';
+import type { Timestamp } from '../Timestamp.js';
 
 // Note: HelloWorld endpoint returns a plain string, not an object
 
@@ -58,6 +59,8 @@ export interface TimeResponse {
   secs: number;
   /** Unix timestamp - only present in POST conversion responses */
   timestamp?: number;
+  /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
   [key: string]: unknown;
 }
 
@@ -5,6 +5,10 @@
 import { HttpClient } from '../http/HttpClient.js';
 import { SWCError } from '../http/errors.js';
 import { BaseResource } from './BaseResource.js';
+import { Uid } from '../Uid.js';
+import { Page, collectAll, paginate } from './pagination.js';
+import { CreditLedger } from '../models/CreditLedger.js';
+import { toArray } from '../models/normalize.js';
 import {
   Character,
   CharacterMe,
@@ -21,7 +25,11 @@ import {
   GetCharacterPrivilegesOptions,
   GetCharacterCreditsOptions,
   GetCharacterCreditlogOptions,
+  GetCharacterCreditLedgerOptions,
   GetCharacterPermissionsOptions,
+  PageAttributes,
+  PaginationOptions,
+  UidLike,
 } from '../types/index.js';
 
 // Note: Privilege interface moved to CharacterPrivilegesResource section with correct structure
@@ -58,7 +66,7 @@ export class CharacterMessagesResource extends BaseResource {
       );
     }
 
-    const uidLikeReceiver = receiverHandles.find((receiver) => /^\d+:\d+$/.test(receiver));
+    const uidLikeReceiver = receiverHandles.find((receiver) => Uid.isUid(receiver));
     if (uidLikeReceiver) {
       throw new SWCError(
         `Invalid messages.create receivers: "${uidLikeReceiver}" looks like a UID. Use receiver handles in the semicolon-separated receivers string.`,
@@ -97,20 +105,54 @@ export class CharacterMessagesResource extends BaseResource {
    * }
    */
   async list(options: ListMessagesOptions): Promise<MessageListItem[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every message, fetching pages on demand
+   * @requires_auth Yes
+   * @requires_scope MESSAGES_READ
+   * @param options - Character UID, optional message mode, starting position and pagination controls
+   * @example
+   * for await (const message of client.character.messages.iterate({ uid: '1:12345', mode: 'received' })) {
+   *   console.log(message.sender.value, message.time.timestamp);
+   * }
+   */
+  iterate(options: ListMessagesOptions & PaginationOptions): AsyncIterable<MessageListItem> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List messages across every page
+   * @requires_auth Yes
+   * @requires_scope MESSAGES_READ
+   * @param options - Character UID, optional message mode, starting position and pagination controls
+   * @example
+   * const latest = await client.character.messages.listAll({ uid: '1:12345', maxItems: 200 });
+   */
+  async listAll(options: ListMessagesOptions & PaginationOptions): Promise<MessageListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage(options: ListMessagesOptions): Promise<Page<MessageListItem>> {
     const params: Record<string, number> = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
     };
     // Build path - mode is optional, omitting it returns both sent and received
+    const uid = Uid.expect(options.uid, 'character');
     const path = options.mode
-      ? `/character/${options.uid}/messages/${options.mode}`
-      : `/character/${options.uid}/messages`;
-    const response = await this.http.get<{ message?: MessageListItem[]; attributes?: unknown }>(
+      ? `/character/${uid}/messages/${options.mode}`
+      : `/character/${uid}/messages`;
+    const response = await this.http.get<{ message?: MessageListItem[]; attributes?: PageAttributes }>(
       path,
       { params }
     );
     // API returns { attributes: {...}, message: [...] }, extract just the array
-    return response.message || [];
+    return { attributes: response.attributes, items: response.message || [] };
   }
 
   /**
@@ -131,7 +173,8 @@ export class CharacterMessagesResource extends BaseResource {
    * }
    */
   async get(options: GetMessageOptions): Promise<Message> {
-    return this.request<Message>('GET', `/character/${options.uid}/messages/${options.messageId}`);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<Message>('GET', `/character/${uid}/messages/${options.messageId}`);
   }
 
   /**
@@ -140,7 +183,8 @@ export class CharacterMessagesResource extends BaseResource {
    * @requires_scope MESSAGES_DELETE
    */
   async delete(options: DeleteMessageOptions): Promise<void> {
-    return this.request<void>('DELETE', `/character/${options.uid}/messages/${options.messageId}`);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<void>('DELETE', `/character/${uid}/messages/${options.messageId}`);
   }
 
   /**
@@ -170,7 +214,8 @@ export class CharacterMessagesResource extends BaseResource {
   async create(options: CreateMessageOptions): Promise<Message> {
     const receivers = this.normalizeAndValidateReceivers(options.receivers);
 
-    return this.request<Message>('PUT', `/character/${options.uid}/messages`, {
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<Message>('PUT', `/character/${uid}/messages`, {
       receivers,
       communication: options.communication,
     });
@@ -229,7 +274,8 @@ export class CharacterSkillsResource extends BaseResource {
    * skills.general?.[0].skill.forEach(s => console.log(s.attributes.type, s.value));
    */
   async list(options: GetCharacterSkillsOptions): Promise<CharacterSkills> {
-    return this.request<CharacterSkills>('GET', `/character/${options.uid}/skills`);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<CharacterSkills>('GET', `/character/${uid}/skills`);
   }
 }
 
@@ -291,7 +337,8 @@ export class CharacterPrivilegesResource extends BaseResource {
     if (options.faction_id !== undefined) {
       params.faction_id = options.faction_id;
     }
-    return this.http.get<PrivilegesResponse>(`/character/${options.uid}/privileges`, { params });
+    const uid = Uid.expect(options.uid, 'character');
+    return this.http.get<PrivilegesResponse>(`/character/${uid}/privileges`, { params });
   }
 
   /**
@@ -304,7 +351,7 @@ export class CharacterPrivilegesResource extends BaseResource {
    * @param options.faction_id - Optional faction ID to view privileges for (defaults to token owner's primary faction)
    */
   async get(options: {
-    uid: string;
+    uid: UidLike;
     privilegeGroup: string;
     privilege: string;
     faction_id?: number;
@@ -314,8 +361,9 @@ export class CharacterPrivilegesResource extends BaseResource {
       params.faction_id = options.faction_id;
     }
 
+    const uid = Uid.expect(options.uid, 'character');
     return this.http.get<PrivilegeDetail>(
-      `/character/${options.uid}/privileges/${options.privilegeGroup}/${options.privilege}`,
+      `/character/${uid}/privileges/${options.privilegeGroup}/${options.privilege}`,
       { params }
     );
   }
@@ -329,7 +377,7 @@ export class CharacterPrivilegesResource extends BaseResource {
    * @param options.faction_id - Optional faction ID to view privileges for (defaults to token owner's primary faction)
    */
   async update(options: {
-    uid: string;
+    uid: UidLike;
     privilegeGroup: string;
     privilege: string;
     revoke?: boolean;
@@ -347,8 +395,9 @@ export class CharacterPrivilegesResource extends BaseResource {
       params.faction_id = options.faction_id;
     }
 
+    const uid = Uid.expect(options.uid, 'character');
     return this.http.post<unknown>(
-      `/character/${options.uid}/privileges/${options.privilegeGroup}/${options.privilege}`,
+      `/character/${uid}/privileges/${options.privilegeGroup}/${options.privilege}`,
       data,
       { params }
     );
@@ -371,7 +420,8 @@ export class CharacterCreditsResource extends BaseResource {
    * console.log(`Credits: ${credits}`); // Credits: 320089347
    */
   async get(options: GetCharacterCreditsOptions): Promise<number> {
-    return this.request<number>('GET', `/character/${options.uid}/credits`);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<number>('GET', `/character/${uid}/credits`);
   }
 
   /**
@@ -384,7 +434,7 @@ export class CharacterCreditsResource extends BaseResource {
    * @requires_scope CHARACTER_CREDITS_WRITE
    */
   async transfer(options: {
-    uid: string;
+    uid: UidLike;
     amount: number;
     recipient: string;
     reason?: string;
@@ -398,7 +448,8 @@ export class CharacterCreditsResource extends BaseResource {
       data.reason = options.reason;
     }
 
-    return this.request<unknown>('POST', `/character/${options.uid}/credits`, data);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<unknown>('POST', `/character/${uid}/credits`, data);
   }
 }
 
@@ -426,6 +477,57 @@ export class CharacterCreditlogResource extends BaseResource {
    * const manyLogs = await client.character.creditlog.list({ uid: '1:12345', item_count: 1000 });
    */
   async list(options: GetCharacterCreditlogOptions): Promise<CreditLogEntry[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over the character's credit log, fetching pages on demand
+   * @requires_auth Yes
+   * @requires_scope CHARACTER_CREDITS
+   * @param options - Character UID, optional `start_id` filter, starting position and pagination controls
+   * @example
+   * for await (const entry of client.character.creditlog.iterate({ uid: '1:12345', pageSize: 1000 })) {
+   *   console.log(entry.amount, entry.communication);
+   * }
+   */
+  iterate(options: GetCharacterCreditlogOptions & PaginationOptions): AsyncIterable<CreditLogEntry> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List credit log entries across every page
+   * @requires_auth Yes
+   * @requires_scope CHARACTER_CREDITS
+   * @param options - Character UID, optional `start_id` filter, starting position and pagination controls
+   * @example
+   * const entries = await client.character.creditlog.listAll({ uid: '1:12345', maxItems: 5000 });
+   */
+  async listAll(options: GetCharacterCreditlogOptions & PaginationOptions): Promise<CreditLogEntry[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  /**
+   * Local copy of the character's full credit log, synced by transaction ID, with reports
+   * @requires_auth Yes
+   * @requires_scope CHARACTER_CREDITS
+   * @param options - Character UID and an optional store to keep entries between runs
+   * @example
+   * const ledger = client.character.creditlog.ledger({ uid: '1:12345', store: new FileCreditLedgerStore('./ledger.json') });
+   * await ledger.sync();
+   * const weekly = ledger.aggregate('week');
+   */
+  ledger(options: GetCharacterCreditLedgerOptions): CreditLedger {
+    const uid = Uid.expect(options.uid, 'character');
+    return new CreditLedger(uid, {
+      store: options.store,
+      fetchPage: (start_id, item_count) => this.list({ uid, start_id, item_count }),
+    });
+  }
+
+  private async listPage(options: GetCharacterCreditlogOptions): Promise<Page<CreditLogEntry>> {
     const params: Record<string, number> = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
@@ -433,10 +535,12 @@ export class CharacterCreditlogResource extends BaseResource {
     if (options.start_id !== undefined) {
       params.start_id = options.start_id;
     }
-    const response = await this.http.get<{ transaction?: CreditLogEntry[]; attributes?: unknown }>(`/character/${options.uid}/creditlog`, { params });
+    const uid = Uid.expect(options.uid, 'character');
+    const response = await this.http.get<{ transaction?: CreditLogEntry | CreditLogEntry[]; attributes?: PageAttributes }>(`/character/${uid}/creditlog`, { params });
     // API returns { swcapi: { transactions: { attributes: {...}, transaction: [...] } } }
     // HttpClient unwraps to { attributes: {...}, transaction: [...] }
-    return response.transaction || [];
+    // A page with one entry holds it on its own rather than in an array
+    return { attributes: response.attributes, items: toArray(response.transaction) };
   }
 }
 
@@ -474,7 +578,8 @@ export class CharacterPermissionsResource extends BaseResource {
    * console.log('Granted scopes:', scopes.join(', '));
    */
   async list(options: GetCharacterPermissionsOptions): Promise<CharacterPermissionsResponse> {
-    return this.request<CharacterPermissionsResponse>('GET', `/character/${options.uid}/permissions`);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<CharacterPermissionsResponse>('GET', `/character/${uid}/permissions`);
   }
 
   /**
@@ -531,7 +636,8 @@ export class CharacterResource extends BaseResource {
    * const character = await client.character.get({ uid: '1:12345' });
    */
   async get(options: GetCharacterOptions): Promise<Character> {
-    return this.request<Character>('GET', `/character/${options.uid}`);
+    const uid = Uid.expect(options.uid, 'character');
+    return this.request<Character>('GET', `/character/${uid}`);
   }
 
   /**
@@ -552,7 +658,7 @@ export class CharacterResource extends BaseResource {
    *   const character = await client.character.get({ uid: '1:12345' });
    * }
    */
-  async hasPermission(options: { uid: string; permission: string }): Promise<boolean> {
+  async hasPermission(options: { uid: UidLike; permission: string }): Promise<boolean> {
     try {
       const scopes = await this.permissions.getScopes({ uid: options.uid });
       return scopes.includes(options.permission);
@@ -3,7 +3,14 @@
  */
 
 import { BaseResource } from './BaseResource.js';
-import { Event, QueryParams } from '../types/index.js';
+import { Page, collectAll, paginate } from './pagination.js';
+import {
+  Event,
+  ListEventsOptions,
+  PageAttributes,
+  PaginationOptions,
+  QueryParams,
+} from '../types/index.js';
 
 /**
  * Events resource for querying events
@@ -31,19 +38,39 @@ export class EventsResource extends BaseResource {
    * // Fetch up to 1000 events at once
    * const manyEvents = await client.events.list({ eventMode: 'personal', item_count: 1000 });
    */
-  async list(options: {
-    eventMode: string;
-    /** Event type filter (optional, only for personal/faction modes) */
-    eventType?: string;
-    /** Starting position (0-based). Default: 0 */
-    start_index?: number;
-    /** Number of items to retrieve. Default: 50, Max: 1000 */
-    item_count?: number;
-    /** Unix timestamp to filter events after this time */
-    start_time?: number;
-    /** Faction ID for faction mode */
-    faction_id?: string;
-  }): Promise<Event[]> {
+  async list(options: ListEventsOptions): Promise<Event[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every event, fetching pages on demand.
+   * Pagination starts at index 0 to match this endpoint.
+   * @param options - Event mode, optional type and filters, starting position and pagination controls
+   * @example
+   * for await (const event of client.events.iterate({ eventMode: 'personal', start_time: 1640000000 })) {
+   *   console.log(event.type, event.timestamp);
+   * }
+   */
+  iterate(options: ListEventsOptions & PaginationOptions): AsyncIterable<Event> {
+    return paginate(
+      options,
+      (start_index, item_count) => this.listPage({ ...options, start_index, item_count }),
+      0
+    );
+  }
+
+  /**
+   * List events across every page
+   * @param options - Event mode, optional type and filters, starting position and pagination controls
+   * @example
+   * const events = await client.events.listAll({ eventMode: 'faction', faction_id: '20:123', maxItems: 500 });
+   */
+  async listAll(options: ListEventsOptions & PaginationOptions): Promise<Event[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage(options: ListEventsOptions): Promise<Page<Event>> {
     const params: QueryParams = {
       start_index: options.start_index !== undefined ? options.start_index : 0, // 0-based indexing!
       item_count: options.item_count || 50,
@@ -62,14 +89,15 @@ export class EventsResource extends BaseResource {
       : `/events/${options.eventMode}`;
 
     const response = await this.http.get<Record<string, unknown>>(path, { params });
+    const attributes = response.attributes as PageAttributes | undefined;
     // API returns { attributes: {...}, event: [...] }, extract just the array
     // Key name may vary, so find the array
     for (const key of Object.keys(response)) {
       if (key !== 'attributes' && Array.isArray(response[key])) {
-        return response[key] as Event[];
+        return { attributes, items: response[key] as Event[] };
       }
     }
-    return [];
+    return { attributes, items: [] };
   }
 
   /**
@@ -4,6 +4,11 @@
 
 import { HttpClient } from '../http/HttpClient.js';
 import { BaseResource } from './BaseResource.js';
+import { Uid } from '../Uid.js';
+import { Page, collectAll, paginate } from './pagination.js';
+import { CreditLedger } from '../models/CreditLedger.js';
+import { toArray } from '../models/normalize.js';
+import { FactionTreasury } from '../models/FactionTreasury.js';
 import {
   FactionDetail,
   Character,
@@ -14,6 +19,15 @@ import {
   FactionListItem,
   FactionListResponse,
   ListFactionsOptions,
+  ListFactionMembersOptions,
+  ListFactionBudgetsOptions,
+  ListFactionStockholdersOptions,
+  ListFactionCreditlogOptions,
+  GetFactionCreditLedgerOptions,
+  GetFactionTreasuryOptions,
+  PageAttributes,
+  PaginationOptions,
+  UidLike,
 } from '../types/index.js';
 
 export interface FactionMember {
@@ -55,18 +69,44 @@ export class FactionMembersResource extends BaseResource {
    * const members = await client.faction.members.list({ factionId: '20:123' });
    * const moreMembers = await client.faction.members.list({ factionId: '20:123', start_index: 51, item_count: 50 });
    */
-  async list(options: {
-    factionId: string;
-    start_index?: number;
-    item_count?: number;
-  }): Promise<FactionMember[]> {
+  async list(options: ListFactionMembersOptions): Promise<FactionMember[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every faction member, fetching pages on demand
+   * @param options - Faction ID, optional starting position and pagination controls
+   * @example
+   * for await (const member of client.faction.members.iterate({ factionId: '20:123' })) {
+   *   console.log(member.character);
+   * }
+   */
+  iterate(options: ListFactionMembersOptions & PaginationOptions): AsyncIterable<FactionMember> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List faction members across every page
+   * @param options - Faction ID, optional starting position and pagination controls
+   * @example
+   * const members = await client.faction.members.listAll({ factionId: '20:123' });
+   */
+  async listAll(options: ListFactionMembersOptions & PaginationOptions): Promise<FactionMember[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage(options: ListFactionMembersOptions): Promise<Page<FactionMember>> {
     const params = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
     };
-    const response = await this.http.get<{ member?: FactionMember[]; attributes?: unknown }>(`/faction/${options.factionId}/members`, { params });
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    const response = await this.http.get<{ member?: FactionMember[]; attributes?: PageAttributes }>(`/faction/${factionId}/members`, { params });
     // API returns { attributes: {...}, member: [...] }, extract just the array
-    return response.member || [];
+    return { attributes: response.attributes, items: response.member || [] };
   }
 
   /**
@@ -77,16 +117,17 @@ export class FactionMembersResource extends BaseResource {
    * @param options.new_value - New value for the info field
    */
   async updateMemberInfo(options: {
-    factionId: string;
-    uid: string;
+    factionId: UidLike;
+    uid: UidLike;
     property: 'info1' | 'info2' | 'info3';
     new_value: string;
   }): Promise<any> {
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
     return this.request(
       'POST',
-      `/faction/${options.factionId}/members`,
+      `/faction/${factionId}/members`,
       {
-        uid: options.uid,
+        uid: Uid.expect(options.uid, 'character'),
         property: options.property,
         new_value: options.new_value,
       }
@@ -107,25 +148,52 @@ export class FactionBudgetsResource extends BaseResource {
    * const budgets = await client.faction.budgets.list({ factionId: '20:123' });
    * const moreBudgets = await client.faction.budgets.list({ factionId: '20:123', start_index: 51, item_count: 50 });
    */
-  async list(options: {
-    factionId: string;
-    start_index?: number;
-    item_count?: number;
-  }): Promise<Budget[]> {
+  async list(options: ListFactionBudgetsOptions): Promise<Budget[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every faction budget, fetching pages on demand
+   * @param options - Faction ID, optional starting position and pagination controls
+   * @example
+   * for await (const budget of client.faction.budgets.iterate({ factionId: '20:123' })) {
+   *   console.log(budget.name, budget.amount);
+   * }
+   */
+  iterate(options: ListFactionBudgetsOptions & PaginationOptions): AsyncIterable<Budget> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List faction budgets across every page
+   * @param options - Faction ID, optional starting position and pagination controls
+   * @example
+   * const budgets = await client.faction.budgets.listAll({ factionId: '20:123' });
+   */
+  async listAll(options: ListFactionBudgetsOptions & PaginationOptions): Promise<Budget[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage(options: ListFactionBudgetsOptions): Promise<Page<Budget>> {
     const params = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
     };
-    const response = await this.http.get<{ budget?: Budget[]; attributes?: unknown }>(`/faction/${options.factionId}/budgets`, { params });
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    const response = await this.http.get<{ budget?: Budget[]; attributes?: PageAttributes }>(`/faction/${factionId}/budgets`, { params });
     // API returns { attributes: {...}, budget: [...] }, extract just the array
-    return response.budget || [];
+    return { attributes: response.attributes, items: response.budget || [] };
   }
 
   /**
    * Get specific budget
    */
-  async get(options: { factionId: string; budgetId: string }): Promise<Budget> {
-    return this.request<Budget>('GET', `/faction/${options.factionId}/budget/${options.budgetId}`);
+  async get(options: { factionId: UidLike; budgetId: string }): Promise<Budget> {
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    return this.request<Budget>('GET', `/faction/${factionId}/budget/${options.budgetId}`);
   }
 }
 
@@ -142,18 +210,44 @@ export class FactionStockholdersResource extends BaseResource {
    * const stockholders = await client.faction.stockholders.list({ factionId: '20:123' });
    * const moreStockholders = await client.faction.stockholders.list({ factionId: '20:123', start_index: 51, item_count: 50 });
    */
-  async list(options: {
-    factionId: string;
-    start_index?: number;
-    item_count?: number;
-  }): Promise<Stockholder[]> {
+  async list(options: ListFactionStockholdersOptions): Promise<Stockholder[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every faction stockholder, fetching pages on demand
+   * @param options - Faction ID, optional starting position and pagination controls
+   * @example
+   * for await (const holder of client.faction.stockholders.iterate({ factionId: '20:123' })) {
+   *   console.log(holder.character, holder.shares);
+   * }
+   */
+  iterate(options: ListFactionStockholdersOptions & PaginationOptions): AsyncIterable<Stockholder> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List faction stockholders across every page
+   * @param options - Faction ID, optional starting position and pagination controls
+   * @example
+   * const stockholders = await client.faction.stockholders.listAll({ factionId: '20:123' });
+   */
+  async listAll(options: ListFactionStockholdersOptions & PaginationOptions): Promise<Stockholder[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage(options: ListFactionStockholdersOptions): Promise<Page<Stockholder>> {
     const params = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
     };
-    const response = await this.http.get<{ stockholder?: Stockholder[]; attributes?: unknown }>(`/faction/${options.factionId}/stockholders`, { params });
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    const response = await this.http.get<{ stockholder?: Stockholder[]; attributes?: PageAttributes }>(`/faction/${factionId}/stockholders`, { params });
     // API returns { attributes: {...}, stockholder: [...] }, extract just the array
-    return response.stockholder || [];
+    return { attributes: response.attributes, items: response.stockholder || [] };
   }
 }
 
@@ -167,7 +261,8 @@ export class FactionCreditsResource extends BaseResource {
    * Get faction credits
    */
   async get(options: GetFactionCreditsOptions): Promise<FactionCredits> {
-    return this.request<FactionCredits>('GET', `/faction/${options.factionId}/credits`);
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    return this.request<FactionCredits>('GET', `/faction/${factionId}/credits`);
   }
 
   /**
@@ -191,7 +286,8 @@ export class FactionCreditsResource extends BaseResource {
       data.reason = options.reason;
     }
 
-    return this.request<unknown>('POST', `/faction/${options.factionId}/credits`, data);
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    return this.request<unknown>('POST', `/faction/${factionId}/credits`, data);
   }
 }
 
@@ -216,15 +312,52 @@ export class FactionCreditlogResource extends BaseResource {
    * // Fetch up to 1000 credit log entries at once
    * const manyLogs = await client.faction.creditlog.list({ factionId: '20:123', item_count: 1000 });
    */
-  async list(options: {
-    factionId: string;
-    /** Starting position (1-based). Default: 1 */
-    start_index?: number;
-    /** Number of items to retrieve. Default: 50, Max: 1000 */
-    item_count?: number;
-    /** Oldest transaction ID threshold (1 = oldest 1000, 0/default = newest 1000) */
-    start_id?: number;
-  }): Promise<CreditLogEntry[]> {
+  async list(options: ListFactionCreditlogOptions): Promise<CreditLogEntry[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over the faction credit log, fetching pages on demand
+   * @param options - Faction ID, optional `start_id` filter, starting position and pagination controls
+   * @example
+   * for await (const entry of client.faction.creditlog.iterate({ factionId: '20:123', pageSize: 1000 })) {
+   *   console.log(entry.amount, entry.communication);
+   * }
+   */
+  iterate(options: ListFactionCreditlogOptions & PaginationOptions): AsyncIterable<CreditLogEntry> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List faction credit log entries across every page
+   * @param options - Faction ID, optional `start_id` filter, starting position and pagination controls
+   * @example
+   * const entries = await client.faction.creditlog.listAll({ factionId: '20:123', maxItems: 5000 });
+   */
+  async listAll(options: ListFactionCreditlogOptions & PaginationOptions): Promise<CreditLogEntry[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  /**
+   * Local copy of the faction's full credit log, synced by transaction ID, with reports
+   * @param options - Faction UID and an optional store to keep entries between runs
+   * @example
+   * const ledger = client.faction.creditlog.ledger({ factionId: '20:123' });
+   * await ledger.sync();
+   * const weekly = ledger.aggregate('week');
+   */
+  ledger(options: GetFactionCreditLedgerOptions): CreditLedger {
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    return new CreditLedger(factionId, {
+      store: options.store,
+      fetchPage: (start_id, item_count) => this.list({ factionId, start_id, item_count }),
+    });
+  }
+
+  private async listPage(options: ListFactionCreditlogOptions): Promise<Page<CreditLogEntry>> {
     const params: Record<string, number> = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
@@ -232,10 +365,12 @@ export class FactionCreditlogResource extends BaseResource {
     if (options.start_id !== undefined) {
       params.start_id = options.start_id;
     }
-    const response = await this.http.get<{ transaction?: CreditLogEntry[]; attributes?: unknown }>(`/faction/${options.factionId}/creditlog`, { params });
+    const factionId = Uid.expect(options.factionId, 'faction', 'factionId');
+    const response = await this.http.get<{ transaction?: CreditLogEntry | CreditLogEntry[]; attributes?: PageAttributes }>(`/faction/${factionId}/creditlog`, { params });
     // API returns { swcapi: { transactions: { attributes: {...}, transaction: [...] } } }
     // HttpClient unwraps to { attributes: {...}, transaction: [...] }
-    return response.transaction || [];
+    // A page with one entry holds it on its own rather than in an array
+    return { attributes: response.attributes, items: toArray(response.transaction) };
   }
 }
 
@@ -272,7 +407,7 @@ export class FactionResource extends BaseResource {
    * const myFaction = await client.faction.get();
    */
   async get(options?: GetFactionOptions): Promise<FactionDetail> {
-    const path = options?.uid ? `/faction/${options.uid}` : '/faction/';
+    const path = options?.uid ? `/faction/${Uid.expect(options.uid, 'faction')}` : '/faction/';
     return this.request<FactionDetail>('GET', path);
   }
 
@@ -295,6 +430,22 @@ export class FactionResource extends BaseResource {
     return this.http.get<FactionListResponse>('/factions', { params });
   }
 
+  /**
+   * Iterate over every faction, fetching pages on demand
+   * @requires_auth No
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const faction of client.faction.iterate({ maxItems: 100 })) {
+   *   console.log(faction.value);
+   * }
+   */
+  iterate(options?: ListFactionsOptions & PaginationOptions): AsyncIterable<FactionListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const response = await this.list({ start_index, item_count });
+      return { attributes: response.attributes, items: response.faction ?? [] };
+    });
+  }
+
   /**
    * List all factions across every page.
    * @requires_auth No
@@ -303,37 +454,20 @@ export class FactionResource extends BaseResource {
    * const factions = await client.faction.listAll();
    * console.log(factions.length);
    */
-  async listAll(options?: ListFactionsOptions): Promise<FactionListItem[]> {
-    const itemCount = options?.item_count ?? 50;
-    let startIndex = options?.start_index ?? 1;
-    const factions: FactionListItem[] = [];
-
-    while (true) {
-      const response = await this.list({
-        start_index: startIndex,
-        item_count: itemCount,
-      });
-      const pageItems = response.faction ?? [];
-      const pageStart = response.attributes?.start ?? startIndex;
-      const pageCount =
-        typeof response.attributes?.count === 'number' && response.attributes.count > 0
-          ? response.attributes.count
-          : pageItems.length;
-      const total = response.attributes?.total;
-
-      factions.push(...pageItems);
-
-      if (pageItems.length === 0 || pageItems.length < itemCount) {
-        break;
-      }
-
-      if (typeof total === 'number' && pageStart + pageCount - 1 >= total) {
-        break;
-      }
-
-      startIndex = pageStart + pageCount;
-    }
+  async listAll(options?: ListFactionsOptions & PaginationOptions): Promise<FactionListItem[]> {
+    return collectAll(this.iterate(options));
+  }
 
-    return factions;
+  /**
+   * Treasury helper that snapshots the faction's credits and budgets and reconciles them
+   * against the credit log and member list
+   * @param options - Faction UID, credit log store and flag thresholds
+   * @example
+   * const treasury = client.faction.treasury({ factionId: '20:123', largeOutflow: 5_000_000 });
+   * const before = await treasury.snapshot();
+   * const report = await treasury.reconcile(before);
+   */
+  treasury(options: GetFactionTreasuryOptions): FactionTreasury {
+    return new FactionTreasury(this, options);
   }
 }
@@ -2,8 +2,20 @@
  * Galaxy resource for accessing galactic data
  */
 
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import { HttpClient } from '../http/HttpClient.js';
+import { SWCValidationError } from '../http/errors.js';
 import { BaseResource } from './BaseResource.js';
+import { Uid } from '../Uid.js';
+import { MAX_PAGE_SIZE, collectAll, paginate } from './pagination.js';
+import type { Page } from './pagination.js';
+import { runBatch } from './batch.js';
+import { TypesEntitiesResource } from './TypesResource.js';
+import { RouteGraph } from '../models/RouteGraph.js';
+import { SpatialIndex } from '../models/SpatialIndex.js';
+import { PlanetSurface } from '../models/PlanetSurface.js';
+import { GALAXY_SNAPSHOT_COLLECTIONS, formatGalaxySnapshot } from '../models/GalaxyIndex.js';
 import {
   GalaxyPlanetListItem,
   GalaxySectorListItem,
@@ -21,19 +33,99 @@ import {
   Station,
   City,
   GetPlanetOptions,
+  GetPlanetSurfaceOptions,
   GetSectorOptions,
   GetSystemOptions,
   GetStationOptions,
   GetCityOptions,
+  GalaxySnapshot,
+  GalaxySnapshotCollection,
+  GalaxySnapshotOptions,
+  ListGalaxyOptions,
+  LoadRouteGraphOptions,
+  LoadSpatialIndexOptions,
+  PaginationOptions,
+  Route,
+  RouteOptions,
+  RoutePoint,
+  TypesEntityListItem,
 } from '../types/index.js';
 
+/**
+ * Crawl state saved by `galaxy.snapshot()` after every page. The items themselves are
+ * appended to one NDJSON file per collection, so the checkpoint stays small.
+ */
+interface SnapshotCheckpoint {
+  version: 1;
+  createdAt: string;
+  /** Start index of the next page to fetch, per collection in progress */
+  next: Partial<Record<GalaxySnapshotCollection, number>>;
+  /** Length of each collection's item file when the checkpoint was saved */
+  bytes: Partial<Record<GalaxySnapshotCollection, number>>;
+  completed: GalaxySnapshotCollection[];
+}
+
+async function readCheckpoint(file: string): Promise<SnapshotCheckpoint | undefined> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let checkpoint: Partial<SnapshotCheckpoint>;
+  try {
+    checkpoint = JSON.parse(contents);
+  } catch {
+    checkpoint = {};
+  }
+  if (checkpoint?.version !== 1 || !Array.isArray(checkpoint.completed)) {
+    throw new SWCValidationError(
+      `Checkpoint file ${file} does not contain a galaxy snapshot checkpoint.`
+    );
+  }
+  return { next: {}, bytes: {}, ...checkpoint } as SnapshotCheckpoint;
+}
+
+/**
+ * Read the items a checkpoint saved to an NDJSON file, first cutting off anything written
+ * after the checkpoint (a page appended just before the crawl stopped).
+ * Returns undefined, and empties the file, if it is shorter than the checkpoint recorded.
+ */
+async function restoreItems(file: string, bytes: number): Promise<unknown[] | undefined> {
+  await fs.appendFile(file, '');
+  if ((await fs.stat(file)).size < bytes) {
+    await fs.truncate(file, 0);
+    return undefined;
+  }
+  await fs.truncate(file, bytes);
+  const contents = await fs.readFile(file, 'utf8');
+  return contents
+    .split('\n')
+    .filter((line) => line !== '')
+    .map((line) => JSON.parse(line));
+}
+
+async function writeFileAtomic(file: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, contents);
+  await fs.rename(tmp, file);
+}
+
 /**
  * Galaxy planets resource
  *
  * @see https://www.swcombine.com/ws/v2.0/documentation/galaxy/planets/ SW Combine API Documentation
  */
 export class GalaxyPlanetsResource extends BaseResource {
-  async listRaw(options?: { start_index?: number; item_count?: number }): Promise<GalaxyPlanetListRawResponse> {
+  private types = new TypesEntitiesResource(this.http);
+  private terrainTypes?: Promise<TypesEntityListItem[]>;
+
+  async listRaw(options?: ListGalaxyOptions): Promise<GalaxyPlanetListRawResponse> {
     const params = {
       start_index: options?.start_index || 1,
       item_count: options?.item_count || 50,
@@ -48,17 +140,70 @@ export class GalaxyPlanetsResource extends BaseResource {
    * const planets = await client.galaxy.planets.list();
    * const morePlanets = await client.galaxy.planets.list({ start_index: 51, item_count: 50 });
    */
-  async list(options?: { start_index?: number; item_count?: number }): Promise<GalaxyPlanetListItem[]> {
+  async list(options?: ListGalaxyOptions): Promise<GalaxyPlanetListItem[]> {
     const response = await this.listRaw(options);
     // API returns { attributes: {...}, planet: [...] }, extract just the array
     return response.planet || [];
   }
 
+  /**
+   * Iterate over every planet, fetching pages on demand
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const planet of client.galaxy.planets.iterate()) {
+   *   console.log(planet.attributes.name);
+   * }
+   */
+  iterate(options?: ListGalaxyOptions & PaginationOptions): AsyncIterable<GalaxyPlanetListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const response = await this.listRaw({ start_index, item_count });
+      return { attributes: response.attributes, items: response.planet || [] };
+    });
+  }
+
+  /**
+   * List planets across every page
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * const planets = await client.galaxy.planets.listAll();
+   */
+  async listAll(options?: ListGalaxyOptions & PaginationOptions): Promise<GalaxyPlanetListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get planet by UID
    */
   async get(options: GetPlanetOptions): Promise<Planet> {
-    return this.request<Planet>('GET', `/galaxy/planets/${options.uid}`);
+    const uid = Uid.expect(options.uid, 'planet');
+    return this.request<Planet>('GET', `/galaxy/planets/${uid}`);
+  }
+
+  /**
+   * Get a planet's surface grid, with terrain decoded from its terrain map and linked to the
+   * `types.entities` terrain types (fetched once per client unless `terrainTypes` is given)
+   * @example
+   * const surface = await client.galaxy.planets.surface({ uid: '23:1' });
+   * const freePlains = surface.freeTiles('Grassland');
+   */
+  async surface(options: GetPlanetSurfaceOptions): Promise<PlanetSurface> {
+    const planet = await this.get(options);
+    const terrainTypes = options.terrainTypes ?? (await this.loadTerrainTypes());
+    return new PlanetSurface(planet, terrainTypes);
+  }
+
+  private loadTerrainTypes(): Promise<TypesEntityListItem[]> {
+    if (!this.terrainTypes) {
+      const terrainTypes = this.types.listAll({ entityType: 'terrain' });
+      this.terrainTypes = terrainTypes;
+      // Let a failed load be retried by the next call
+      terrainTypes.catch(() => {
+        if (this.terrainTypes === terrainTypes) {
+          this.terrainTypes = undefined;
+        }
+      });
+    }
+    return this.terrainTypes;
   }
 }
 
@@ -68,7 +213,7 @@ export class GalaxyPlanetsResource extends BaseResource {
  * @see https://www.swcombine.com/ws/v2.0/documentation/galaxy/sectors/ SW Combine API Documentation
  */
 export class GalaxySectorsResource extends BaseResource {
-  async listRaw(options?: { start_index?: number; item_count?: number }): Promise<GalaxySectorListRawResponse> {
+  async listRaw(options?: ListGalaxyOptions): Promise<GalaxySectorListRawResponse> {
     const params = {
       start_index: options?.start_index || 1,
       item_count: options?.item_count || 50,
@@ -83,12 +228,37 @@ export class GalaxySectorsResource extends BaseResource {
    * const sectors = await client.galaxy.sectors.list();
    * const moreSectors = await client.galaxy.sectors.list({ start_index: 51, item_count: 50 });
    */
-  async list(options?: { start_index?: number; item_count?: number }): Promise<GalaxySectorListItem[]> {
+  async list(options?: ListGalaxyOptions): Promise<GalaxySectorListItem[]> {
     const response = await this.listRaw(options);
     // API returns { attributes: {...}, sector: [...] }, extract just the array
     return response.sector || [];
   }
 
+  /**
+   * Iterate over every sector, fetching pages on demand
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const sector of client.galaxy.sectors.iterate()) {
+   *   console.log(sector.attributes.name);
+   * }
+   */
+  iterate(options?: ListGalaxyOptions & PaginationOptions): AsyncIterable<GalaxySectorListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const response = await this.listRaw({ start_index, item_count });
+      return { attributes: response.attributes, items: response.sector || [] };
+    });
+  }
+
+  /**
+   * List sectors across every page
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * const sectors = await client.galaxy.sectors.listAll();
+   */
+  async listAll(options?: ListGalaxyOptions & PaginationOptions): Promise<GalaxySectorListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get sector by name or UID
    * @param options - Sector identifier (use lowercase sector name, e.g., 'seswenna')
@@ -96,7 +266,8 @@ export class GalaxySectorsResource extends BaseResource {
    * const sector = await client.galaxy.sectors.get({ uid: 'seswenna' });
    */
   async get(options: GetSectorOptions): Promise<Sector> {
-    return this.request<Sector>('GET', `/galaxy/sectors/${options.uid}`);
+    const uid = Uid.expect(options.uid, 'sector');
+    return this.request<Sector>('GET', `/galaxy/sectors/${uid}`);
   }
 }
 
@@ -106,7 +277,7 @@ export class GalaxySectorsResource extends BaseResource {
  * @see https://www.swcombine.com/ws/v2.0/documentation/galaxy/systems/ SW Combine API Documentation
  */
 export class GalaxySystemsResource extends BaseResource {
-  async listRaw(options?: { start_index?: number; item_count?: number }): Promise<GalaxySystemListRawResponse> {
+  async listRaw(options?: ListGalaxyOptions): Promise<GalaxySystemListRawResponse> {
     const params = {
       start_index: options?.start_index || 1,
       item_count: options?.item_count || 50,
@@ -121,17 +292,43 @@ export class GalaxySystemsResource extends BaseResource {
    * const systems = await client.galaxy.systems.list();
    * const moreSystems = await client.galaxy.systems.list({ start_index: 51, item_count: 50 });
    */
-  async list(options?: { start_index?: number; item_count?: number }): Promise<GalaxySystemListItem[]> {
+  async list(options?: ListGalaxyOptions): Promise<GalaxySystemListItem[]> {
     const response = await this.listRaw(options);
     // API returns { attributes: {...}, system: [...] }, extract just the array
     return response.system || [];
   }
 
+  /**
+   * Iterate over every system, fetching pages on demand
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const system of client.galaxy.systems.iterate()) {
+   *   console.log(system.attributes.name);
+   * }
+   */
+  iterate(options?: ListGalaxyOptions & PaginationOptions): AsyncIterable<GalaxySystemListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const response = await this.listRaw({ start_index, item_count });
+      return { attributes: response.attributes, items: response.system || [] };
+    });
+  }
+
+  /**
+   * List systems across every page
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * const systems = await client.galaxy.systems.listAll();
+   */
+  async listAll(options?: ListGalaxyOptions & PaginationOptions): Promise<GalaxySystemListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get system by UID
    */
   async get(options: GetSystemOptions): Promise<System> {
-    return this.request<System>('GET', `/galaxy/systems/${options.uid}`);
+    const uid = Uid.expect(options.uid, 'system');
+    return this.request<System>('GET', `/galaxy/systems/${uid}`);
   }
 }
 
@@ -141,7 +338,7 @@ export class GalaxySystemsResource extends BaseResource {
  * @see https://www.swcombine.com/ws/v2.0/documentation/galaxy/stations/ SW Combine API Documentation
  */
 export class GalaxyStationsResource extends BaseResource {
-  async listRaw(options?: { start_index?: number; item_count?: number }): Promise<GalaxyStationListRawResponse> {
+  async listRaw(options?: ListGalaxyOptions): Promise<GalaxyStationListRawResponse> {
     const params = {
       start_index: options?.start_index || 1,
       item_count: options?.item_count || 50,
@@ -156,17 +353,43 @@ export class GalaxyStationsResource extends BaseResource {
    * const stations = await client.galaxy.stations.list();
    * const moreStations = await client.galaxy.stations.list({ start_index: 51, item_count: 50 });
    */
-  async list(options?: { start_index?: number; item_count?: number }): Promise<GalaxyStationListItem[]> {
+  async list(options?: ListGalaxyOptions): Promise<GalaxyStationListItem[]> {
     const response = await this.listRaw(options);
     // API returns { attributes: {...}, station: [...] }, extract just the array
     return response.station || [];
   }
 
+  /**
+   * Iterate over every station, fetching pages on demand
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const station of client.galaxy.stations.iterate()) {
+   *   console.log(station.attributes.name);
+   * }
+   */
+  iterate(options?: ListGalaxyOptions & PaginationOptions): AsyncIterable<GalaxyStationListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const response = await this.listRaw({ start_index, item_count });
+      return { attributes: response.attributes, items: response.station || [] };
+    });
+  }
+
+  /**
+   * List stations across every page
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * const stations = await client.galaxy.stations.listAll();
+   */
+  async listAll(options?: ListGalaxyOptions & PaginationOptions): Promise<GalaxyStationListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get station by UID
    */
   async get(options: GetStationOptions): Promise<Station> {
-    return this.request<Station>('GET', `/galaxy/stations/${options.uid}`);
+    const uid = Uid.expect(options.uid, 'station');
+    return this.request<Station>('GET', `/galaxy/stations/${uid}`);
   }
 }
 
@@ -176,7 +399,7 @@ export class GalaxyStationsResource extends BaseResource {
  * @see https://www.swcombine.com/ws/v2.0/documentation/galaxy/cities/ SW Combine API Documentation
  */
 export class GalaxyCitiesResource extends BaseResource {
-  async listRaw(options?: { start_index?: number; item_count?: number }): Promise<GalaxyCityListRawResponse> {
+  async listRaw(options?: ListGalaxyOptions): Promise<GalaxyCityListRawResponse> {
     const params = {
       start_index: options?.start_index || 1,
       item_count: options?.item_count || 50,
@@ -191,17 +414,111 @@ export class GalaxyCitiesResource extends BaseResource {
    * const cities = await client.galaxy.cities.list();
    * const moreCities = await client.galaxy.cities.list({ start_index: 51, item_count: 50 });
    */
-  async list(options?: { start_index?: number; item_count?: number }): Promise<GalaxyCityListItem[]> {
+  async list(options?: ListGalaxyOptions): Promise<GalaxyCityListItem[]> {
     const response = await this.listRaw(options);
     // API returns { attributes: {...}, city: [...] }, extract just the array
     return response.city || [];
   }
 
+  /**
+   * Iterate over every city, fetching pages on demand
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const city of client.galaxy.cities.iterate()) {
+   *   console.log(city.attributes.name);
+   * }
+   */
+  iterate(options?: ListGalaxyOptions & PaginationOptions): AsyncIterable<GalaxyCityListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const response = await this.listRaw({ start_index, item_count });
+      return { attributes: response.attributes, items: response.city || [] };
+    });
+  }
+
+  /**
+   * List cities across every page
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * const cities = await client.galaxy.cities.listAll();
+   */
+  async listAll(options?: ListGalaxyOptions & PaginationOptions): Promise<GalaxyCityListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get city by UID
    */
   async get(options: GetCityOptions): Promise<City> {
-    return this.request<City>('GET', `/galaxy/cities/${options.uid}`);
+    const uid = Uid.expect(options.uid, 'city');
+    return this.request<City>('GET', `/galaxy/cities/${uid}`);
+  }
+}
+
+/**
+ * Galaxy hyperspace route planner
+ */
+export class GalaxyRoutesResource extends BaseResource {
+  private graph?: Promise<RouteGraph>;
+
+  constructor(
+    http: HttpClient,
+    private readonly systems: GalaxySystemsResource
+  ) {
+    super(http);
+  }
+
+  /**
+   * Build the route graph from the systems list (and optionally each system's hyperlanes),
+   * replacing any graph loaded before. Requests go through the response cache when enabled.
+   *
+   * `hyperlanes: true` is expensive: it sends one `systems.get()` request for every system in
+   * the galaxy, paced by the rate limit, so it can take a long time and use up much of the
+   * hourly allowance. Load it once and reuse the graph with `plan()`.
+   * @example
+   * const graph = await client.galaxy.routes.load({ hyperlanes: true });
+   */
+  load(options: LoadRouteGraphOptions = {}): Promise<RouteGraph> {
+    const graph = this.build(options);
+    this.graph = graph;
+    // Let a failed load be retried by the next plan()
+    graph.catch(() => {
+      if (this.graph === graph) {
+        this.graph = undefined;
+      }
+    });
+    return graph;
+  }
+
+  /**
+   * Plan a route between two systems (UID or name) or galaxy coordinates.
+   * Loads the route graph without hyperlanes on first use unless `load()` was called.
+   * @returns Legs with distances and estimated travel times, or undefined if no route exists
+   * @example
+   * const route = await client.galaxy.routes.plan('24:1', { x: 120, y: 80 }, { hyperspeed: 3 });
+   * route?.legs.forEach((leg) => console.log(leg.via, leg.to.name ?? leg.to, leg.seconds));
+   */
+  async plan(from: RoutePoint, to: RoutePoint, options?: RouteOptions): Promise<Route | undefined> {
+    const graph = await (this.graph ?? this.load());
+    return graph.plan(from, to, options);
+  }
+
+  private async build(options: LoadRouteGraphOptions): Promise<RouteGraph> {
+    const systems = await this.systems.listAll();
+    const graph = new RouteGraph(systems);
+    if (options.hyperlanes) {
+      const results = await runBatch(
+        systems.map((system) => () => this.systems.get({ uid: system.attributes.uid })),
+        { concurrency: options.concurrency },
+        this.http
+      );
+      // Systems whose details could not be fetched keep their straight-line jumps
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          graph.addSystem(result.value);
+        }
+      }
+    }
+    return graph;
   }
 }
 
@@ -216,6 +533,7 @@ export class GalaxyResource extends BaseResource {
   public readonly systems: GalaxySystemsResource;
   public readonly stations: GalaxyStationsResource;
   public readonly cities: GalaxyCitiesResource;
+  public readonly routes: GalaxyRoutesResource;
 
   constructor(http: HttpClient) {
     super(http);
@@ -224,6 +542,165 @@ export class GalaxyResource extends BaseResource {
     this.systems = new GalaxySystemsResource(http);
     this.stations = new GalaxyStationsResource(http);
     this.cities = new GalaxyCitiesResource(http);
+    this.routes = new GalaxyRoutesResource(http, this.systems);
+  }
+
+  /**
+   * Build a `SpatialIndex` of every system and sector outline for radius and sector
+   * containment queries. Fetches the systems and sectors lists plus one request per sector
+   * for its outline; sectors whose details fail to load are kept without one.
+   * @example
+   * const spatial = await client.galaxy.loadSpatialIndex();
+   * spatial.within('Tatoo', 25).forEach(({ system, distance }) => console.log(system.name, distance));
+   * spatial.sectorAt({ x: 120, y: 80 })?.name;
+   */
+  async loadSpatialIndex(options: LoadSpatialIndexOptions = {}): Promise<SpatialIndex> {
+    const systems = await this.systems.listAll();
+    const sectors = await this.sectors.listAll();
+    const index = new SpatialIndex(systems, sectors);
+    const results = await runBatch(
+      sectors.map((sector) => () => this.sectors.get({ uid: sector.attributes.uid })),
+      { concurrency: options.concurrency },
+      this.http
+    );
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        index.addSector(result.value);
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Crawl every sector, system, planet, station and city into a versioned snapshot, and
+   * optionally write it to a JSON or NDJSON file for `GalaxyIndex`.
+   *
+   * With `checkpointFile`, progress is saved after every page so an interrupted crawl
+   * (network failure, rate limit, abort) resumes where it stopped on the next call. Items are
+   * appended to `<checkpointFile>.<collection>.ndjson` as they arrive and the checkpoint only
+   * records how far each collection got.
+   * @example
+   * await client.galaxy.snapshot({ file: 'galaxy.ndjson', checkpointFile: 'galaxy.checkpoint' });
+   * const galaxy = await GalaxyIndex.load('galaxy.ndjson');
+   */
+  async snapshot(options: GalaxySnapshotOptions = {}): Promise<GalaxySnapshot> {
+    const checkpointFile = options.checkpointFile;
+    const state: SnapshotCheckpoint = (checkpointFile &&
+      (await readCheckpoint(checkpointFile))) || {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      next: {},
+      bytes: {},
+      completed: [],
+    };
+    const itemFile = (collection: GalaxySnapshotCollection) =>
+      `${checkpointFile}.${collection}.ndjson`;
+
+    const collected = {} as Record<GalaxySnapshotCollection, unknown[]>;
+    if (checkpointFile) {
+      await fs.mkdir(path.dirname(checkpointFile), { recursive: true });
+    }
+    for (const [collection] of GALAXY_SNAPSHOT_COLLECTIONS) {
+      const restored = checkpointFile
+        ? await restoreItems(itemFile(collection), state.bytes[collection] ?? 0)
+        : [];
+      if (!restored) {
+        // Items the checkpoint counted are missing from the file, so crawl the collection again
+        state.completed = state.completed.filter((done) => done !== collection);
+        delete state.next[collection];
+        state.bytes[collection] = 0;
+      }
+      collected[collection] = restored ?? [];
+    }
+
+    // Append the items fetched since the last save, then record how far the crawl got
+    const save = async (collection: GalaxySnapshotCollection, pending: unknown[]) => {
+      if (!checkpointFile) {
+        return;
+      }
+      if (pending.length > 0) {
+        const lines = pending.map((item) => `${JSON.stringify(item)}\n`).join('');
+        await fs.appendFile(itemFile(collection), lines);
+        state.bytes[collection] = (state.bytes[collection] ?? 0) + Buffer.byteLength(lines);
+      }
+      await writeFileAtomic(checkpointFile, JSON.stringify(state));
+    };
+
+    const pages: Record<
+      GalaxySnapshotCollection,
+      (params: ListGalaxyOptions) => Promise<Page<unknown>>
+    > = {
+      sectors: async (params) => {
+        const response = await this.sectors.listRaw(params);
+        return { attributes: response.attributes, items: response.sector || [] };
+      },
+      systems: async (params) => {
+        const response = await this.systems.listRaw(params);
+        return { attributes: response.attributes, items: response.system || [] };
+      },
+      planets: async (params) => {
+        const response = await this.planets.listRaw(params);
+        return { attributes: response.attributes, items: response.planet || [] };
+      },
+      stations: async (params) => {
+        const response = await this.stations.listRaw(params);
+        return { attributes: response.attributes, items: response.station || [] };
+      },
+      cities: async (params) => {
+        const response = await this.cities.listRaw(params);
+        return { attributes: response.attributes, items: response.city || [] };
+      },
+    };
+
+    for (const [collection] of GALAXY_SNAPSHOT_COLLECTIONS) {
+      if (state.completed.includes(collection)) {
+        continue;
+      }
+      const items = collected[collection];
+      let pending: unknown[] = [];
+      const iterator = paginate(
+        {
+          start_index: state.next[collection],
+          pageSize: options.pageSize ?? MAX_PAGE_SIZE,
+          signal: options.signal,
+        },
+        async (start_index, item_count) => {
+          // Every item before start_index has been collected, so this is a safe resume point
+          state.next[collection] = start_index;
+          await save(collection, pending);
+          pending = [];
+          const page = await pages[collection]({ start_index, item_count });
+          options.onProgress?.({
+            collection,
+            fetched: items.length + page.items.length,
+            ...(page.attributes?.total !== undefined && { total: Number(page.attributes.total) }),
+          });
+          return page;
+        }
+      );
+      for await (const item of iterator) {
+        items.push(item);
+        if (checkpointFile) {
+          pending.push(item);
+        }
+      }
+      delete state.next[collection];
+      state.completed.push(collection);
+      await save(collection, pending);
+    }
+
+    const snapshot = { version: 1, createdAt: state.createdAt, ...collected } as GalaxySnapshot;
+    if (options.file) {
+      const format = options.format ?? (options.file.endsWith('.ndjson') ? 'ndjson' : 'json');
+      await writeFileAtomic(options.file, formatGalaxySnapshot(snapshot, format));
+    }
+    if (checkpointFile) {
+      await fs.rm(checkpointFile, { force: true });
+      for (const [collection] of GALAXY_SNAPSHOT_COLLECTIONS) {
+        await fs.rm(itemFile(collection), { force: true });
+      }
+    }
+    return snapshot;
   }
 
   /**
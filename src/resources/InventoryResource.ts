@@ -4,15 +4,46 @@
 
 import { HttpClient } from '../http/HttpClient.js';
 import { BaseResource } from './BaseResource.js';
+import { Page, collectAll, paginate } from './pagination.js';
+import { Uid } from '../Uid.js';
 import {
   Entity,
   GetEntityOptions,
   InventoryEntityType,
   InventoryEntityTypeMap,
   ListInventoryEntitiesOptions,
+  PageAttributes,
+  PaginationOptions,
   QueryParams,
+  UidKind,
+  UidLike,
 } from '../types/index.js';
 
+/**
+ * UID kind of each inventory entity type
+ */
+const ENTITY_KINDS: Record<string, UidKind> = {
+  ships: 'ship',
+  vehicles: 'vehicle',
+  stations: 'station',
+  cities: 'city',
+  facilities: 'facility',
+  planets: 'planet',
+  items: 'item',
+  npcs: 'npc',
+  droids: 'droid',
+  creatures: 'creature',
+  materials: 'material',
+};
+
+/**
+ * Check an entity UID against its entity type
+ */
+function entityUid(entityType: string, uid: UidLike): string {
+  const kind = ENTITY_KINDS[entityType];
+  return kind ? Uid.expect(uid, kind) : String(uid);
+}
+
 /**
  * Inventory entities resource
  *
@@ -50,6 +81,41 @@ export class InventoryEntitiesResource extends BaseResource {
   async list<T extends InventoryEntityType>(
     options: ListInventoryEntitiesOptions<T>
   ): Promise<InventoryEntityTypeMap[T][]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every matching inventory entity, fetching pages on demand
+   * @param options - Inventory UID, entity type, assign type, filters, starting position and pagination controls
+   * @example
+   * for await (const ship of client.inventory.entities.iterate({ uid: '1:12345', entityType: 'ships', assignType: 'owner', pageSize: 200 })) {
+   *   console.log(ship.value.name);
+   * }
+   */
+  iterate<T extends InventoryEntityType>(
+    options: ListInventoryEntitiesOptions<T> & PaginationOptions
+  ): AsyncIterable<InventoryEntityTypeMap[T]> {
+    return paginate(options, (start_index, item_count) =>
+      this.listPage({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List matching inventory entities across every page
+   * @param options - Inventory UID, entity type, assign type, filters, starting position and pagination controls
+   * @example
+   * const ships = await client.inventory.entities.listAll({ uid: '1:12345', entityType: 'ships', assignType: 'owner' });
+   */
+  async listAll<T extends InventoryEntityType>(
+    options: ListInventoryEntitiesOptions<T> & PaginationOptions
+  ): Promise<InventoryEntityTypeMap[T][]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage<T extends InventoryEntityType>(
+    options: ListInventoryEntitiesOptions<T>
+  ): Promise<Page<InventoryEntityTypeMap[T]>> {
     const params: QueryParams = {
       start_index: options.start_index || 1,
       item_count: options.item_count || 50,
@@ -66,8 +132,9 @@ export class InventoryEntitiesResource extends BaseResource {
       params.filter_inclusion = options.filter_inclusion;
     }
 
+    const uid = Uid.expect(options.uid, ['character', 'faction']);
     const response = await this.http.get<Record<string, unknown>>(
-      `/inventory/${options.uid}/${options.entityType}/${options.assignType}`,
+      `/inventory/${uid}/${options.entityType}/${options.assignType}`,
       { params }
     );
     // API returns { swcapi: { filters: {...}, entities: { attributes: {...}, entity: [...] } } }
@@ -75,22 +142,29 @@ export class InventoryEntitiesResource extends BaseResource {
     // it returns the whole object. Extract entities.entity array.
     const entities = response.entities as Record<string, unknown> | undefined;
     if (entities && Array.isArray(entities.entity)) {
-      return entities.entity as InventoryEntityTypeMap[T][];
+      return {
+        attributes: entities.attributes as PageAttributes | undefined,
+        items: entities.entity as InventoryEntityTypeMap[T][],
+      };
     }
     // Fallback: look for any array in the response
     for (const key of Object.keys(response)) {
       if (key !== 'attributes' && Array.isArray(response[key])) {
-        return response[key] as InventoryEntityTypeMap[T][];
+        return {
+          attributes: response.attributes as PageAttributes | undefined,
+          items: response[key] as InventoryEntityTypeMap[T][],
+        };
       }
     }
-    return [];
+    return { attributes: response.attributes as PageAttributes | undefined, items: [] };
   }
 
   /**
    * Get specific entity
    */
   async get(options: GetEntityOptions): Promise<Entity> {
-    return this.request<Entity>('GET', `/inventory/${options.entityType}/${options.uid}`);
+    const uid = entityUid(options.entityType, options.uid);
+    return this.request<Entity>('GET', `/inventory/${options.entityType}/${uid}`);
   }
 
   /**
@@ -103,7 +177,7 @@ export class InventoryEntitiesResource extends BaseResource {
    */
   async updateProperty(options: {
     entityType: string;
-    uid: string;
+    uid: UidLike;
     property:
       | 'name'
       | 'open-to'
@@ -125,9 +199,10 @@ export class InventoryEntitiesResource extends BaseResource {
       data.reason = options.reason;
     }
 
+    const uid = entityUid(options.entityType, options.uid);
     return this.request<Entity>(
       'POST',
-      `/inventory/${options.entityType}/${options.uid}/${options.property}/`,
+      `/inventory/${options.entityType}/${uid}/${options.property}/`,
       data
     );
   }
@@ -135,28 +210,28 @@ export class InventoryEntitiesResource extends BaseResource {
   /**
    * Add tag to entity
    */
-  async addTag(options: { entityType: string; uid: string; tag: string }): Promise<void> {
-    return this.request<void>(
-      'PUT',
-      `/inventory/${options.entityType}/${options.uid}/tag/${options.tag}`
-    );
+  async addTag(options: { entityType: string; uid: UidLike; tag: string }): Promise<void> {
+    const uid = entityUid(options.entityType, options.uid);
+    return this.request<void>('PUT', `/inventory/${options.entityType}/${uid}/tag/${options.tag}`);
   }
 
   /**
    * Remove tag from entity
    */
-  async removeTag(options: { entityType: string; uid: string; tag: string }): Promise<void> {
+  async removeTag(options: { entityType: string; uid: UidLike; tag: string }): Promise<void> {
+    const uid = entityUid(options.entityType, options.uid);
     return this.request<void>(
       'DELETE',
-      `/inventory/${options.entityType}/${options.uid}/tag/${options.tag}`
+      `/inventory/${options.entityType}/${uid}/tag/${options.tag}`
     );
   }
 
   /**
    * Remove all tags from entity
    */
-  async removeAllTags(options: { entityType: string; uid: string }): Promise<void> {
-    return this.request<void>('DELETE', `/inventory/${options.entityType}/${options.uid}/tags`);
+  async removeAllTags(options: { entityType: string; uid: UidLike }): Promise<void> {
+    const uid = entityUid(options.entityType, options.uid);
+    return this.request<void>('DELETE', `/inventory/${options.entityType}/${uid}/tags`);
   }
 }
 
@@ -176,7 +251,8 @@ export class InventoryResource extends BaseResource {
   /**
    * Get inventory by UID
    */
-  async get(options: { uid: string }): Promise<any> {
-    return this.request<any>('GET', `/inventory/${options.uid}`);
+  async get(options: { uid: UidLike }): Promise<any> {
+    const uid = Uid.expect(options.uid, ['character', 'faction']);
+    return this.request<any>('GET', `/inventory/${uid}`);
   }
 }
@@ -4,7 +4,14 @@
 
 import { HttpClient } from '../http/HttpClient.js';
 import { BaseResource } from './BaseResource.js';
-import { Vendor, GetVendorOptions } from '../types/index.js';
+import { Page, collectAll, paginate } from './pagination.js';
+import {
+  Vendor,
+  GetVendorOptions,
+  ListVendorsOptions,
+  PageAttributes,
+  PaginationOptions,
+} from '../types/index.js';
 
 /**
  * Market vendors resource
@@ -19,14 +26,41 @@ export class MarketVendorsResource extends BaseResource {
    * const vendors = await client.market.vendors.list();
    * const moreVendors = await client.market.vendors.list({ start_index: 51, item_count: 50 });
    */
-  async list(options?: { start_index?: number; item_count?: number }): Promise<Vendor[]> {
+  async list(options?: ListVendorsOptions): Promise<Vendor[]> {
+    const page = await this.listPage(options);
+    return page.items;
+  }
+
+  /**
+   * Iterate over every public vendor, fetching pages on demand
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * for await (const vendor of client.market.vendors.iterate()) {
+   *   console.log(vendor.name);
+   * }
+   */
+  iterate(options?: ListVendorsOptions & PaginationOptions): AsyncIterable<Vendor> {
+    return paginate(options, (start_index, item_count) => this.listPage({ start_index, item_count }));
+  }
+
+  /**
+   * List public vendors across every page
+   * @param options - Optional starting position and pagination controls
+   * @example
+   * const vendors = await client.market.vendors.listAll();
+   */
+  async listAll(options?: ListVendorsOptions & PaginationOptions): Promise<Vendor[]> {
+    return collectAll(this.iterate(options));
+  }
+
+  private async listPage(options?: ListVendorsOptions): Promise<Page<Vendor>> {
     const params = {
       start_index: options?.start_index || 1,
       item_count: options?.item_count || 50,
     };
-    const response = await this.http.get<{ vendor?: Vendor[]; attributes?: unknown }>('/market/vendors', { params });
+    const response = await this.http.get<{ vendor?: Vendor[]; attributes?: PageAttributes }>('/market/vendors', { params });
     // API returns { attributes: {...}, vendor: [...] }, extract just the array
-    return response.vendor || [];
+    return { attributes: response.attributes, items: response.vendor || [] };
   }
 
   /**
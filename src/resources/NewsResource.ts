@@ -4,6 +4,8 @@
 
 import { HttpClient } from '../http/HttpClient.js';
 import { BaseResource } from './BaseResource.js';
+import { collectAll, paginate } from './pagination.js';
+import { Timestamp } from '../Timestamp.js';
 import {
   GetNewsItemOptions,
   ListGNSOptions,
@@ -14,6 +16,7 @@ import {
   NewsListResponse,
   NewsPostedTimestamp,
   NewsReference,
+  PaginationOptions,
   QueryParams,
 } from '../types/index.js';
 
@@ -136,6 +139,7 @@ function normalizeNewsPostedTimestamp(posted: unknown): NewsPostedTimestamp | un
   if (typeof raw.mins === 'number') normalized.mins = raw.mins;
   if (typeof raw.secs === 'number') normalized.secs = raw.secs;
   if (typeof raw.timestamp === 'number') normalized.timestamp = raw.timestamp;
+  if (raw.cgt instanceof Timestamp) normalized.cgt = raw.cgt;
 
   return Object.keys(normalized).length > 0 ? normalized : undefined;
 }
@@ -233,6 +237,33 @@ export class GNSResource extends BaseResource {
     return normalizeNewsListResponse(response);
   }
 
+  /**
+   * Iterate over every GNS headline matching the filters, fetching pages on demand
+   * @requires_auth No
+   * @param options - Optional category, filters, starting position and pagination controls
+   * @example
+   * for await (const headline of client.news.gns.iterate({ search: 'battle', maxItems: 200 })) {
+   *   console.log(headline.attributes.title);
+   * }
+   */
+  iterate(options?: ListGNSOptions & PaginationOptions): AsyncIterable<NewsListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const items = await this.list({ ...options, start_index, item_count });
+      return { attributes: items.attributes, items };
+    });
+  }
+
+  /**
+   * List GNS headlines matching the filters across every page
+   * @requires_auth No
+   * @param options - Optional category, filters, starting position and pagination controls
+   * @example
+   * const headlines = await client.news.gns.listAll({ category: 'economy' });
+   */
+  async listAll(options?: ListGNSOptions & PaginationOptions): Promise<NewsListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get a specific GNS news item by numeric ID.
    * Author and faction are normalized to object references with `value`.
@@ -298,6 +329,33 @@ export class SimNewsResource extends BaseResource {
     return normalizeNewsListResponse(response);
   }
 
+  /**
+   * Iterate over every Sim News headline matching the filters, fetching pages on demand
+   * @requires_auth No
+   * @param options - Optional category, filters, starting position and pagination controls
+   * @example
+   * for await (const headline of client.news.simNews.iterate({ search: 'battle', maxItems: 200 })) {
+   *   console.log(headline.attributes.title);
+   * }
+   */
+  iterate(options?: ListSimNewsOptions & PaginationOptions): AsyncIterable<NewsListItem> {
+    return paginate(options, async (start_index, item_count) => {
+      const items = await this.list({ ...options, start_index, item_count });
+      return { attributes: items.attributes, items };
+    });
+  }
+
+  /**
+   * List Sim News headlines matching the filters across every page
+   * @requires_auth No
+   * @param options - Optional category, filters, starting position and pagination controls
+   * @example
+   * const headlines = await client.news.simNews.listAll({ category: 'economy' });
+   */
+  async listAll(options?: ListSimNewsOptions & PaginationOptions): Promise<NewsListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Get a specific Sim News item by numeric ID.
    * Author and faction are normalized to object references with `value`.
@@ -0,0 +1,175 @@
+/**
+ * Normalized views of character, faction, galaxy, inventory and types resources
+ */
+
+import { HttpClient } from '../http/HttpClient.js';
+import { BaseResource } from './BaseResource.js';
+import { CharacterResource } from './CharacterResource.js';
+import { FactionResource } from './FactionResource.js';
+import { GalaxyResource } from './GalaxyResource.js';
+import { InventoryResource } from './InventoryResource.js';
+import { TypesResource } from './TypesResource.js';
+import {
+  normalizeCharacter,
+  normalizeCity,
+  normalizeEntity,
+  normalizeFaction,
+  normalizePlanet,
+  normalizeSector,
+  normalizeStation,
+  normalizeSystem,
+  normalizeTypesEntity,
+} from '../models/normalize.js';
+import {
+  CharacterModel,
+  CityModel,
+  EntityModel,
+  FactionModel,
+  GetCharacterOptions,
+  GetCityOptions,
+  GetEntityOptions,
+  GetFactionOptions,
+  GetPlanetOptions,
+  GetSectorOptions,
+  GetStationOptions,
+  GetSystemOptions,
+  GetTypesEntityOptions,
+  PlanetModel,
+  SectorModel,
+  StationModel,
+  SystemModel,
+  TypesEntityModel,
+  TypesEntityType,
+} from '../types/index.js';
+
+/**
+ * Normalized character resource
+ */
+export class NormalizedCharacterResource extends BaseResource {
+  private character = new CharacterResource(this.http);
+
+  /**
+   * Get the authenticated user's character as a `CharacterModel`
+   * @requires_auth Yes
+   * @requires_scope CHARACTER_READ
+   */
+  async me(): Promise<CharacterModel> {
+    return normalizeCharacter(await this.character.me());
+  }
+
+  /**
+   * Get a character by UID as a `CharacterModel`
+   * @requires_auth Yes
+   * @requires_scope CHARACTER_READ
+   */
+  async get(options: GetCharacterOptions): Promise<CharacterModel> {
+    return normalizeCharacter(await this.character.get(options));
+  }
+}
+
+/**
+ * Normalized faction resource
+ */
+export class NormalizedFactionResource extends BaseResource {
+  private faction = new FactionResource(this.http);
+
+  /**
+   * Get a faction (or the authenticated user's primary faction) as a `FactionModel`
+   * @requires_auth Yes
+   * @requires_scope FACTION_READ
+   */
+  async get(options?: GetFactionOptions): Promise<FactionModel> {
+    return normalizeFaction(await this.faction.get(options));
+  }
+}
+
+/**
+ * Normalized galaxy resource
+ */
+export class NormalizedGalaxyResource extends BaseResource {
+  private galaxy = new GalaxyResource(this.http);
+
+  public readonly planets = {
+    get: async (options: GetPlanetOptions): Promise<PlanetModel> =>
+      normalizePlanet(await this.galaxy.planets.get(options)),
+  };
+
+  public readonly systems = {
+    get: async (options: GetSystemOptions): Promise<SystemModel> =>
+      normalizeSystem(await this.galaxy.systems.get(options)),
+  };
+
+  public readonly sectors = {
+    get: async (options: GetSectorOptions): Promise<SectorModel> =>
+      normalizeSector(await this.galaxy.sectors.get(options)),
+  };
+
+  public readonly stations = {
+    get: async (options: GetStationOptions): Promise<StationModel> =>
+      normalizeStation(await this.galaxy.stations.get(options)),
+  };
+
+  public readonly cities = {
+    get: async (options: GetCityOptions): Promise<CityModel> =>
+      normalizeCity(await this.galaxy.cities.get(options)),
+  };
+}
+
+/**
+ * Normalized inventory resource
+ */
+export class NormalizedInventoryResource extends BaseResource {
+  private inventory = new InventoryResource(this.http);
+
+  public readonly entities = {
+    /**
+     * Get an inventory entity as an `EntityModel`
+     * @requires_auth Yes
+     */
+    get: async (options: GetEntityOptions): Promise<EntityModel> =>
+      normalizeEntity(await this.inventory.entities.get(options)),
+  };
+}
+
+/**
+ * Normalized types resource
+ */
+export class NormalizedTypesResource extends BaseResource {
+  private types = new TypesResource(this.http);
+
+  public readonly entities = {
+    /**
+     * Get an entity type as a `TypesEntityModel`
+     * @requires_auth No
+     */
+    get: async <T extends TypesEntityType>(
+      options: GetTypesEntityOptions<T>
+    ): Promise<TypesEntityModel> => normalizeTypesEntity(await this.types.entities.get(options)),
+  };
+}
+
+/**
+ * Opt-in normalized view of the API, returned as flat models: `Ref` objects in place of
+ * `{ attributes, value }` references, booleans in place of `'yes'` / `'no'`, numbers in
+ * place of numeric strings and `Timestamp` instances in place of time blobs.
+ *
+ * @example
+ * const ship = await client.normalized.inventory.entities.get({ entityType: 'ships', uid: '2:1' });
+ * console.log(ship.owner?.name, ship.hull?.max, ship.wrecked); // 'Luke', 150, false
+ */
+export class NormalizedResource extends BaseResource {
+  public readonly character: NormalizedCharacterResource;
+  public readonly faction: NormalizedFactionResource;
+  public readonly galaxy: NormalizedGalaxyResource;
+  public readonly inventory: NormalizedInventoryResource;
+  public readonly types: NormalizedTypesResource;
+
+  constructor(http: HttpClient) {
+    super(http);
+    this.character = new NormalizedCharacterResource(http);
+    this.faction = new NormalizedFactionResource(http);
+    this.galaxy = new NormalizedGalaxyResource(http);
+    this.inventory = new NormalizedInventoryResource(http);
+    this.types = new NormalizedTypesResource(http);
+  }
+}
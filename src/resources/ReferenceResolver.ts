@@ -0,0 +1,243 @@
+/**
+ * Resolver that follows references embedded in API responses
+ */
+
+import { SWCValidationError } from '../http/errors.js';
+import { compileRoute, normalizePath } from '../http/paths.js';
+import { Uid } from '../Uid.js';
+import { BaseResource } from './BaseResource.js';
+import { CharacterResource } from './CharacterResource.js';
+import { FactionResource } from './FactionResource.js';
+import { GalaxyResource } from './GalaxyResource.js';
+import { InventoryResource } from './InventoryResource.js';
+import { TypesResource } from './TypesResource.js';
+import {
+  HydrateOptions,
+  InventoryEntityType,
+  ReferenceLike,
+  TypesEntityType,
+  UidKind,
+} from '../types/index.js';
+
+type RawObject = { [key: string]: unknown };
+
+type Fetcher = (params: Map<string, string>) => Promise<unknown>;
+
+/**
+ * Endpoint path for each kind of UID, used when a reference has no usable `href`
+ */
+const KIND_PATHS: Partial<Record<UidKind, string>> = {
+  character: 'character',
+  faction: 'faction',
+  planet: 'galaxy/planets',
+  system: 'galaxy/systems',
+  sector: 'galaxy/sectors',
+  station: 'galaxy/stations',
+  city: 'galaxy/cities',
+  ship: 'inventory/ships',
+  vehicle: 'inventory/vehicles',
+  facility: 'inventory/facilities',
+  item: 'inventory/items',
+  npc: 'inventory/npcs',
+  droid: 'inventory/droids',
+  creature: 'inventory/creatures',
+  material: 'inventory/materials',
+};
+
+function isPlainObject(value: unknown): value is RawObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Check whether an object is a reference: `{ attributes: { uid }, value }` or a flat `Ref`
+ */
+function isReference(value: RawObject): boolean {
+  if (isPlainObject(value.attributes)) {
+    return typeof value.attributes.uid === 'string';
+  }
+  return (
+    typeof value.uid === 'string' &&
+    typeof value.name === 'string' &&
+    Object.values(value).every((field) => typeof field !== 'object' || field === null)
+  );
+}
+
+function referenceFields(ref: ReferenceLike): { uid?: string; href?: string } {
+  if (typeof ref === 'string' || ref instanceof Uid) {
+    return { uid: String(ref) };
+  }
+  const fields = ('attributes' in ref ? ref.attributes : ref) ?? {};
+  return {
+    uid: typeof fields.uid === 'string' ? fields.uid : undefined,
+    href: typeof fields.href === 'string' && fields.href !== '' ? fields.href : undefined,
+  };
+}
+
+function matchesPath(path: string[], patterns: string[][]): boolean {
+  return patterns.some(
+    (pattern) =>
+      pattern.length === path.length &&
+      pattern.every((segment, index) => segment === '*' || segment === path[index])
+  );
+}
+
+/**
+ * Looks up the objects that references point to, through the matching resource.
+ * Concurrent lookups of the same object share one request; requests go through the
+ * client's cache, rate limiter and middleware like any other call.
+ */
+export class ReferenceResolver extends BaseResource {
+  private character = new CharacterResource(this.http);
+  private faction = new FactionResource(this.http);
+  private galaxy = new GalaxyResource(this.http);
+  private inventory = new InventoryResource(this.http);
+  private types = new TypesResource(this.http);
+  private pending = new Map<string, Promise<unknown>>();
+
+  private readonly routes: Array<[ReturnType<typeof compileRoute>, Fetcher]> = [
+    [compileRoute('character/{uid}'), (params) => this.character.get({ uid: params.get('uid')! })],
+    [compileRoute('faction/{uid}'), (params) => this.faction.get({ uid: params.get('uid')! })],
+    [
+      compileRoute('galaxy/planets/{uid}'),
+      (params) => this.galaxy.planets.get({ uid: params.get('uid')! }),
+    ],
+    [
+      compileRoute('galaxy/systems/{uid}'),
+      (params) => this.galaxy.systems.get({ uid: params.get('uid')! }),
+    ],
+    [
+      compileRoute('galaxy/sectors/{uid}'),
+      (params) => this.galaxy.sectors.get({ uid: params.get('uid')! }),
+    ],
+    [
+      compileRoute('galaxy/stations/{uid}'),
+      (params) => this.galaxy.stations.get({ uid: params.get('uid')! }),
+    ],
+    [
+      compileRoute('galaxy/cities/{uid}'),
+      (params) => this.galaxy.cities.get({ uid: params.get('uid')! }),
+    ],
+    [
+      compileRoute('inventory/{entityType}/{uid}'),
+      (params) =>
+        this.inventory.entities.get({
+          entityType: params.get('entitytype') as InventoryEntityType,
+          uid: params.get('uid')!,
+        }),
+    ],
+    [
+      compileRoute('types/{entityType}/{uid}'),
+      (params) =>
+        this.types.entities.get({
+          entityType: params.get('entitytype') as TypesEntityType,
+          uid: params.get('uid')!,
+        }),
+    ],
+  ];
+
+  /**
+   * Fetch the object a reference points to
+   * @param ref - UID, `Ref` or `{ attributes: { uid, href }, value }` reference
+   * @throws SWCValidationError if the kind of object cannot be determined
+   */
+  async resolve<T = unknown>(ref: ReferenceLike): Promise<T> {
+    const target = this.target(ref);
+    if (!target) {
+      const { uid, href } = referenceFields(ref);
+      throw new SWCValidationError(
+        `Cannot resolve reference ${uid ?? href ?? '(no uid)'}: unknown kind of object.`
+      );
+    }
+
+    let pending = this.pending.get(target.path);
+    if (!pending) {
+      pending = target.fetch().finally(() => this.pending.delete(target.path));
+      this.pending.set(target.path, pending);
+    }
+    return pending as Promise<T>;
+  }
+
+  /**
+   * Copy `value`, adding the referenced object to each reference it contains as `resolved`.
+   * References of unknown kinds are left as they are.
+   */
+  async hydrate<T>(value: T, options: HydrateOptions = {}): Promise<T> {
+    const depth = options.depth ?? 1;
+    if (depth < 1) {
+      return value;
+    }
+
+    const patterns = options.paths?.map((path) => path.split('.'));
+    const references: RawObject[] = [];
+    const copy = (item: unknown, path: string[], root: boolean): unknown => {
+      if (Array.isArray(item)) {
+        return item.map((entry) => copy(entry, path, false));
+      }
+      if (!isPlainObject(item)) {
+        return item;
+      }
+      if (!root && isReference(item) && !('resolved' in item)) {
+        const ref = { ...item };
+        if ((!patterns || matchesPath(path, patterns)) && this.target(ref as ReferenceLike)) {
+          references.push(ref);
+        }
+        return ref;
+      }
+      // Inventory entities come wrapped as `{ attributes: { href }, value: { ... } }`
+      const wrapped = root && isPlainObject(item.value) && isPlainObject(item.attributes);
+      const result: RawObject = {};
+      for (const [key, field] of Object.entries(item)) {
+        result[key] =
+          wrapped && key === 'value'
+            ? copy(field, path, false)
+            : copy(field, [...path, key], false);
+      }
+      return result;
+    };
+    const hydrated = copy(value, [], true) as T;
+
+    await Promise.all(
+      references.map(async (ref) => {
+        try {
+          const resolved = await this.resolve(ref as ReferenceLike);
+          ref.resolved =
+            depth > 1
+              ? await this.hydrate(resolved, { ...options, depth: depth - 1, paths: undefined })
+              : resolved;
+        } catch (error) {
+          if (!options.ignoreErrors) {
+            throw error;
+          }
+        }
+      })
+    );
+    return hydrated;
+  }
+
+  /**
+   * Find the endpoint for a reference, preferring its `href` over its UID prefix
+   */
+  private target(ref: ReferenceLike): { path: string; fetch: () => Promise<unknown> } | undefined {
+    const { uid, href } = referenceFields(ref);
+    const parsed = uid !== undefined ? Uid.tryParse(uid) : undefined;
+    const kindPath = parsed?.kind && KIND_PATHS[parsed.kind];
+    const candidates = [href, kindPath && `${kindPath}/${parsed}`];
+
+    for (const candidate of candidates) {
+      if (!candidate) {
+        continue;
+      }
+      for (const [route, fetch] of this.routes) {
+        const params = route.match(candidate);
+        if (params) {
+          return { path: normalizePath(candidate), fetch: () => fetch(params) };
+        }
+      }
+    }
+    return undefined;
+  }
+}
@@ -4,10 +4,12 @@
 
 import { HttpClient } from '../http/HttpClient.js';
 import { BaseResource } from './BaseResource.js';
+import { collectAll, paginate } from './pagination.js';
 import {
   GetTypesEntityOptions,
   ListTypesClassesOptions,
   ListTypesEntitiesOptions,
+  PaginationOptions,
   TypesEntitiesListMetaResponse,
   TypesEntitiesListRawResponse,
   TypesEntityGetResponseMap,
@@ -104,6 +106,34 @@ export class TypesEntitiesResource extends BaseResource {
     return response.items;
   }
 
+  /**
+   * Iterate over every entity of a type, fetching pages on demand
+   * @param options - Entity type, optional class filter, starting position and pagination controls
+   * @example
+   * for await (const ship of client.types.entities.iterate({ entityType: 'ships', class: 'fighter' })) {
+   *   console.log(ship.attributes.uid, ship.value);
+   * }
+   */
+  iterate<T extends TypesEntityType>(
+    options: ListTypesEntitiesOptions<T> & PaginationOptions
+  ): AsyncIterable<TypesEntityListItem> {
+    return paginate(options, (start_index, item_count) =>
+      this.listRaw({ ...options, start_index, item_count })
+    );
+  }
+
+  /**
+   * List every entity of a type across all pages
+   * @param options - Entity type, optional class filter, starting position and pagination controls
+   * @example
+   * const terrain = await client.types.entities.listAll({ entityType: 'terrain' });
+   */
+  async listAll<T extends TypesEntityType>(
+    options: ListTypesEntitiesOptions<T> & PaginationOptions
+  ): Promise<TypesEntityListItem[]> {
+    return collectAll(this.iterate(options));
+  }
+
   /**
    * Returns normalized pagination metadata and items for any `TypesEntityType`.
    *
@@ -0,0 +1,158 @@
+/**
+ * Bounded-concurrency executor for batches of API calls
+ */
+
+import { SWCError } from '../http/errors.js';
+import type { HttpClient } from '../http/HttpClient.js';
+import type { BatchOperation, BatchOptions, BatchResult } from '../types/index.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 1000;
+
+function toSWCError(error: unknown): SWCError {
+  if (SWCError.isSWCError(error)) {
+    return error;
+  }
+  const cause = error instanceof Error ? error : undefined;
+  return new SWCError(cause?.message ?? String(error), { type: 'unknown', cause });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `operations` with at most `concurrency` in flight and return their settled results
+ * in input order.
+ *
+ * Retryable failures are retried with exponential backoff; rate limit failures wait for
+ * `Retry-After` instead, and pause every worker. New operations also wait for the window to
+ * reset once the client's rate limit headers report `reserve` or fewer requests remaining.
+ * Operations run with the client's own retries turned off, so `retries` is the only limit.
+ *
+ * Once `signal` aborts, operations still waiting settle as rejected with the abort reason.
+ *
+ * @param operations - Functions that each make one API call
+ * @param options - Concurrency, retry, pacing and progress options
+ * @param http - Client the operations call through
+ */
+export async function runBatch<T>(
+  operations: BatchOperation<T>[],
+  options: BatchOptions,
+  http: HttpClient
+): Promise<BatchResult<T>[]> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const reserve = options.reserve ?? 0;
+  const signal = options.signal;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new SWCError('Invalid batch options: concurrency must be a positive integer.', {
+      type: 'validation',
+    });
+  }
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new SWCError('Invalid batch options: retries must be a non-negative integer.', {
+      type: 'validation',
+    });
+  }
+
+  const results = new Array<BatchResult<T>>(operations.length);
+  let next = 0;
+  let succeeded = 0;
+  let failed = 0;
+  // Shared by all workers, so one rate limit response slows the whole batch down
+  let pausedUntil = 0;
+
+  const waitForBudget = async () => {
+    let until = pausedUntil;
+    const info = http.getRateLimitInfo();
+    if (info && info.remaining <= reserve) {
+      until = Math.max(until, info.reset * 1000);
+    }
+    const delay = until - Date.now();
+    if (delay > 0) {
+      await sleep(delay, signal);
+    }
+  };
+
+  const backOff = async (error: SWCError, attempt: number) => {
+    if (error.type === 'rate_limit') {
+      const info = http.getRateLimitInfo();
+      const wait =
+        error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : info
+            ? info.reset * 1000 - Date.now()
+            : retryDelay;
+      pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+    } else {
+      await sleep(retryDelay * Math.pow(2, attempt - 1), signal);
+    }
+  };
+
+  const run = async (operation: BatchOperation<T>): Promise<BatchResult<T>> => {
+    let attempts = 0;
+    try {
+      for (;;) {
+        signal?.throwIfAborted();
+        await waitForBudget();
+        attempts++;
+        try {
+          return {
+            status: 'fulfilled',
+            value: await http.runWithoutRetries(operation),
+            attempts,
+          };
+        } catch (caught) {
+          const error = toSWCError(caught);
+          if (!error.retryable || attempts > retries) {
+            return { status: 'rejected', error, attempts };
+          }
+          await backOff(error, attempts);
+        }
+      }
+    } catch (reason) {
+      // Only an abort escapes the loop above
+      return { status: 'rejected', error: toSWCError(reason), attempts };
+    }
+  };
+
+  const worker = async () => {
+    while (next < operations.length) {
+      const index = next++;
+      const result = await run(operations[index]);
+      results[index] = result;
+      if (result.status === 'fulfilled') {
+        succeeded++;
+      } else {
+        failed++;
+      }
+      options.onProgress?.({
+        index,
+        completed: succeeded + failed,
+        succeeded,
+        failed,
+        total: operations.length,
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, operations.length) }, () => worker())
+  );
+  return results;
+}
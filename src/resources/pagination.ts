@@ -0,0 +1,124 @@
+/**
+ * Shared pagination helpers for list endpoints
+ */
+
+import { SWCError } from '../http/errors.js';
+import type { PageAttributes, PaginationOptions } from '../types/index.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+/** Most items the API returns per page, whatever `item_count` asks for */
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * A single page of list results together with the API's pagination metadata
+ */
+export interface Page<T> {
+  attributes?: PageAttributes;
+  items: T[];
+}
+
+/**
+ * Fetch one page starting at `startIndex` with up to `itemCount` items
+ */
+export type PageFetcher<T> = (startIndex: number, itemCount: number) => Promise<Page<T>>;
+
+/**
+ * Starting position, page size and iteration controls for `paginate()`
+ */
+export interface PaginateOptions extends PaginationOptions {
+  /** Position of the first item to request. Defaults to the endpoint's index base */
+  start_index?: number;
+  /** Page size used when `pageSize` is not set */
+  item_count?: number;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Walk a paginated list endpoint and yield its items one at a time.
+ *
+ * Iteration ends when a page comes back empty or shorter than requested, when
+ * `attributes.total` has been reached, or once `maxItems` items have been yielded.
+ * If `signal` is aborted, the next page request rejects with the abort reason.
+ * Page sizes above the API maximum of 1000 are lowered to 1000.
+ *
+ * @param options - Starting position, page size and iteration controls
+ * @param fetchPage - Loads a single page of results
+ * @param indexBase - Index of the first item on the endpoint (`0` for events, `1` everywhere else)
+ */
+export async function* paginate<T>(
+  options: PaginateOptions | undefined,
+  fetchPage: PageFetcher<T>,
+  indexBase: 0 | 1 = 1
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = options?.pageSize ?? options?.item_count ?? DEFAULT_PAGE_SIZE;
+  const maxItems = options?.maxItems ?? Infinity;
+  const signal = options?.signal;
+
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new SWCError('Invalid pagination options: pageSize must be a positive integer.', {
+      type: 'validation',
+    });
+  }
+  if (maxItems !== Infinity && (!Number.isInteger(maxItems) || maxItems < 0)) {
+    throw new SWCError('Invalid pagination options: maxItems must be a non-negative integer.', {
+      type: 'validation',
+    });
+  }
+
+  // A larger request still gets 1000 items, which would look like a short last page
+  const requestSize = Math.min(pageSize, MAX_PAGE_SIZE);
+  let startIndex = options?.start_index ?? indexBase;
+  let yielded = 0;
+
+  while (yielded < maxItems) {
+    signal?.throwIfAborted();
+
+    const page = await fetchPage(startIndex, requestSize);
+    const items = page.items;
+
+    for (const item of items) {
+      if (yielded >= maxItems) {
+        return;
+      }
+      yield item;
+      yielded++;
+    }
+
+    if (items.length === 0 || items.length < requestSize) {
+      return;
+    }
+
+    const pageStart = toNumber(page.attributes?.start) ?? startIndex;
+    const reportedCount = toNumber(page.attributes?.count);
+    const pageCount =
+      reportedCount !== undefined && reportedCount > 0 ? reportedCount : items.length;
+    const total = toNumber(page.attributes?.total);
+
+    if (total !== undefined && pageStart - indexBase + pageCount >= total) {
+      return;
+    }
+
+    startIndex = pageStart + pageCount;
+  }
+}
+
+/**
+ * Drain an async iterable into an array
+ */
+export async function collectAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
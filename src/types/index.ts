@@ -2,6 +2,12 @@
  * Core types and interfaces for SW Combine SDK
  */
 
+import type { TokenStorage } from '../auth/TokenManager.js';
+import type { Timestamp } from '../Timestamp.js';
+import type { TimestampRange } from '../TimestampRange.js';
+import type { Uid } from '../Uid.js';
+import type { SWCError } from '../http/errors.js';
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -15,6 +21,32 @@ export type QueryParams = Record<
   string | number | boolean | string[] | number[] | undefined
 >;
 
+/**
+ * Kind of entity identified by a UID's numeric prefix (e.g. `1:` for characters)
+ */
+export type UidKind =
+  | 'character'
+  | 'ship'
+  | 'vehicle'
+  | 'station'
+  | 'city'
+  | 'facility'
+  | 'item'
+  | 'npc'
+  | 'droid'
+  | 'material'
+  | 'creature'
+  | 'faction'
+  | 'planet'
+  | 'system'
+  | 'sector'
+  | 'message';
+
+/**
+ * A UID string such as `1:12345`, or a parsed `Uid`
+ */
+export type UidLike = string | Uid;
+
 /**
  * Represents a moment in Combine Galactic Time
  */
@@ -31,6 +63,22 @@ export interface TimestampMoment {
   second?: number;
 }
 
+/**
+ * CGT time as the API returns it for messages, credit logs, news, events and faction details.
+ * Endpoints differ in which fields they send and whether `timestamp` is a string or a number.
+ */
+export interface TimeBlob {
+  years?: number;
+  days?: number;
+  hours?: number;
+  mins?: number;
+  secs?: number;
+  /** Unix timestamp in seconds */
+  timestamp?: string | number;
+  /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
+}
+
 /**
  * Duration between two timestamps
  */
@@ -47,6 +95,16 @@ export interface Duration {
   seconds: number;
 }
 
+/**
+ * Options for `DurationUtil.humanize()`
+ */
+export interface HumanizeDurationOptions {
+  /** Show at most this many units, largest first. Default: every non-zero unit */
+  largest?: number;
+  /** Use short unit names (`2d 3h`) instead of long ones (`2 days, 3 hours`). Default: false */
+  short?: boolean;
+}
+
 /**
  * Timestamp format presets
  */
@@ -63,6 +121,21 @@ export type TimestampFormat =
  */
 export type TimestampUnit = 'sec' | 'ms' | 'seconds' | 'milliseconds';
 
+/**
+ * Calendar unit for rounding and stepping through Combine Galactic Time
+ */
+export type TimestampPrecision = 'year' | 'day' | 'hour' | 'minute';
+
+/**
+ * Options for running a `CgtSchedule`
+ */
+export interface CgtScheduleOptions {
+  /** Stop the schedule when aborted */
+  signal?: AbortSignal;
+  /** Called when a run throws or rejects; the schedule keeps running */
+  onError?: (error: unknown, at: Timestamp) => void;
+}
+
 // ============================================================================
 // Enums
 // ============================================================================
@@ -107,6 +180,51 @@ export interface ClientConfig {
   retryDelay?: number;
   /** Enable debug logging */
   debug?: boolean;
+  /**
+   * Queue outgoing requests through a client-side token bucket so calls stay under the
+   * API rate limits. Pass `true` for the defaults (600 requests per hour).
+   */
+  rateLimiter?: boolean | RateLimiterOptions;
+  /**
+   * Cache GET responses for rarely-changing endpoints (types, galaxy sectors/systems, faction list).
+   * Pass `true` for an in-memory cache with the default TTLs.
+   */
+  cache?: boolean | ResponseCacheOptions;
+  /**
+   * Persist OAuth tokens across restarts. The stored token is loaded on startup
+   * and saved after `auth.handleCallback()` and every refresh.
+   */
+  tokenStorage?: TokenStorage;
+  /**
+   * Refresh the token in the background shortly before it expires.
+   * Requires `clientId`/`clientSecret`. Pass `true` to renew 5 minutes before expiry.
+   */
+  autoRefresh?: boolean | AutoRefreshOptions;
+  /** State and PKCE handling for `auth.startFlow()` / `auth.completeFlow()` */
+  oauthFlow?: OAuthFlowOptions;
+  /**
+   * Check each request against the scopes granted to the token and throw before
+   * sending it when a required scope is missing (default: false)
+   */
+  strictScopes?: boolean;
+  /**
+   * Check responses from the main endpoints (`character.me()`, `faction.get()`, planets,
+   * systems, ships, ship types, news items, credit logs) against their schema (default: 'off')
+   */
+  validateResponses?: ValidationMode | ResponseValidationOptions;
+  /**
+   * Attach a parsed `cgt` Timestamp to every time in responses: message and credit log times,
+   * news `posted`, faction `founded`, events and the like (default: false)
+   */
+  cgtTimestamps?: boolean;
+}
+
+/**
+ * Options for background token renewal
+ */
+export interface AutoRefreshOptions {
+  /** Milliseconds before `expiresAt` to refresh the token (default: 300000) */
+  leadTime?: number;
 }
 
 // ============================================================================
@@ -127,6 +245,10 @@ export interface OAuthAuthorizationOptions {
   scopes: string[];
   /** State parameter for CSRF protection */
   state: string;
+  /** PKCE code challenge (RFC 7636) */
+  codeChallenge?: string;
+  /** PKCE challenge method (default: `S256` when `codeChallenge` is set) */
+  codeChallengeMethod?: 'S256' | 'plain';
 }
 
 export interface OAuthCallbackQuery {
@@ -151,6 +273,79 @@ export interface AuthorizationResult {
   state?: string;
 }
 
+/**
+ * An authorization started by `auth.startFlow()` that is waiting for its callback
+ */
+export interface PendingAuthorization {
+  /** Random state sent to the authorization server */
+  state: string;
+  /** Scopes that were requested */
+  scopes: string[];
+  /** PKCE code verifier, when PKCE is enabled */
+  codeVerifier?: string;
+  /** Expiry timestamp (milliseconds since epoch) */
+  expiresAt: number;
+  /** Application data to carry through the flow (e.g. a return URL) */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Storage for pending authorizations. `take()` must remove the entry it returns
+ * so that each state can only be used once.
+ */
+export interface AuthorizationStateStore {
+  save(pending: PendingAuthorization): Promise<void> | void;
+  take(state: string): Promise<PendingAuthorization | undefined> | PendingAuthorization | undefined;
+}
+
+/**
+ * Options for the OAuth state/PKCE helper
+ */
+export interface OAuthFlowOptions {
+  /** Where pending authorizations are kept (default: in-memory) */
+  store?: AuthorizationStateStore;
+  /** How long a pending authorization stays valid in milliseconds (default: 600000) */
+  ttl?: number;
+  /** Send a PKCE challenge and verifier (default: false) */
+  pkce?: boolean;
+}
+
+export interface StartAuthorizationOptions {
+  /** OAuth scopes to request */
+  scopes: string[];
+  /** Application data returned by `completeFlow()` */
+  data?: Record<string, unknown>;
+}
+
+export interface StartAuthorizationResult {
+  /** URL to redirect the user to */
+  url: string;
+  /** Generated state parameter */
+  state: string;
+}
+
+export interface CompleteAuthorizationResult extends AuthorizationResult {
+  /** Application data passed to `startFlow()` */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Options for `authorizeInteractive()`
+ */
+export interface InteractiveAuthorizationOptions {
+  /** OAuth scopes to request */
+  scopes: string[];
+  /**
+   * How to show the authorization URL: `false` prints it (default), `true` also opens
+   * the system browser, a function receives the URL instead.
+   */
+  open?: boolean | ((url: string) => void | Promise<void>);
+  /** Milliseconds to wait for the callback (default: 300000) */
+  timeout?: number;
+  /** Send a PKCE challenge and verifier (default: false) */
+  pkce?: boolean;
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -190,6 +385,8 @@ export interface CharacterMeLastLogin {
   mins?: number;
   secs?: number;
   timestamp?: string;
+  /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
   [key: string]: unknown;
 }
 
@@ -407,6 +604,8 @@ export interface FactionDetailTimestamp {
   mins: number;
   secs: number;
   timestamp: string;
+  /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
   [key: string]: unknown;
 }
 
@@ -514,6 +713,8 @@ export interface MessageTime {
   secs: number;
   /** Unix timestamp string */
   timestamp: string;
+  /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
 }
 
 /**
@@ -594,6 +795,8 @@ export interface CreditLogEntry {
     mins: number;
     secs: number;
     timestamp: string;
+    /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+    cgt?: Timestamp;
   };
   amount: number;
   sender: {
@@ -959,6 +1162,8 @@ export interface NewsPostedTimestamp {
   mins?: number;
   secs?: number;
   timestamp?: number;
+  /** Parsed time, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
 }
 
 /**
@@ -990,6 +1195,8 @@ export interface Event {
   uid: string;
   type: string;
   timestamp: string;
+  /** Parsed `timestamp`, attached when the client's `cgtTimestamps` option is on */
+  cgt?: Timestamp;
   description?: string;
   [key: string]: unknown;
 }
@@ -1005,6 +1212,89 @@ export interface ListResponse<T> {
   hasMore?: boolean;
 }
 
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Pagination metadata returned by list endpoints at `attributes`.
+ * Some endpoints return these values as strings.
+ */
+export interface PageAttributes {
+  start?: number | string;
+  total?: number | string;
+  count?: number | string;
+  [key: string]: unknown;
+}
+
+/**
+ * Options accepted by `iterate()` and `listAll()` on paginated list resources.
+ */
+export interface PaginationOptions {
+  /** Number of items to request per page. Defaults to `item_count`, then 50 */
+  pageSize?: number;
+  /** Stop after this many items have been yielded */
+  maxItems?: number;
+  /** Abort iteration; checked before each page is requested */
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Batch Requests
+// ============================================================================
+
+/**
+ * One operation in a batch, e.g. `() => client.character.get({ uid })`
+ */
+export type BatchOperation<T = unknown> = () => Promise<T>;
+
+/**
+ * Outcome of one batch operation, in the same position as the operation
+ */
+export type BatchResult<T> =
+  | { status: 'fulfilled'; value: T; attempts: number }
+  | { status: 'rejected'; error: SWCError; attempts: number };
+
+/**
+ * Progress reported after each batch operation settles
+ */
+export interface BatchProgress {
+  /** Position of the operation that just settled */
+  index: number;
+  /** Operations settled so far */
+  completed: number;
+  succeeded: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Options for `client.batch()`
+ */
+export interface BatchOptions {
+  /** Maximum number of operations running at once. Default: 4 */
+  concurrency?: number;
+  /**
+   * Times to retry an operation that failed with a retryable error. Requests made by batch
+   * operations are not retried by the client (`maxRetries`). Default: 2
+   */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry. Default: 1000 */
+  retryDelay?: number;
+  /**
+   * Requests to leave unused in the hourly budget. Once the rate limit headers report this many
+   * or fewer remaining, new operations wait for the window to reset. Default: 0
+   */
+  reserve?: number;
+  /** Called after each operation settles */
+  onProgress?: (progress: BatchProgress) => void;
+  /**
+   * Stop starting new operations. Operations in flight finish; the rest settle as rejected
+   * with the abort reason
+   */
+  signal?: AbortSignal;
+}
+
 // ============================================================================
 // Rate Limit Types
 // ============================================================================
@@ -1024,6 +1314,117 @@ export interface RateLimitInfo {
   resetTime: string;
 }
 
+/**
+ * Scheduling lane for queued requests. `interactive` requests are dispatched
+ * ahead of `background` requests whenever budget becomes available.
+ */
+export type RequestPriority = 'interactive' | 'background';
+
+/**
+ * Options for the client-side request scheduler
+ */
+export interface RateLimiterOptions {
+  /** Requests allowed per window (default: 600) */
+  limit?: number;
+  /** Length of the rate limit window in milliseconds (default: 3600000) */
+  windowMs?: number;
+  /** Maximum number of requests that may be sent back-to-back (default: `limit`) */
+  burst?: number;
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * A cached GET response
+ */
+export interface CacheEntry {
+  /** Unwrapped response body */
+  value: unknown;
+  /** Expiry timestamp (milliseconds since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  /** List every stored key (used by `invalidate()`) */
+  keys(): Promise<string[]> | string[];
+  clear(): Promise<void> | void;
+}
+
+/**
+ * Options for the response cache
+ */
+export interface ResponseCacheOptions {
+  /** Storage backend (default: in-memory LRU with 500 entries) */
+  store?: CacheStore;
+  /**
+   * TTL in milliseconds per endpoint pattern, e.g. `{ '/types': 86400000, '/character/*': 0 }`.
+   * Merged over the defaults; a TTL of 0 disables caching for that pattern.
+   * Only endpoints matching a pattern are cached.
+   */
+  ttl?: Record<string, number>;
+}
+
+/**
+ * Response cache hit/miss counters
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// ============================================================================
+// Response Validation
+// ============================================================================
+
+/**
+ * How responses are checked against their schema:
+ * `strict` throws an `SWCSchemaError`, `warn` reports the problems and returns the data,
+ * `off` skips validation
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * A field that does not match its schema
+ */
+export interface ValidationIssue {
+  /** Path to the field, e.g. `value.hull.attributes.max` (empty for the response itself) */
+  path: string;
+  /** Expected type, e.g. `number` or `'yes' | 'no'` */
+  expected: string;
+  /** Type that was received, e.g. `string` or `undefined` */
+  received: string;
+}
+
+/**
+ * Schema problems found in one response
+ */
+export interface ValidationReport {
+  /** Schema the response was checked against, e.g. `ShipEntity` */
+  schema: string;
+  method: string;
+  endpoint: string;
+  /** Request ID from the `X-Request-Id` response header */
+  requestId?: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Options for response validation
+ */
+export interface ResponseValidationOptions {
+  mode: ValidationMode;
+  /** Called with each report in `warn` mode (default: `console.warn`) */
+  onIssue?: (report: ValidationReport) => void;
+}
+
 // ============================================================================
 // API Error Response
 // ============================================================================
@@ -2187,75 +2588,804 @@ export interface TypesEntityGetResponseMap {
 }
 
 // ============================================================================
-// Request Options Types
+// Normalized Models
 // ============================================================================
 
-export interface GetCharacterOptions {
+/**
+ * Flat reference to another object, replacing `{ attributes: { uid, href }, value }`
+ */
+export interface Ref {
   uid: string;
+  name: string;
+  href?: string;
+  /** Kind of object, when the API provides it (e.g. `sector`) */
+  type?: string;
+  /** Referenced object, added by `client.hydrate()` */
+  resolved?: unknown;
 }
 
-export interface GetCharacterByHandleOptions {
-  handle: string;
+/**
+ * Numeric x/y position
+ */
+export interface Coordinates {
+  x: number;
+  y: number;
 }
 
-export interface ListMessagesOptions {
-  uid: string;
-  /** Message mode: 'sent' or 'received'. If omitted, returns both sent and received messages. */
-  mode?: MessageMode;
-  start_index?: number;
-  item_count?: number;
+/**
+ * Numeric positions of an object at each level of the map
+ */
+export interface LocationCoordinates {
+  galaxy?: Coordinates;
+  system?: Coordinates;
+  surface?: Coordinates;
+  ground?: Coordinates;
 }
 
-export interface GetMessageOptions {
-  uid: string;
-  messageId: string;
+/**
+ * Stat with a current and maximum value (hull, shield, ionic)
+ */
+export interface Stat {
+  value: number;
+  max: number;
 }
 
-export interface DeleteMessageOptions {
-  uid: string;
-  messageId: string;
+/**
+ * Where an object is, with empty location levels left out
+ */
+export interface LocationModel {
+  container?: Ref;
+  sector?: Ref;
+  system?: Ref;
+  planet?: Ref;
+  city?: Ref;
+  coordinates?: LocationCoordinates;
 }
 
-export interface CreateMessageOptions {
+/**
+ * Normalized character. Unlisted fields are kept, converted with the same rules.
+ */
+export interface CharacterModel {
   uid: string;
-  /**
-   * Semicolon-separated list of recipient character handles (max 25).
-   * Example: 'handle1;handle2'
-   */
-  receivers: string;
-  /** Message text content */
-  communication: string;
+  name: string;
+  image?: string;
+  gender?: string;
+  shortdescription?: string;
+  biography?: string;
+  race?: Ref;
+  health?: number;
+  healthMax?: number;
+  xp?: number;
+  xpLevel?: number;
+  /** From `force.attributes.isAware` */
+  forceAware?: boolean;
+  faction?: Ref;
+  factions?: Array<Ref & { primary?: boolean }>;
+  location?: LocationModel;
+  /** From `credits.value` */
+  credits?: number;
+  lastlogin?: Timestamp;
+  [key: string]: unknown;
 }
 
-export interface GetCharacterSkillsOptions {
+/**
+ * Normalized faction
+ */
+export interface FactionModel {
   uid: string;
+  name: string;
+  isbasic?: boolean;
+  parent?: Ref;
+  description?: string;
+  category?: string;
+  colour?: { r: number; g: number; b: number };
+  leader?: Ref;
+  secondincommand?: Ref;
+  founded?: Timestamp;
+  ircroom?: string;
+  homepage?: string;
+  recruitmentliaisons?: Ref[];
+  modules?: Ref[];
+  images?: { logo?: string; horizontalbanner?: string; verticalbanner?: string };
+  [key: string]: unknown;
 }
 
-export interface GetCharacterPrivilegesOptions {
+/**
+ * Normalized planet
+ */
+export interface PlanetModel {
   uid: string;
+  name: string;
+  description?: string;
+  controlledby?: Ref;
+  governor?: Ref;
+  magistrate?: Ref;
+  type?: Ref;
+  size?: number;
+  /** City references, when the API lists them */
+  cities?: Ref[];
+  location?: LocationModel;
+  population?: number;
+  hireablepopulation?: number;
+  civilisationlevel?: number;
+  taxlevel?: number;
+  [key: string]: unknown;
 }
 
-export interface GetCharacterCreditsOptions {
+/**
+ * Normalized system
+ */
+export interface SystemModel {
   uid: string;
+  name: string;
+  description?: string;
+  controlledby?: Ref;
+  planets?: Ref[];
+  stations?: Ref[];
+  location?: LocationModel;
+  population?: number;
+  [key: string]: unknown;
 }
 
-export interface GetCharacterCreditlogOptions {
+/**
+ * Normalized sector
+ */
+export interface SectorModel {
   uid: string;
-  /** Starting position for pagination (1-based). Default: 1 */
-  start_index?: number;
-  /** Number of items to retrieve. Default: 50, Max: 1000 */
-  item_count?: number;
-  /** Oldest transaction ID threshold (1 = oldest 1000, 0/default = newest 1000) */
-  start_id?: number;
+  name: string;
+  controlledby?: Ref;
+  population?: number;
+  colour?: { r: number; g: number; b: number };
+  systems?: Ref[];
+  /** Corner points of the sector */
+  coordinates?: Coordinates[];
+  [key: string]: unknown;
 }
 
-export interface GetCharacterPermissionsOptions {
+/**
+ * Normalized station
+ */
+export interface StationModel {
   uid: string;
+  name: string;
+  type?: Ref;
+  owner?: Ref;
+  location?: LocationModel;
+  underconstruction?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Normalized city
+ */
+export interface CityModel {
+  uid: string;
+  name: string;
+  location?: LocationModel;
+  [key: string]: unknown;
+}
+
+/**
+ * Normalized inventory entity, unwrapped from `{ attributes: { href }, value }`
+ */
+export interface EntityModel {
+  uid: string;
+  href?: string;
+  entitytype?: string;
+  name?: string;
+  type?: Ref;
+  owner?: Ref;
+  commander?: Ref;
+  pilot?: Ref;
+  infotext?: string;
+  protected?: boolean;
+  wrecked?: boolean;
+  underconstruction?: boolean;
+  hull?: Stat;
+  shield?: Stat;
+  ionic?: Stat;
+  location?: LocationModel;
+  tags?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Normalized entity type from `/types/:entityType/:uid`
+ */
+export interface TypesEntityModel {
+  uid: string;
+  name: string;
+  description?: string;
+  /** Entity class (e.g. the ship class) */
+  class?: Ref;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Route Planning
+// ============================================================================
+
+/**
+ * Start or end of a route: a system UID or name, or galaxy coordinates
+ */
+export type RoutePoint = UidLike | Coordinates;
+
+/**
+ * System or point in space along a route
+ */
+export interface RouteStop extends Coordinates {
+  /** System UID, when the stop is a system */
+  uid?: string;
+  /** System name, when the stop is a system */
+  name?: string;
+}
+
+/**
+ * One hop of a route, along a hyperlane or as a straight-line jump
+ */
+export interface RouteLeg {
+  from: RouteStop;
+  to: RouteStop;
+  via: 'hyperlane' | 'jump';
+  /** Straight-line distance in galaxy coordinates, or the lane length in blocks */
+  distance: number;
+  /** Hyperspeed multiplier of the lane (1 for jumps) */
+  modifier: number;
+  /** Estimated travel time in seconds */
+  seconds: number;
+}
+
+/**
+ * Route between two points, as returned by `galaxy.routes.plan()`
+ */
+export interface Route {
+  legs: RouteLeg[];
+  /** Total distance of all legs */
+  distance: number;
+  /** Total estimated travel time in seconds */
+  seconds: number;
+}
+
+/**
+ * Options for planning a route
+ */
+export interface RouteOptions {
+  /** Ship hyperspeed. Default: 1 */
+  hyperspeed?: number;
+  /** Minimize distance (`shortest`) or travel time, taking lane modifiers into account (`cheapest`). Default: `cheapest` */
+  optimize?: 'shortest' | 'cheapest';
+  /** Longest allowed straight-line jump, in galaxy coordinates. Default: no limit */
+  maxJump?: number;
+  /** Seconds to travel one galaxy coordinate at hyperspeed 1. Default: 3600 */
+  secondsPerUnit?: number;
+}
+
+/**
+ * Options for `galaxy.routes.load()`
+ */
+export interface LoadRouteGraphOptions {
+  /**
+   * Fetch each system's details to read its hyperlanes (one request per system, sent through
+   * `client.batch()` pacing). Without this, routes use straight-line jumps only. Default: false
+   */
+  hyperlanes?: boolean;
+  /** Concurrent system requests when loading hyperlanes. Default: 4 */
+  concurrency?: number;
+}
+
+// ============================================================================
+// Galaxy Snapshot
+// ============================================================================
+
+/**
+ * Galaxy collections crawled by `galaxy.snapshot()`, in crawl order
+ */
+export type GalaxySnapshotCollection = 'sectors' | 'systems' | 'planets' | 'stations' | 'cities';
+
+/**
+ * Every sector, system, planet, station and city in the galaxy, as listed by the API
+ */
+export interface GalaxySnapshot {
+  /** Snapshot format version */
+  version: 1;
+  /** ISO 8601 time the crawl started */
+  createdAt: string;
+  sectors: GalaxySectorListItem[];
+  systems: GalaxySystemListItem[];
+  planets: GalaxyPlanetListItem[];
+  stations: GalaxyStationListItem[];
+  cities: GalaxyCityListItem[];
+}
+
+/**
+ * Crawl progress reported after each page
+ */
+export interface GalaxySnapshotProgress {
+  collection: GalaxySnapshotCollection;
+  /** Items fetched so far in this collection */
+  fetched: number;
+  /** Items in this collection, when the API reports it */
+  total?: number;
+}
+
+/**
+ * Options for `galaxy.snapshot()`
+ */
+export interface GalaxySnapshotOptions {
+  /** Write the finished snapshot to this file */
+  file?: string;
+  /** Output format. Default: `ndjson` for `.ndjson` files, `json` otherwise */
+  format?: 'json' | 'ndjson';
+  /**
+   * Save crawl progress to this file after every page, and resume from it if it exists.
+   * Fetched items go to `<checkpointFile>.<collection>.ndjson` alongside it. The files are
+   * removed once the snapshot is complete
+   */
+  checkpointFile?: string;
+  /** Items requested per page. Default: 1000, the most the API returns */
+  pageSize?: number;
+  /** Called after every page */
+  onProgress?: (progress: GalaxySnapshotProgress) => void;
+  /** Abort the crawl; progress saved so far stays in the checkpoint file */
+  signal?: AbortSignal;
+}
+
+/**
+ * Kind of place in a `GalaxyIndex`
+ */
+export type GalaxyPlaceKind = 'sector' | 'system' | 'planet' | 'station' | 'city';
+
+/**
+ * Sector, system, planet, station or city in a `GalaxyIndex`
+ */
+export interface GalaxyPlace {
+  kind: GalaxyPlaceKind;
+  uid: string;
+  name: string;
+  /** UID of the containing sector, system or planet */
+  parent?: string;
+  /** Galaxy coordinates of the place, or of the system it is in */
+  galaxy?: Coordinates;
+  /** Position within its system */
+  system?: Coordinates;
+  /** Position on its planet's surface */
+  surface?: Coordinates;
+  /** Controlling faction */
+  controlledBy?: { uid?: string; name: string };
+  /** List item the place was built from */
+  data:
+    | GalaxySectorListItem
+    | GalaxySystemListItem
+    | GalaxyPlanetListItem
+    | GalaxyStationListItem
+    | GalaxyCityListItem;
+}
+
+// ============================================================================
+// Spatial Queries
+// ============================================================================
+
+/**
+ * System in a `SpatialIndex`, at its galaxy coordinates
+ */
+export interface SpatialSystem extends Coordinates {
+  uid: string;
+  name: string;
+  /** UID of the sector the system is in, when known */
+  sector?: string;
+}
+
+/**
+ * Sector in a `SpatialIndex`
+ */
+export interface SpatialSector {
+  uid: string;
+  name: string;
+  /** Outline in galaxy coordinates; empty when only the sector list was loaded */
+  polygon: Coordinates[];
+}
+
+/**
+ * System found by a radius search
+ */
+export interface SystemDistance {
+  system: SpatialSystem;
+  /** Distance from the search center, in galaxy coordinates (parsecs) */
+  distance: number;
+}
+
+/**
+ * Options for `galaxy.loadSpatialIndex()`
+ */
+export interface LoadSpatialIndexOptions {
+  /** Concurrent sector requests when loading sector outlines. Default: 4 */
+  concurrency?: number;
+}
+
+// ============================================================================
+// Planet Surface
+// ============================================================================
+
+/**
+ * Terrain type of a surface tile, linked to its `types.entities` terrain type when known
+ */
+export interface SurfaceTerrain {
+  /** Single-character code used in `Planet.terrainmap` */
+  code: string;
+  /** Terrain type UID */
+  uid?: string;
+  /** Terrain type name, such as `Forest` */
+  name?: string;
+  /** Matching terrain type from `types.entities.list({ entityType: 'terrain' })` or `get()` */
+  type?: TypesEntityListItem | TypesTerrainEntity;
+}
+
+/**
+ * City on a planet's surface grid
+ */
+export interface SurfaceCity extends Coordinates {
+  uid: string;
+  name: string;
+}
+
+/**
+ * One cell of a planet's surface grid
+ */
+export interface SurfaceTile extends Coordinates {
+  terrain?: SurfaceTerrain;
+  /** City built on the tile */
+  city?: SurfaceCity;
+}
+
+/**
+ * Number of tiles of one terrain type
+ */
+export interface TerrainCount {
+  terrain: SurfaceTerrain;
+  count: number;
+}
+
+/**
+ * Options for `galaxy.planets.surface()`
+ */
+export interface GetPlanetSurfaceOptions extends GetPlanetOptions {
+  /** Terrain types to link tiles to. Default: fetched once with `types.entities.listAll()` */
+  terrainTypes?: Array<TypesEntityListItem | TypesTerrainEntity>;
+}
+
+// ============================================================================
+// Credit Ledger
+// ============================================================================
+
+/**
+ * Where a `CreditLedger` keeps its synced entries between runs
+ */
+export interface CreditLedgerStore {
+  /** Load saved entries, or null if nothing was saved yet */
+  load(): Promise<CreditLogEntry[] | null> | CreditLogEntry[] | null;
+  /** Replace the saved entries */
+  save(entries: CreditLogEntry[]): Promise<void> | void;
+}
+
+/**
+ * Fetch up to `itemCount` credit log entries with a transaction ID of at least `startId`
+ */
+export type CreditLogFetcher = (startId: number, itemCount: number) => Promise<CreditLogEntry[]>;
+
+export interface CreditLedgerOptions {
+  /** Store to load entries from and save them to. Default: memory only */
+  store?: CreditLedgerStore;
+  /** Source for `sync()`; set by `character.creditlog.ledger()` and `faction.creditlog.ledger()` */
+  fetchPage?: CreditLogFetcher;
+}
+
+export interface CreditLedgerSyncOptions {
+  /** Stop syncing between pages; entries fetched so far are kept and saved */
+  signal?: AbortSignal;
+  /** Called after each page with the number of entries the ledger holds */
+  onProgress?: (size: number) => void;
+}
+
+/**
+ * Options for `character.creditlog.ledger()`
+ */
+export interface GetCharacterCreditLedgerOptions {
+  uid: UidLike;
+  /** Store to load entries from and save them to. Default: memory only */
+  store?: CreditLedgerStore;
+}
+
+/**
+ * Options for `faction.creditlog.ledger()`
+ */
+export interface GetFactionCreditLedgerOptions {
+  factionId: UidLike;
+  /** Store to load entries from and save them to. Default: memory only */
+  store?: CreditLedgerStore;
+}
+
+/**
+ * Criteria for `CreditLedger` entries; an entry must match all of them
+ */
+export interface CreditLedgerFilter {
+  /** Smallest amount, inclusive */
+  minAmount?: number;
+  /** Largest amount, inclusive */
+  maxAmount?: number;
+  /** Other party's UID or name (ignoring case) */
+  counterparty?: UidLike;
+  /** Text in the communication (ignoring case), or a pattern it must match */
+  text?: string | RegExp;
+  /** Credits received (`in`) or sent (`out`) by the ledger's owner */
+  direction?: 'in' | 'out';
+  /** Only entries within this range of CGT */
+  range?: TimestampRange;
+  /** Smallest transaction ID, inclusive */
+  minTransactionId?: number;
+  /** Largest transaction ID, inclusive */
+  maxTransactionId?: number;
+}
+
+/**
+ * Owner's balance after a transaction
+ */
+export interface CreditBalancePoint {
+  transactionId: number;
+  time: Timestamp;
+  /** Signed change: positive when the owner received credits */
+  change: number;
+  balance: number;
+}
+
+/**
+ * Options for `CreditLedger.balanceHistory()`
+ */
+export interface CreditBalanceHistoryOptions {
+  /** Balance before the first entry. Default: 0 */
+  openingBalance?: number;
+  /** Current balance, e.g. from `character.credits.get()`, to work the opening balance out from */
+  closingBalance?: number;
+}
+
+/**
+ * Credits exchanged with one other party
+ */
+export interface CounterpartyFlow {
+  uid?: string;
+  name: string;
+  /** Credits received from the party */
+  incoming: number;
+  /** Credits sent to the party */
+  outgoing: number;
+  /** `incoming - outgoing` */
+  net: number;
+  count: number;
+}
+
+/**
+ * Period for `CreditLedger.aggregate()`. CGT weeks are days 1-7, 8-14, ... of the year,
+ * so week 53 is day 365 alone.
+ */
+export type CreditLedgerPeriod = 'day' | 'week';
+
+/**
+ * Credit flow over one CGT day or week
+ */
+export interface CreditPeriodTotal {
+  range: TimestampRange;
+  incoming: number;
+  outgoing: number;
+  net: number;
+  count: number;
+}
+
+// ============================================================================
+// Faction Treasury
+// ============================================================================
+
+/**
+ * Options for `faction.treasury()`
+ */
+export interface GetFactionTreasuryOptions {
+  factionId: UidLike;
+  /** Store for the faction's credit log, so each snapshot only fetches new transactions */
+  ledgerStore?: CreditLedgerStore;
+  /** Outflows of at least this many credits are flagged. Default: 1,000,000 */
+  largeOutflow?: number;
+  /** Largest difference between expected and actual credits that is not flagged. Default: 0 */
+  tolerance?: number;
+}
+
+/**
+ * Budget as recorded in a treasury snapshot
+ */
+export interface TreasuryBudget {
+  uid: string;
+  name: string;
+  amount: number;
+}
+
+/**
+ * Faction credits and budgets at one moment. Plain JSON, so snapshots can be saved and
+ * compared in a later run.
+ */
+export interface TreasurySnapshot {
+  factionId: string;
+  /** When the snapshot was taken, in unix milliseconds */
+  takenAt: number;
+  credits: number;
+  budgets: TreasuryBudget[];
+  /** Newest credit log transaction when the snapshot was taken, or 0 for an empty log */
+  lastTransactionId: number;
+}
+
+/**
+ * How one budget changed between two snapshots. `opening` or `closing` is missing for
+ * budgets that were created or removed in between.
+ */
+export interface TreasuryBudgetChange {
+  uid: string;
+  name: string;
+  opening?: number;
+  closing?: number;
+  change: number;
+}
+
+export type TreasuryFlagKind =
+  | 'discrepancy'
+  | 'budgets-exceed-credits'
+  | 'large-outflow'
+  | 'non-member-transfer';
+
+/**
+ * Something for a treasurer to look at
+ */
+export interface TreasuryFlag {
+  kind: TreasuryFlagKind;
+  message: string;
+  /** Credits involved: the discrepancy, the excess or the transferred amount */
+  amount: number;
+  transactionId?: number;
+  time?: Timestamp;
+  counterparty?: { uid?: string; name: string };
+}
+
+/**
+ * Reconciliation of two treasury snapshots against the credit log between them
+ */
+export interface TreasuryReport {
+  factionId: string;
+  from: TreasurySnapshot;
+  to: TreasurySnapshot;
+  /** CGT span between the snapshots */
+  range: TimestampRange;
+  openingCredits: number;
+  closingCredits: number;
+  incoming: number;
+  outgoing: number;
+  /** Opening credits plus the net flow of the credit log */
+  expectedCredits: number;
+  /** `closingCredits - expectedCredits`; non-zero when the log does not explain the balance */
+  discrepancy: number;
+  /** Credit log entries between the snapshots, oldest first */
+  transactions: CreditLogEntry[];
+  budgets: TreasuryBudgetChange[];
+  /** Credits exchanged with each party between the snapshots */
+  counterparties: CounterpartyFlow[];
+  flags: TreasuryFlag[];
+}
+
+// ============================================================================
+// Reference Resolution
+// ============================================================================
+
+/**
+ * Reference as embedded in API responses, e.g. `{ attributes: { uid, href }, value: 'Luke' }`
+ */
+export interface RawReference {
+  attributes: {
+    uid?: string;
+    href?: string;
+    [key: string]: unknown;
+  };
+  value?: unknown;
+  /** Referenced object, added by `client.hydrate()` */
+  resolved?: unknown;
+}
+
+/**
+ * Anything `client.resolve()` can look up: a UID, a `Ref` or an embedded reference
+ */
+export type ReferenceLike = UidLike | Pick<Ref, 'uid' | 'href'> | RawReference;
+
+/**
+ * Options for `client.hydrate()`
+ */
+export interface HydrateOptions {
+  /**
+   * How many levels of references to follow. 1 (default) resolves the references in the
+   * object; 2 also resolves the references in the resolved objects, and so on.
+   */
+  depth?: number;
+  /**
+   * Only resolve references at these dotted paths (e.g. `owner`, `location.system`).
+   * `*` matches any one key; array indexes are skipped. Default: every reference.
+   */
+  paths?: string[];
+  /** Leave references that fail to resolve unresolved instead of rejecting */
+  ignoreErrors?: boolean;
+}
+
+// ============================================================================
+// Request Options Types
+// ============================================================================
+
+export interface GetCharacterOptions {
+  uid: UidLike;
+}
+
+export interface GetCharacterByHandleOptions {
+  handle: string;
+}
+
+export interface ListMessagesOptions {
+  uid: UidLike;
+  /** Message mode: 'sent' or 'received'. If omitted, returns both sent and received messages. */
+  mode?: MessageMode;
+  start_index?: number;
+  item_count?: number;
+}
+
+export interface GetMessageOptions {
+  uid: UidLike;
+  messageId: string;
+}
+
+export interface DeleteMessageOptions {
+  uid: UidLike;
+  messageId: string;
+}
+
+export interface CreateMessageOptions {
+  uid: UidLike;
+  /**
+   * Semicolon-separated list of recipient character handles (max 25).
+   * Example: 'handle1;handle2'
+   */
+  receivers: string;
+  /** Message text content */
+  communication: string;
+}
+
+export interface GetCharacterSkillsOptions {
+  uid: UidLike;
+}
+
+export interface GetCharacterPrivilegesOptions {
+  uid: UidLike;
+}
+
+export interface GetCharacterCreditsOptions {
+  uid: UidLike;
+}
+
+export interface GetCharacterCreditlogOptions {
+  uid: UidLike;
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50, Max: 1000 */
+  item_count?: number;
+  /** Oldest transaction ID threshold (1 = oldest 1000, 0/default = newest 1000) */
+  start_id?: number;
+}
+
+export interface GetCharacterPermissionsOptions {
+  uid: UidLike;
 }
 
 export interface GetFactionOptions {
   /** Faction UID. If omitted, defaults to the authenticated user's primary faction. */
-  uid?: string;
+  uid?: UidLike;
 }
 
 export interface ListFactionsOptions {
@@ -2266,7 +3396,37 @@ export interface ListFactionsOptions {
 }
 
 export interface ListFactionMembersOptions {
-  factionId: string;
+  factionId: UidLike;
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50 */
+  item_count?: number;
+}
+
+export interface ListFactionBudgetsOptions {
+  factionId: UidLike;
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50 */
+  item_count?: number;
+}
+
+export interface ListFactionStockholdersOptions {
+  factionId: UidLike;
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50 */
+  item_count?: number;
+}
+
+export interface ListFactionCreditlogOptions {
+  factionId: UidLike;
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50, Max: 1000 */
+  item_count?: number;
+  /** Oldest transaction ID threshold (1 = oldest 1000, 0/default = newest 1000) */
+  start_id?: number;
 }
 
 export interface GetFactionBudgetOptions {
@@ -2275,11 +3435,11 @@ export interface GetFactionBudgetOptions {
 }
 
 export interface GetFactionCreditsOptions {
-  factionId: string;
+  factionId: UidLike;
 }
 
 export interface TransferFactionCreditsOptions {
-  factionId: string;
+  factionId: UidLike;
   amount: number;
   recipient: string;
   budget?: string;
@@ -2287,29 +3447,58 @@ export interface TransferFactionCreditsOptions {
 }
 
 export interface GetPlanetOptions {
-  uid: string;
+  uid: UidLike;
 }
 
 export interface GetSectorOptions {
-  uid: string;
+  uid: UidLike;
 }
 
 export interface GetSystemOptions {
-  uid: string;
+  uid: UidLike;
 }
 
 export interface GetStationOptions {
-  uid: string;
+  uid: UidLike;
 }
 
 export interface GetCityOptions {
-  uid: string;
+  uid: UidLike;
 }
 
 export interface GetVendorOptions {
   uid: string;
 }
 
+export interface ListVendorsOptions {
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50 */
+  item_count?: number;
+}
+
+export interface ListGalaxyOptions {
+  /** Starting position for pagination (1-based). Default: 1 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50 */
+  item_count?: number;
+}
+
+export interface ListEventsOptions {
+  /** Event mode: 'personal', 'faction', 'inventory', or 'combat' */
+  eventMode: string;
+  /** Event type filter (optional, only for personal/faction modes) */
+  eventType?: string;
+  /** Starting position (0-based). Default: 0 */
+  start_index?: number;
+  /** Number of items to retrieve. Default: 50, Max: 1000 */
+  item_count?: number;
+  /** Unix timestamp to filter events after this time */
+  start_time?: number;
+  /** Faction ID for faction mode */
+  faction_id?: string;
+}
+
 export interface GetNewsItemOptions {
   /** News item ID from list results (`attributes.id`) */
   id: string | number;
@@ -2360,11 +3549,11 @@ export interface ListNewsOptions extends ListGNSOptions {}
 
 export interface GetEntityOptions {
   entityType: string;
-  uid: string;
+  uid: UidLike;
 }
 
 export interface ListInventoryEntitiesOptions<T extends InventoryEntityType = InventoryEntityType> {
-  uid: string;
+  uid: UidLike;
   /** Entity type: 'ships', 'vehicles', 'stations', 'cities', 'facilities', 'planets', 'items', 'npcs', 'droids', 'creatures', or 'materials' */
   entityType: T;
   /** Assignment type: 'owner', 'commander', or 'pilot' */
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { SWCombine, SWCError, OAuthClient, authorizeInteractive } from '../../src/index.js';
+
+/**
+ * Find a port that is free right now
+ */
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+describe('authorizeInteractive', () => {
+  let tokenEndpoint: Server;
+  let tokenRequests: URLSearchParams[];
+  /** Holds back token responses until it resolves */
+  let tokenGate: Promise<unknown> | undefined;
+  let oauthClient: OAuthClient;
+  let redirectUri: string;
+
+  beforeEach(async () => {
+    tokenRequests = [];
+    tokenGate = undefined;
+    tokenEndpoint = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', async () => {
+        tokenRequests.push(new URLSearchParams(body));
+        await tokenGate;
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(
+          JSON.stringify({ access_token: 'access', refresh_token: 'refresh', expires_in: 3600 })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => tokenEndpoint.listen(0, '127.0.0.1', resolve));
+
+    redirectUri = `http://127.0.0.1:${await freePort()}/callback`;
+    oauthClient = new OAuthClient({
+      clientId: 'id',
+      clientSecret: 'secret',
+      redirectUri,
+      tokenEndpoint: `http://127.0.0.1:${(tokenEndpoint.address() as AddressInfo).port}/token`,
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise((resolve) => tokenEndpoint.close(resolve));
+  });
+
+  it('exchanges the code from the loopback callback for a token', async () => {
+    let browser: Promise<Response> | undefined;
+
+    const token = await authorizeInteractive(oauthClient, {
+      scopes: ['character_read'],
+      pkce: true,
+      open: (url) => {
+        const state = new URL(url).searchParams.get('state');
+        browser = fetch(`${redirectUri}?code=abc&state=${state}`);
+      },
+    });
+
+    expect(token).toMatchObject({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(tokenRequests[0].get('code')).toBe('abc');
+    expect(tokenRequests[0].get('redirect_uri')).toBe(redirectUri);
+    expect(tokenRequests[0].get('code_verifier')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect((await browser!).status).toBe(200);
+  });
+
+  it('answers repeated callbacks with 409 and still closes', async () => {
+    let release!: () => void;
+    tokenGate = new Promise<void>((resolve) => (release = resolve));
+    const browsers: Array<Promise<Response>> = [];
+
+    const token = await authorizeInteractive(oauthClient, {
+      scopes: ['character_read'],
+      open: (url) => {
+        const state = new URL(url).searchParams.get('state');
+        for (let i = 0; i < 2; i++) {
+          // Only the repeated callback can be answered before the token exchange finishes
+          browsers.push(
+            fetch(`${redirectUri}?code=abc&state=${state}`).then((response) => {
+              release();
+              return response;
+            })
+          );
+        }
+      },
+    });
+
+    expect(token.accessToken).toBe('access');
+    const statuses = (await Promise.all(browsers)).map((response) => response.status);
+    expect(statuses.sort()).toEqual([200, 409]);
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  it('rejects callbacks with the wrong state', async () => {
+    let browser: Promise<Response> | undefined;
+
+    const authorization = authorizeInteractive(oauthClient, {
+      scopes: ['character_read'],
+      open: () => {
+        browser = fetch(`${redirectUri}?code=abc&state=forged`);
+      },
+    });
+
+    await expect(authorization).rejects.toMatchObject({ type: 'auth' });
+    expect(tokenRequests).toHaveLength(0);
+    expect((await browser!).status).toBe(400);
+  });
+
+  it('rejects denied authorizations', async () => {
+    const authorization = authorizeInteractive(oauthClient, {
+      scopes: ['character_read'],
+      open: (url) => {
+        const state = new URL(url).searchParams.get('state');
+        void fetch(`${redirectUri}?error=access_denied&state=${state}`);
+      },
+    });
+
+    await expect(authorization).rejects.toThrow('Authorization failed: access_denied');
+  });
+
+  it('times out when no callback arrives', async () => {
+    const authorization = authorizeInteractive(oauthClient, {
+      scopes: ['character_read'],
+      timeout: 50,
+      open: () => undefined,
+    });
+
+    await expect(authorization).rejects.toThrow('Timed out');
+  });
+
+  it('requires a loopback redirect URI', async () => {
+    const remote = new OAuthClient({
+      clientId: 'id',
+      clientSecret: 'secret',
+      redirectUri: 'https://example.com/callback',
+    });
+
+    await expect(authorizeInteractive(remote, { scopes: [] })).rejects.toBeInstanceOf(SWCError);
+  });
+
+  it('stores the token with client.auth.authorizeInteractive()', async () => {
+    vi.spyOn(OAuthClient.prototype, 'handleCallback').mockResolvedValue({
+      success: true,
+      token: { accessToken: 'interactive', expiresAt: 1 },
+    });
+    const client = new SWCombine({ clientId: 'id', clientSecret: 'secret', redirectUri });
+
+    await client.auth.authorizeInteractive({
+      scopes: ['character_read'],
+      open: (url) => {
+        const state = new URL(url).searchParams.get('state');
+        void fetch(`${redirectUri}?code=abc&state=${state}`);
+      },
+    });
+
+    expect(client.getToken()?.accessToken).toBe('interactive');
+  });
+});
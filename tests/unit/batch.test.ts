@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { AxiosError } from 'axios';
+import {
+  SWCError,
+  SWCNotFoundError,
+  SWCRateLimitError,
+  SWCServerError,
+  SWCombine,
+} from '../../src/index.js';
+import type { BatchProgress } from '../../src/index.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('client.batch', () => {
+  it('bounds concurrency and returns results in input order', async () => {
+    const client = new SWCombine();
+    let running = 0;
+    let maxRunning = 0;
+    const progress: BatchProgress[] = [];
+
+    const results = await client.batch(
+      [30, 5, 20, 1, 10].map((ms, index) => async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(ms);
+        running--;
+        return index;
+      }),
+      { concurrency: 2, onProgress: (update) => progress.push(update) }
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(results.map((result) => result.status === 'fulfilled' && result.value)).toEqual([
+      0, 1, 2, 3, 4,
+    ]);
+    expect(progress).toHaveLength(5);
+    expect(progress[4]).toMatchObject({ completed: 5, succeeded: 5, failed: 0, total: 5 });
+  });
+
+  it('retries retryable failures and settles the rest as SWCError', async () => {
+    const client = new SWCombine();
+    const flaky = vi
+      .fn()
+      .mockRejectedValueOnce(new SWCServerError('Bad gateway', { statusCode: 502 }))
+      .mockResolvedValue('ok');
+    const missing = vi.fn().mockRejectedValue(new SWCNotFoundError('Not found'));
+
+    const results = await client.batch<unknown>(
+      [
+        flaky,
+        missing,
+        async () => {
+          throw new Error('boom');
+        },
+      ],
+      { retryDelay: 1 }
+    );
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'ok', attempts: 2 });
+    expect(results[1]).toMatchObject({ status: 'rejected', attempts: 1 });
+    expect(results[1].status === 'rejected' && results[1].error).toBeInstanceOf(SWCNotFoundError);
+    expect(missing).toHaveBeenCalledTimes(1);
+    expect(results[2].status === 'rejected' && results[2].error).toBeInstanceOf(SWCError);
+    expect(results[2].status === 'rejected' && results[2].error.message).toBe('boom');
+  });
+
+  it('pauses every operation after a rate limit error', async () => {
+    const client = new SWCombine();
+    const started: number[] = [];
+    let limited = false;
+
+    const results = await client.batch(
+      [0, 1, 2].map((index) => async () => {
+        started.push(Date.now());
+        if (index === 0 && !limited) {
+          limited = true;
+          throw new SWCRateLimitError('Too many requests', { retryAfter: 0.1 });
+        }
+        return index;
+      }),
+      { concurrency: 1 }
+    );
+
+    expect(results.every((result) => result.status === 'fulfilled')).toBe(true);
+    expect(results[0].attempts).toBe(2);
+    expect(started[1] - started[0]).toBeGreaterThanOrEqual(90);
+    expect(started[3] - started[0]).toBeGreaterThanOrEqual(90);
+  });
+
+  it('waits for the rate limit window to reset when the budget is used up', async () => {
+    const client = new SWCombine({ token: 'token', maxRetries: 0 });
+    const reset = Math.ceil(Date.now() / 1000);
+    const sent: number[] = [];
+    (client as any).http.axios.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      sent.push(Date.now());
+      return {
+        data: { swcapi: { character: { uid: config.url!.split('/')[2] } } },
+        status: 200,
+        statusText: 'OK',
+        headers: {
+          'x-ratelimit-limit': '600',
+          'x-ratelimit-remaining': sent.length === 1 ? '0' : '599',
+          'x-ratelimit-reset': String(reset),
+        },
+        config,
+      };
+    };
+
+    const results = await client.batch(
+      ['1:1', '1:2'].map((uid) => () => client.character.get({ uid })),
+      { concurrency: 1 }
+    );
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled']);
+    expect(sent[1]).toBeGreaterThanOrEqual(reset * 1000);
+  });
+
+  it('turns off the client retries so batch retries do not stack', async () => {
+    const client = new SWCombine({ token: 'token', retryDelay: 1 });
+    const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+      const response = { data: {}, status: 502, statusText: 'Bad Gateway', headers: {}, config };
+      throw new AxiosError('Bad gateway', undefined, config, {}, response);
+    });
+    (client as any).http.axios.defaults.adapter = adapter;
+
+    const [result] = await client.batch([() => client.character.get({ uid: '1:1' })], {
+      retries: 1,
+      retryDelay: 1,
+    });
+
+    expect(result).toMatchObject({ status: 'rejected', attempts: 2 });
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('settles the remaining operations with the abort reason and validates options', async () => {
+    const client = new SWCombine();
+    const controller = new AbortController();
+    const second = vi.fn().mockResolvedValue(2);
+    const third = vi.fn().mockResolvedValue(3);
+    const progress = vi.fn();
+
+    const results = await client.batch(
+      [
+        async () => {
+          controller.abort(new Error('cancelled'));
+          return 1;
+        },
+        second,
+        third,
+      ],
+      { concurrency: 1, signal: controller.signal, onProgress: progress }
+    );
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 1, attempts: 1 });
+    for (const result of results.slice(1)) {
+      expect(result).toMatchObject({ status: 'rejected', attempts: 0 });
+      expect(result.status === 'rejected' && result.error.message).toBe('cancelled');
+    }
+    expect(second).not.toHaveBeenCalled();
+    expect(third).not.toHaveBeenCalled();
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 3, failed: 2 }));
+
+    await expect(client.batch([], { concurrency: 0 })).rejects.toThrow('concurrency');
+  });
+});
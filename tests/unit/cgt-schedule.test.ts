@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CgtSchedule, Timestamp, TimestampRange } from '../../src/index.js';
+
+const at = (day: number, hour = 0, minute = 0, second = 0) =>
+  new Timestamp({ year: 25, day, hour, minute, second });
+
+describe('TimestampRange', () => {
+  it('checks containment, overlap and intersection', () => {
+    const range = new TimestampRange(at(10, 12), at(12, 6));
+
+    expect(range.contains(at(10, 12))).toBe(true);
+    expect(range.contains(at(12, 6, 0, 1))).toBe(false);
+    expect(range.overlaps(new TimestampRange(at(12, 6), at(20)))).toBe(true);
+    expect(range.overlaps(new TimestampRange(at(12, 7), at(20)))).toBe(false);
+    expect(range.intersection(new TimestampRange(at(11), at(20)))?.toString('shortMinute')).toBe(
+      'Y25 D11, 0:00 - Y25 D12, 6:00'
+    );
+    expect(range.getDuration()).toMatchObject({ days: 1, hours: 18 });
+    expect(() => new TimestampRange(at(2), at(1))).toThrow(RangeError);
+  });
+
+  it('rounds to whole days and iterates by day or hour', () => {
+    const range = new TimestampRange(at(10, 12), at(12, 6)).round('day');
+    expect(range.toString()).toBe('Year 25 Day 10, 0:00:00 - Year 25 Day 12, 23:59:59');
+
+    expect([...range.iterate('day')].map((ts) => ts.getDay())).toEqual([10, 11, 12]);
+    expect([...TimestampRange.of(at(5, 3), 'day').iterate('hour')]).toHaveLength(24);
+  });
+});
+
+describe('CgtSchedule', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('finds the next scheduled moment', () => {
+    const daily = new CgtSchedule('@daily');
+    expect(daily.next(at(10, 0, 0)).toString()).toBe('Year 25 Day 11, 0:00:00');
+    expect(daily.next(at(365, 12)).toString()).toBe('Year 26 Day 1, 0:00:00');
+
+    const schedule = new CgtSchedule('*/30 8-20/6 1,100');
+    expect(schedule.next(at(1, 20, 30)).toString('shortMinute')).toBe('Y25 D100, 8:00');
+    expect(schedule.next(at(100, 8, 10)).toString('shortMinute')).toBe('Y25 D100, 8:30');
+    expect(schedule.next(at(100, 8, 30)).toString('shortMinute')).toBe('Y25 D100, 14:00');
+    expect(schedule.matches(at(1, 14, 30, 59))).toBe(true);
+  });
+
+  it('lists scheduled moments within a range and rejects invalid expressions', () => {
+    const hourly = new CgtSchedule('0 * *');
+    expect(
+      hourly.between(new TimestampRange(at(1, 22), at(2, 1))).map((ts) => ts.getHour())
+    ).toEqual([22, 23, 0, 1]);
+
+    expect(() => new CgtSchedule('0 0')).toThrow('three fields');
+    expect(() => new CgtSchedule('60 * *')).toThrow(RangeError);
+    expect(() => new CgtSchedule('0 0 0-5')).toThrow('day');
+    expect(() => new CgtSchedule('a * *')).toThrow('Invalid minute field');
+  });
+
+  it('runs a task at every scheduled moment until stopped', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at(10, 23, 59, 30).toDate());
+    const task = vi.fn().mockRejectedValueOnce(new Error('boom'));
+    const onError = vi.fn();
+
+    const stop = new CgtSchedule('@daily').start(task, { onError });
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(task).toHaveBeenCalledWith(at(11));
+    expect(onError).toHaveBeenCalledWith(new Error('boom'), at(11));
+
+    await vi.advanceTimersByTimeAsync(24 * 3600 * 1000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(24 * 3600 * 1000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CreditLedger,
+  FileCreditLedgerStore,
+  MemoryCreditLedgerStore,
+  SWCValidationError,
+  Timestamp,
+  TimestampRange,
+} from '../../src/index.js';
+import type { CreditLogEntry } from '../../src/index.js';
+import { CharacterCreditlogResource } from '../../src/resources/CharacterResource.js';
+import { createMockHttpClient } from './helpers/mock-http.js';
+import type { HttpClient } from '../../src/http/HttpClient.js';
+
+const me = { attributes: { uid: '1:1', href: '' }, value: 'Luke' };
+const han = { attributes: { uid: '1:2', href: '' }, value: 'Han Solo' };
+const empire = { attributes: { uid: '20:1', href: '' }, value: 'Galactic Empire' };
+
+function entry(
+  id: number,
+  amount: number,
+  sender: typeof me,
+  receiver: typeof me,
+  day: number,
+  communication = ''
+): CreditLogEntry {
+  const time = new Timestamp({ year: 25, day, hour: 12 });
+  return {
+    attributes: { transaction_id: id },
+    time: {
+      years: 25,
+      days: day,
+      hours: 12,
+      mins: 0,
+      secs: 0,
+      timestamp: String(time.toUnixTimestamp('sec')),
+    },
+    amount,
+    sender,
+    receiver,
+    communication,
+  };
+}
+
+const log = [
+  entry(1, 1000, empire, me, 1, 'Salary'),
+  entry(2, 300, me, han, 2, 'Fuel for the Falcon'),
+  entry(3, 500, han, me, 9, 'Sabacc winnings'),
+  entry(4, 1000, empire, me, 9, 'Salary'),
+];
+
+/** Credit log endpoint: entries from `start_id` on, oldest first */
+function source(entries: CreditLogEntry[]) {
+  return vi.fn(async (startId: number, itemCount: number) =>
+    entries
+      .filter((item) => item.attributes.transaction_id >= startId)
+      .slice(0, Math.min(itemCount, 2))
+  );
+}
+
+describe('CreditLedger', () => {
+  it('syncs the full history incrementally and skips known transactions', async () => {
+    const fetchPage = source(log);
+    const store = new MemoryCreditLedgerStore();
+    const ledger = new CreditLedger('1:1', { store, fetchPage });
+
+    await expect(ledger.sync()).resolves.toBe(2);
+    expect(fetchPage).toHaveBeenCalledWith(1, 1000);
+    expect(ledger.add([log[0]])).toBe(0);
+
+    // Pages are short of 1000, so each sync stops after one page
+    await expect(ledger.sync()).resolves.toBe(2);
+    expect(fetchPage).toHaveBeenLastCalledWith(3, 1000);
+    expect(ledger.lastTransactionId).toBe(4);
+    expect(store.load()).toHaveLength(4);
+
+    const reopened = new CreditLedger('1:1', { store, fetchPage: source([]) });
+    await reopened.load();
+    expect(reopened.size).toBe(4);
+    await expect(new CreditLedger('1:1').sync()).rejects.toBeInstanceOf(SWCValidationError);
+  });
+
+  it('keeps pages saved before a failure', async () => {
+    const store = new MemoryCreditLedgerStore();
+    // A full first page makes sync ask for another one, which fails
+    const full = Array.from({ length: 1000 }, (_, index) => ({
+      ...log[0],
+      attributes: { transaction_id: index + 1 },
+    }));
+    const fetchPage = vi.fn().mockResolvedValueOnce(full).mockRejectedValueOnce(new Error('down'));
+
+    const ledger = new CreditLedger('1:1', { store, fetchPage });
+    await expect(ledger.sync()).rejects.toThrow('down');
+    expect(store.load()).toHaveLength(1000);
+
+    fetchPage.mockResolvedValueOnce([entry(1001, 5, han, me, 3)]);
+    await expect(ledger.sync()).resolves.toBe(1);
+    expect(ledger.lastTransactionId).toBe(1001);
+  });
+
+  it('reports balances, counterparties and period totals', () => {
+    const ledger = new CreditLedger('1:1');
+    ledger.add([...log].reverse());
+
+    expect(ledger.balanceHistory({ closingBalance: 5000 }).map((point) => point.balance)).toEqual([
+      3800, 3500, 4000, 5000,
+    ]);
+    expect(ledger.balanceHistory()[1]).toMatchObject({ transactionId: 2, change: -300 });
+
+    expect(ledger.counterparties()).toEqual([
+      { uid: '20:1', name: 'Galactic Empire', incoming: 2000, outgoing: 0, net: 2000, count: 2 },
+      { uid: '1:2', name: 'Han Solo', incoming: 500, outgoing: 300, net: 200, count: 2 },
+    ]);
+
+    const days = ledger.aggregate('day');
+    expect(days.map(({ range, net }) => [range.start.getDay(), net])).toEqual([
+      [1, 1000],
+      [2, -300],
+      [9, 1500],
+    ]);
+    const weeks = ledger.aggregate('week');
+    expect(weeks.map(({ range, count }) => [range.toString('day'), count])).toEqual([
+      ['Year 25 Day 1 - Year 25 Day 7', 2],
+      ['Year 25 Day 8 - Year 25 Day 14', 2],
+    ]);
+  });
+
+  it('filters by amount, counterparty, text, direction and time', () => {
+    const ledger = new CreditLedger('1:1');
+    ledger.add(log);
+    const ids = (items: CreditLogEntry[]) => items.map((item) => item.attributes.transaction_id);
+
+    expect(ids(ledger.entries({ minAmount: 400, maxAmount: 800 }))).toEqual([3]);
+    expect(ids(ledger.entries({ counterparty: 'han solo' }))).toEqual([2, 3]);
+    expect(ids(ledger.entries({ counterparty: '20:1', text: 'salary' }))).toEqual([1, 4]);
+    expect(ids(ledger.entries({ text: /falcon$/i }))).toEqual([2]);
+    expect(ids(ledger.entries({ direction: 'out' }))).toEqual([2]);
+
+    const week = new TimestampRange(
+      new Timestamp({ year: 25, day: 8 }),
+      new Timestamp({ year: 25, day: 14 })
+    );
+    expect(ids(ledger.entries({ range: week, direction: 'in' }))).toEqual([3, 4]);
+    expect(ledger.counterparties({ range: week })[0]).toMatchObject({ uid: '20:1', net: 1000 });
+  });
+});
+
+describe('FileCreditLedgerStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'swc-ledger-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves entries without attached timestamps and loads them back', async () => {
+    const store = new FileCreditLedgerStore(path.join(directory, 'ledger', 'character.json'));
+    await expect(store.load()).resolves.toBeNull();
+
+    const withCgt = { ...log[0], time: { ...log[0].time, cgt: Timestamp.now() } };
+    await store.save([withCgt, log[1]]);
+    const loaded = await store.load();
+    expect(loaded).toEqual([log[0], log[1]]);
+
+    await fs.writeFile(path.join(directory, 'broken.json'), '{');
+    await expect(
+      new FileCreditLedgerStore(path.join(directory, 'broken.json')).load()
+    ).rejects.toThrow('does not contain credit log entries');
+  });
+});
+
+describe('character.creditlog.ledger', () => {
+  it('syncs from the credit log endpoint with start_id', async () => {
+    const mockHttp = createMockHttpClient();
+    mockHttp.get.mockResolvedValue({ attributes: {}, transaction: log });
+    const resource = new CharacterCreditlogResource(mockHttp as unknown as HttpClient);
+
+    const ledger = resource.ledger({ uid: '1:1' });
+    await expect(ledger.sync()).resolves.toBe(4);
+    expect(mockHttp.get).toHaveBeenCalledWith('/character/1:1/creditlog', {
+      params: { start_index: 1, item_count: 1000, start_id: 1 },
+    });
+    expect(ledger.owner).toBe('1:1');
+  });
+
+  it('lists a page holding a single entry as an array', async () => {
+    const mockHttp = createMockHttpClient();
+    mockHttp.get.mockResolvedValue({ attributes: {}, transaction: log[0] });
+    const resource = new CharacterCreditlogResource(mockHttp as unknown as HttpClient);
+
+    await expect(resource.list({ uid: '1:1' })).resolves.toEqual([log[0]]);
+    await expect(resource.listAll({ uid: '1:1' })).resolves.toEqual([log[0]]);
+    await expect(resource.ledger({ uid: '1:1' }).sync()).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DurationUtil, Timestamp } from '../../src/index.js';
+
+const duration = (years = 0, days = 0, hours = 0, minutes = 0, seconds = 0) => ({
+  years,
+  days,
+  hours,
+  minutes,
+  seconds,
+});
+
+describe('DurationUtil', () => {
+  it('converts to and from seconds and milliseconds', () => {
+    expect(DurationUtil.fromSeconds(31_536_000 + 86_400 + 3_661)).toEqual(duration(1, 1, 1, 1, 1));
+    expect(DurationUtil.fromSeconds(-90)).toEqual(duration(0, 0, 0, -1, -30));
+    expect(DurationUtil.fromMilliseconds(1_500)).toEqual(duration(0, 0, 0, 0, 1));
+    expect(DurationUtil.toSeconds({ days: 1, minutes: -1 })).toBe(86_340);
+    expect(DurationUtil.toMilliseconds({ minutes: 2 })).toBe(120_000);
+    expect(() => DurationUtil.fromSeconds(Infinity)).toThrow(RangeError);
+  });
+
+  it('normalizes, adds, subtracts, scales and compares', () => {
+    expect(DurationUtil.normalize({ hours: 30, minutes: 90 })).toEqual(duration(0, 1, 7, 30));
+    expect(DurationUtil.add({ hours: 20 }, { hours: 5 }, { days: 364 })).toEqual(duration(1, 0, 1));
+    expect(DurationUtil.subtract({ hours: 1 }, { hours: 3 })).toEqual(duration(0, 0, -2));
+    expect(DurationUtil.scale({ hours: 3 }, 1 / 2.5)).toEqual(duration(0, 0, 1, 12));
+
+    const sorted = [{ days: 1 }, { hours: 2 }, { minutes: 1_500 }].sort(DurationUtil.compare);
+    expect(sorted).toEqual([{ hours: 2 }, { days: 1 }, { minutes: 1_500 }]);
+    expect(DurationUtil.equals({ hours: 24 }, { days: 1 })).toBe(true);
+  });
+
+  it('humanizes durations', () => {
+    expect(DurationUtil.humanize({ days: 2, hours: 3 })).toBe('2 days, 3 hours');
+    expect(DurationUtil.humanize({ years: 1, minutes: 1 })).toBe('1 year, 1 minute');
+    expect(DurationUtil.humanize({ days: 2, hours: 3, minutes: 4 }, { largest: 2 })).toBe(
+      '2 days, 3 hours'
+    );
+    expect(DurationUtil.humanize({ days: 2, hours: 3 }, { short: true })).toBe('2d 3h');
+    expect(DurationUtil.humanize({ minutes: -90 })).toBe('-1 hour, 30 minutes');
+    expect(DurationUtil.humanize({})).toBe('0 seconds');
+    expect(DurationUtil.humanize({}, { short: true })).toBe('0s');
+  });
+
+  it('formats and parses ISO 8601 durations', () => {
+    expect(DurationUtil.toISOString({ years: 1, days: 20, hours: 4 })).toBe('P1Y20DT4H');
+    expect(DurationUtil.toISOString({ seconds: -61 })).toBe('-PT1M1S');
+    expect(DurationUtil.toISOString({})).toBe('PT0S');
+
+    expect(DurationUtil.parse('P1Y20DT4H')).toEqual(duration(1, 20, 4));
+    expect(DurationUtil.parse('P2W')).toEqual(duration(0, 14));
+    expect(DurationUtil.parse('PT1.5H')).toEqual(duration(0, 0, 1, 30));
+    expect(DurationUtil.parse('-PT30S')).toEqual(duration(0, 0, 0, 0, -30));
+    expect(() => DurationUtil.parse('P1M')).toThrow('CGT has no months');
+    expect(() => DurationUtil.parse('P')).toThrow(RangeError);
+  });
+
+  it('parses compact and long durations', () => {
+    expect(DurationUtil.parse('1y 20d 4h')).toEqual(duration(1, 20, 4));
+    expect(DurationUtil.parse('1y20d4h')).toEqual(duration(1, 20, 4));
+    expect(DurationUtil.parse('2 days, 3 hours')).toEqual(duration(0, 2, 3));
+    expect(DurationUtil.parse('1 hour and 5 minutes')).toEqual(duration(0, 0, 1, 5));
+    expect(DurationUtil.parse('1.5h')).toEqual(duration(0, 0, 1, 30));
+    expect(DurationUtil.parse('-10m')).toEqual(duration(0, 0, 0, -10));
+    expect(DurationUtil.parse(DurationUtil.humanize({ days: 3, seconds: 7 }))).toEqual(
+      duration(0, 3, 0, 0, 7)
+    );
+
+    expect(() => DurationUtil.parse('')).toThrow(RangeError);
+    expect(() => DurationUtil.parse('3 fortnights')).toThrow('unknown unit');
+    expect(() => DurationUtil.parse('4h later')).toThrow(RangeError);
+  });
+
+  it('works with Timestamp durations', () => {
+    const start = new Timestamp({ year: 25, day: 10 });
+    const end = start.add(DurationUtil.parse('2d 3h'));
+    expect(DurationUtil.humanize(start.getDurationTo(end))).toBe('2 days, 3 hours');
+    expect(DurationUtil.humanize(end.getDurationTo(start), { short: true })).toBe('-2d 3h');
+  });
+});
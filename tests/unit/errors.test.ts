@@ -1,5 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { SWCError } from '../../src/http/errors.js';
+import { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import {
+  SWCError,
+  SWCAuthError,
+  SWCScopeError,
+  SWCRateLimitError,
+  SWCNotFoundError,
+  SWCValidationError,
+  SWCServerError,
+  parseRetryAfter,
+} from '../../src/http/errors.js';
+import { HttpClient } from '../../src/http/HttpClient.js';
 
 describe('SWCError', () => {
   describe('fromHttpResponse()', () => {
@@ -73,9 +84,51 @@ describe('SWCError', () => {
       expect(err.message).toBe('Internal failure');
     });
 
-    it('extracts retry_after for rate limit errors', () => {
-      const err = SWCError.fromHttpResponse(429, { retry_after: 30 });
+    it('takes retryAfter from the Retry-After header', () => {
+      const err = SWCError.fromHttpResponse(429, { retry_after: 99 }, undefined, {
+        headers: { 'retry-after': '30' },
+      });
       expect(err.retryAfter).toBe(30);
+      expect(SWCError.fromHttpResponse(429, { retry_after: 99 }).retryAfter).toBeUndefined();
+    });
+
+    it('returns the subclass for each status', () => {
+      expect(SWCError.fromHttpResponse(401, {})).toBeInstanceOf(SWCAuthError);
+      expect(SWCError.fromHttpResponse(403, {})).toBeInstanceOf(SWCAuthError);
+      expect(SWCError.fromHttpResponse(404, {})).toBeInstanceOf(SWCNotFoundError);
+      expect(SWCError.fromHttpResponse(400, {})).toBeInstanceOf(SWCValidationError);
+      expect(SWCError.fromHttpResponse(429, {})).toBeInstanceOf(SWCRateLimitError);
+      expect(SWCError.fromHttpResponse(503, {})).toBeInstanceOf(SWCServerError);
+      expect(SWCError.fromHttpResponse(418, {}).constructor).toBe(SWCError);
+    });
+
+    it('tells missing scopes apart from other 403s', () => {
+      const scope = SWCError.fromHttpResponse(403, { error: 'insufficient_scope' });
+      expect(scope).toBeInstanceOf(SWCScopeError);
+      expect(scope.type).toBe('auth');
+      expect(scope.name).toBe('SWCScopeError');
+
+      const privilege = SWCError.fromHttpResponse(403, { message: 'Insufficient privilege' });
+      expect(privilege).not.toBeInstanceOf(SWCScopeError);
+    });
+
+    it('parses the API error code', () => {
+      expect(SWCError.fromHttpResponse(400, { error: 'invalid_grant' }).code).toBe('invalid_grant');
+
+      const nested = SWCError.fromHttpResponse(404, {
+        swcapi: { error: { code: 1003, message: 'Character not found' } },
+      });
+      expect(nested.code).toBe('1003');
+      expect(nested.message).toBe('Character not found');
+    });
+
+    it('stores the endpoint and method', () => {
+      const err = SWCError.fromHttpResponse(404, {}, undefined, {
+        method: 'get',
+        endpoint: '/character/1:1',
+      });
+      expect(err.method).toBe('GET');
+      expect(err.endpoint).toBe('/character/1:1');
     });
 
     it('stores requestId', () => {
@@ -90,6 +143,15 @@ describe('SWCError', () => {
     });
   });
 
+  describe('parseRetryAfter()', () => {
+    it('parses seconds and HTTP dates', () => {
+      expect(parseRetryAfter('120')).toBe(120);
+      expect(parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())).toBeGreaterThan(8);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+  });
+
   describe('fromNetworkError()', () => {
     it('creates a network type error', () => {
       const cause = new Error('ECONNREFUSED');
@@ -208,4 +270,30 @@ describe('SWCError', () => {
       expect(err).toBeInstanceOf(Error);
     });
   });
+
+  describe('HttpClient errors', () => {
+    it('carry the request endpoint, method and Retry-After header', async () => {
+      const http = new HttpClient({ maxRetries: 0 });
+      (http as any).axios.defaults.adapter = (config: InternalAxiosRequestConfig) => {
+        const response = {
+          data: { error: 'rate_limit_exceeded' },
+          status: 400,
+          statusText: 'Bad Request',
+          headers: { 'retry-after': '15' },
+          config,
+        };
+        throw new AxiosError('Bad Request', undefined, config, {}, response);
+      };
+
+      const error = await http.get('/character/1:1/credits', { params: { a: 1 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SWCRateLimitError);
+      expect(error).toMatchObject({
+        endpoint: '/character/1:1/credits',
+        method: 'GET',
+        code: 'rate_limit_exceeded',
+        retryAfter: 15,
+      });
+    });
+  });
 });
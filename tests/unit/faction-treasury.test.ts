@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { SWCValidationError, Timestamp } from '../../src/index.js';
+import type { CreditLogEntry, TreasurySnapshot } from '../../src/index.js';
+import { FactionResource } from '../../src/resources/FactionResource.js';
+import { createMockHttpClient } from './helpers/mock-http.js';
+import type { HttpClient } from '../../src/http/HttpClient.js';
+
+const faction = { attributes: { uid: '20:1', href: '' }, value: 'Rebel Alliance' };
+const luke = { attributes: { uid: '1:1', href: '' }, value: 'Luke' };
+const jabba = { attributes: { uid: '1:9', href: '' }, value: 'Jabba' };
+const traders = { attributes: { uid: '20:7', href: '' }, value: 'Traders Guild' };
+
+function entry(id: number, amount: number, sender: typeof luke, receiver: typeof luke) {
+  return {
+    attributes: { transaction_id: id },
+    time: { years: 25, days: 10 + id, hours: 0, mins: 0, secs: 0, timestamp: '' },
+    amount,
+    sender,
+    receiver,
+    communication: '',
+  } as CreditLogEntry;
+}
+
+function setup(log: CreditLogEntry[], credits: number, budgets: number[]) {
+  const state = { log, credits, budgets };
+  const mockHttp = createMockHttpClient();
+  mockHttp.get.mockImplementation(
+    async (url: string, config?: { params: Record<string, number> }) => {
+      if (url.endsWith('/credits')) {
+        return { amount: state.credits };
+      }
+      if (url.endsWith('/budgets')) {
+        return {
+          budget: state.budgets.map((amount, index) => ({
+            uid: `b${index}`,
+            name: `Budget ${index}`,
+            amount,
+          })),
+        };
+      }
+      if (url.endsWith('/members')) {
+        return { member: [{ character: luke }] };
+      }
+      const startId = config?.params.start_id ?? 0;
+      return {
+        transaction: state.log.filter((item) => item.attributes.transaction_id >= startId),
+      };
+    }
+  );
+  const resource = new FactionResource(mockHttp as unknown as HttpClient);
+  return { state, treasury: resource.treasury({ factionId: '20:1', largeOutflow: 5000 }) };
+}
+
+describe('FactionTreasury', () => {
+  it('snapshots credits, budgets and the last transaction', async () => {
+    const { treasury } = setup([entry(1, 100, luke, faction)], 10_000, [4000, 1000]);
+    const snapshot = await treasury.snapshot();
+
+    expect(snapshot).toMatchObject({
+      factionId: '20:1',
+      credits: 10_000,
+      budgets: [
+        { uid: 'b0', name: 'Budget 0', amount: 4000 },
+        { uid: 'b1', name: 'Budget 1', amount: 1000 },
+      ],
+      lastTransactionId: 1,
+    });
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it('replays the credit log between snapshots and flags what does not add up', async () => {
+    const { state, treasury } = setup([entry(1, 100, luke, faction)], 10_000, [4000, 1000]);
+    const before = await treasury.snapshot();
+
+    state.log = [
+      ...state.log,
+      entry(2, 2000, traders, faction),
+      entry(3, 6000, faction, traders),
+      entry(4, 500, faction, jabba),
+      entry(5, 300, faction, luke),
+    ];
+    state.credits = 5000;
+    state.budgets = [4500, 1000, 200];
+    const report = await treasury.reconcile(before);
+
+    expect(report).toMatchObject({
+      openingCredits: 10_000,
+      closingCredits: 5000,
+      incoming: 2000,
+      outgoing: 6800,
+      expectedCredits: 5200,
+      discrepancy: -200,
+    });
+    expect(report.transactions.map((item) => item.attributes.transaction_id)).toEqual([2, 3, 4, 5]);
+    expect(report.range.start.compare(report.range.end)).toBeLessThanOrEqual(0);
+    expect(report.budgets).toEqual([
+      { uid: 'b0', name: 'Budget 0', opening: 4000, closing: 4500, change: 500 },
+      { uid: 'b1', name: 'Budget 1', opening: 1000, closing: 1000, change: 0 },
+      { uid: 'b2', name: 'Budget 2', closing: 200, change: 200 },
+    ]);
+    expect(report.counterparties[0]).toMatchObject({ uid: '20:7', net: -4000 });
+
+    expect(
+      report.flags.map(({ kind, amount, transactionId }) => [kind, amount, transactionId])
+    ).toEqual([
+      ['discrepancy', -200, undefined],
+      ['large-outflow', 6000, 3],
+      ['non-member-transfer', 500, 4],
+      ['budgets-exceed-credits', 700, undefined],
+    ]);
+    expect(report.flags[2]).toMatchObject({
+      counterparty: { uid: '1:9', name: 'Jabba' },
+      message: '500 credits sent to Jabba, who is not a member.',
+    });
+    expect(report.flags[2].time).toBeInstanceOf(Timestamp);
+  });
+
+  it('rejects snapshots of another faction or in the wrong order', async () => {
+    const { treasury } = setup([], 0, []);
+    const snapshot: TreasurySnapshot = {
+      factionId: '20:1',
+      takenAt: Date.now(),
+      credits: 0,
+      budgets: [],
+      lastTransactionId: 10,
+    };
+
+    await expect(treasury.reconcile({ ...snapshot, factionId: '20:2' }, snapshot)).rejects.toThrow(
+      SWCValidationError
+    );
+    await expect(
+      treasury.reconcile(snapshot, { ...snapshot, lastTransactionId: 9 })
+    ).rejects.toThrow('must not be older');
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { AxiosError } from 'axios';
+import { GalaxyIndex, SWCValidationError, SWCombine } from '../../src/index.js';
+import type { GalaxySnapshot } from '../../src/index.js';
+
+const ref = (uid: string, value: string, type?: string) => ({
+  value,
+  attributes: { uid, href: '', ...(type && { type }) },
+});
+const point = (x: number, y: number) => ({ attributes: { x, y } });
+const faction = ref('20:1', 'Galactic Empire');
+
+const snapshot: GalaxySnapshot = {
+  version: 1,
+  createdAt: '2026-10-19T00:00:00.000Z',
+  sectors: [{ attributes: { uid: '25:1', name: 'Arkanis', href: '' }, controlledby: faction }],
+  systems: [
+    {
+      attributes: { uid: '24:1', name: 'Tatoo', href: '' },
+      controlledby: faction,
+      location: {
+        container: ref('25:1', 'Arkanis', 'sector'),
+        coordinates: { galaxy: point(1, 2) },
+      },
+    },
+    {
+      attributes: { uid: '24:2', name: 'Geonosis', href: '' },
+      location: { sector: ref('25:1', 'Arkanis'), coordinates: { galaxy: point(5, 2) } },
+    },
+  ],
+  planets: [
+    {
+      attributes: { uid: '23:1', name: 'Tatooine', href: '' },
+      controlledby: faction,
+      location: {
+        sector: ref('25:1', 'Arkanis'),
+        system: ref('24:1', 'Tatoo'),
+        coordinates: { galaxy: point(1, 2), system: point(10, 10) },
+      },
+    },
+  ],
+  stations: [
+    {
+      attributes: { uid: '4:1', name: 'Tatoo Station', href: '' },
+      location: {
+        system: ref('24:1', 'Tatoo'),
+        coordinates: { galaxy: point(1, 2), system: point(11, 10) },
+      },
+    },
+  ],
+  cities: [
+    {
+      attributes: { uid: '5:1', name: 'Mos Eisley', href: '' },
+      location: {
+        system: ref('24:1', 'Tatoo'),
+        planet: ref('23:1', 'Tatooine'),
+        coordinates: { galaxy: point(1, 2), surface: point(3, 4) },
+      },
+    },
+  ],
+};
+
+const collectionKeys = {
+  sectors: 'sector',
+  systems: 'system',
+  planets: 'planet',
+  stations: 'station',
+  cities: 'city',
+} as const;
+
+/**
+ * Serve the snapshot fixture one item per page, optionally failing one request
+ */
+function galaxyAdapter(failAt?: string) {
+  const requests: string[] = [];
+  const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+    const collection = config.url!.split('/')[2] as keyof typeof collectionKeys;
+    const start = config.params.start_index;
+    requests.push(`${collection}:${start}`);
+    if (`${collection}:${start}` === failAt) {
+      throw new AxiosError(
+        'Bad gateway',
+        undefined,
+        config,
+        {},
+        {
+          data: {},
+          status: 502,
+          statusText: 'Bad Gateway',
+          headers: {},
+          config,
+        }
+      );
+    }
+    const items = snapshot[collection] as unknown[];
+    return {
+      data: {
+        swcapi: {
+          [collection]: {
+            attributes: { start, count: 1, total: items.length },
+            [collectionKeys[collection]]: items.slice(start - 1, start),
+          },
+        },
+      },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    };
+  });
+  return { adapter, requests };
+}
+
+describe('galaxy.snapshot', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'swc-galaxy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('crawls every collection and writes an NDJSON snapshot', async () => {
+    const client = new SWCombine({ maxRetries: 0 });
+    const { adapter } = galaxyAdapter();
+    (client as any).http.axios.defaults.adapter = adapter;
+    const file = path.join(directory, 'galaxy.ndjson');
+    const onProgress = vi.fn();
+
+    const result = await client.galaxy.snapshot({ file, pageSize: 1, onProgress });
+
+    expect(result).toMatchObject({
+      version: 1,
+      sectors: snapshot.sectors,
+      cities: snapshot.cities,
+    });
+    expect(result.systems).toHaveLength(2);
+    expect(onProgress).toHaveBeenCalledWith({ collection: 'systems', fetched: 2, total: 2 });
+
+    const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(7);
+    expect(JSON.parse(lines[0])).toMatchObject({ type: 'snapshot', version: 1 });
+    expect(JSON.parse(lines[6])).toEqual({ type: 'city', data: snapshot.cities[0] });
+    expect((await GalaxyIndex.load(file)).size).toBe(6);
+  });
+
+  it('resumes an interrupted crawl from its checkpoint file', async () => {
+    const client = new SWCombine({ maxRetries: 0 });
+    const file = path.join(directory, 'galaxy.json');
+    const checkpointFile = path.join(directory, 'galaxy.checkpoint.json');
+
+    const failing = galaxyAdapter('systems:2');
+    (client as any).http.axios.defaults.adapter = failing.adapter;
+    await expect(client.galaxy.snapshot({ file, checkpointFile, pageSize: 1 })).rejects.toThrow();
+    await expect(fs.access(file)).rejects.toThrow();
+    expect(JSON.parse(await fs.readFile(checkpointFile, 'utf8'))).toMatchObject({
+      next: { systems: 2 },
+      completed: ['sectors'],
+    });
+    const systemsFile = `${checkpointFile}.systems.ndjson`;
+    expect((await fs.readFile(systemsFile, 'utf8')).trim().split('\n')).toHaveLength(1);
+    // A page appended after the last checkpoint is dropped on resume
+    await fs.appendFile(systemsFile, `${JSON.stringify(snapshot.systems[1])}\n`);
+
+    const resumed = galaxyAdapter();
+    (client as any).http.axios.defaults.adapter = resumed.adapter;
+    const result = await client.galaxy.snapshot({ file, checkpointFile, pageSize: 1 });
+
+    expect(resumed.requests[0]).toBe('systems:2');
+    expect(resumed.requests).not.toContain('sectors:1');
+    expect(result.systems.map((system) => system.attributes.uid)).toEqual(['24:1', '24:2']);
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual(result);
+    await expect(fs.access(checkpointFile)).rejects.toThrow();
+    await expect(fs.access(systemsFile)).rejects.toThrow();
+  });
+
+  it('crawls a collection again when its item file is shorter than the checkpoint', async () => {
+    const client = new SWCombine({ maxRetries: 0 });
+    const checkpointFile = path.join(directory, 'galaxy.checkpoint.json');
+
+    (client as any).http.axios.defaults.adapter = galaxyAdapter('systems:2').adapter;
+    await expect(client.galaxy.snapshot({ checkpointFile, pageSize: 1 })).rejects.toThrow();
+    const sectorsFile = `${checkpointFile}.sectors.ndjson`;
+    await fs.writeFile(sectorsFile, '');
+
+    const resumed = galaxyAdapter();
+    (client as any).http.axios.defaults.adapter = resumed.adapter;
+    const result = await client.galaxy.snapshot({ checkpointFile, pageSize: 1 });
+
+    expect(resumed.requests.slice(0, 2)).toEqual(['sectors:1', 'systems:2']);
+    expect(result.sectors).toEqual(snapshot.sectors);
+    expect(result.systems.map((system) => system.attributes.uid)).toEqual(['24:1', '24:2']);
+  });
+
+  it('requests the largest page size by default', async () => {
+    const client = new SWCombine({ maxRetries: 0 });
+    const { adapter } = galaxyAdapter();
+    (client as any).http.axios.defaults.adapter = adapter;
+
+    await client.galaxy.snapshot();
+
+    expect(adapter.mock.calls[0][0].params).toEqual({ start_index: 1, item_count: 1000 });
+  });
+});
+
+describe('GalaxyIndex', () => {
+  const index = new GalaxyIndex(snapshot);
+
+  it('looks places up by UID, name and coordinates', () => {
+    expect(index.size).toBe(6);
+    expect(index.get('23:1')).toMatchObject({
+      kind: 'planet',
+      name: 'Tatooine',
+      parent: '24:1',
+      galaxy: { x: 1, y: 2 },
+      system: { x: 10, y: 10 },
+      controlledBy: { uid: '20:1', name: 'Galactic Empire' },
+    });
+    expect(index.findByName('mos eisley')[0].surface).toEqual({ x: 3, y: 4 });
+    expect(index.findByName('Tatooine', 'city')).toEqual([]);
+    expect(index.at({ x: 1, y: 2 }).map((place) => place.uid)).toEqual([
+      '24:1',
+      '23:1',
+      '4:1',
+      '5:1',
+    ]);
+    expect(index.near({ x: 6, y: 2 }, 5, 'system').map((place) => place.name)).toEqual([
+      'Geonosis',
+      'Tatoo',
+    ]);
+  });
+
+  it('answers faction and containment queries', () => {
+    expect(index.controlledBy('20:1').map((place) => place.uid)).toEqual(['25:1', '24:1', '23:1']);
+    expect(index.controlledBy('galactic empire', 'planet')).toHaveLength(1);
+
+    expect(index.children('25:1').map((place) => place.name)).toEqual(['Tatoo', 'Geonosis']);
+    expect(index.children('24:1').map((place) => place.uid)).toEqual(['23:1', '4:1']);
+    expect(index.parent('5:1')?.name).toBe('Tatooine');
+    expect(index.parent('25:1')).toBeUndefined();
+    expect(index.descendants('25:1', 'city').map((place) => place.name)).toEqual(['Mos Eisley']);
+  });
+
+  it('round-trips both file formats and rejects other versions', () => {
+    const json = GalaxyIndex.parse(JSON.stringify(snapshot));
+    expect(json.createdAt).toBe(snapshot.createdAt);
+    expect(json.size).toBe(6);
+
+    expect(() => GalaxyIndex.parse('{"version":2}')).toThrow(SWCValidationError);
+    expect(() => GalaxyIndex.parse('{"type":"snapshot","version":1}\n{"type":"moon"}')).toThrow(
+      'line 2 has unknown type "moon"'
+    );
+  });
+});
@@ -15,7 +15,14 @@ export function createMockHttpClient(): {
     delete: vi.fn(),
     request: vi.fn(),
     setTokenManager: vi.fn(),
+    forTokenManager: vi.fn(),
+    withoutScopeCheck: vi.fn(),
+    use: vi.fn(),
     getRateLimitInfo: vi.fn(),
     setRateLimitCallback: vi.fn(),
+    getCacheStats: vi.fn(),
+    invalidateCache: vi.fn(),
+    seedRateLimits: vi.fn(),
+    runWithPriority: vi.fn((_priority: unknown, fn: () => unknown) => fn()),
   } as any;
 }
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { HttpClient } from '../../src/http/HttpClient.js';
+import { TokenManager } from '../../src/auth/TokenManager.js';
+import { SWCError } from '../../src/http/errors.js';
+
+/**
+ * Creates an HttpClient backed by the real axios interceptor chain, with the
+ * network replaced by `adapter`.
+ */
+function createClient(adapter: AxiosAdapter, tokenManager?: TokenManager): HttpClient {
+  const client = new HttpClient({ maxRetries: 1, retryDelay: 0 }, tokenManager);
+  (client as unknown as { axios: { defaults: { adapter: AxiosAdapter } } }).axios.defaults.adapter =
+    adapter;
+  return client;
+}
+
+function reply(config: InternalAxiosRequestConfig, status: number, data: unknown) {
+  const response = { data, status, statusText: '', headers: {}, config };
+  if (status >= 400) {
+    // Custom adapters are responsible for rejecting error statuses
+    throw new AxiosError(`Request failed with status ${status}`, undefined, config, {}, response);
+  }
+  return response;
+}
+
+describe('HttpClient middleware', () => {
+  it('lets beforeRequest rewrite params and headers before the token is added', async () => {
+    const adapter = vi.fn(async (config: InternalAxiosRequestConfig) =>
+      reply(config, 200, { swcapi: { character: { name: 'Luke' } } })
+    );
+    const client = createClient(adapter, new TokenManager('secret-token'));
+    const seenParams: Record<string, unknown>[] = [];
+
+    client.use({
+      beforeRequest: (request) => {
+        seenParams.push({ ...request.params });
+        request.params.item_count = 10;
+        request.headers['X-Trace-Id'] = 'trace-1';
+      },
+    });
+
+    const result = await client.get('/character/me', { params: { start_index: 1 } });
+
+    expect(result).toEqual({ name: 'Luke' });
+    expect(seenParams).toEqual([{ start_index: 1 }]);
+    const sent = adapter.mock.calls[0][0];
+    expect(sent.params).toEqual({ start_index: 1, item_count: 10, access_token: 'secret-token' });
+    expect(sent.headers.get('X-Trace-Id')).toBe('trace-1');
+  });
+
+  it('short-circuits with a value from beforeRequest', async () => {
+    const adapter = vi.fn();
+    const client = createClient(adapter);
+    const afterResponse = vi.fn();
+
+    client.use({ beforeRequest: () => ({ data: { cached: true } }), afterResponse });
+    client.use({ beforeRequest: () => ({ data: 'never used' }) });
+
+    const result = await client.get('/galaxy/systems/');
+
+    expect(result).toEqual({ cached: true });
+    expect(adapter).not.toHaveBeenCalled();
+    expect(afterResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'GET', url: '/galaxy/systems/' }),
+      expect.objectContaining({ status: 200, shortCircuited: true })
+    );
+  });
+
+  it('reports unwrapped data and timing to afterResponse once per request', async () => {
+    const adapter = vi
+      .fn()
+      .mockImplementationOnce(async (config: InternalAxiosRequestConfig) =>
+        reply(config, 503, 'unavailable')
+      )
+      .mockImplementationOnce(async (config: InternalAxiosRequestConfig) =>
+        reply(config, 200, { swcapi: { time: { years: 25 } } })
+      );
+    const client = createClient(adapter);
+    const attempts: number[] = [];
+    const afterResponse = vi.fn();
+
+    client.use({ beforeRequest: (request) => void attempts.push(request.attempt), afterResponse });
+
+    await client.get('/api/time');
+
+    expect(attempts).toEqual([1, 2]);
+    expect(afterResponse).toHaveBeenCalledTimes(1);
+    const [request, response] = afterResponse.mock.calls[0];
+    expect(request.attempt).toBe(2);
+    expect(response.data).toEqual({ years: 25 });
+    expect(response.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('calls onError once with the final SWCError', async () => {
+    const adapter = vi.fn(async (config: InternalAxiosRequestConfig) =>
+      reply(config, 404, { message: 'Not found' })
+    );
+    const client = createClient(adapter);
+    const onError = vi.fn();
+
+    client.use({ onError });
+
+    await expect(client.get('/character/1:1')).rejects.toBeInstanceOf(SWCError);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toMatchObject({ type: 'not_found', statusCode: 404 });
+  });
+
+  it('propagates errors thrown by middleware without sending the request', async () => {
+    const adapter = vi.fn();
+    const client = createClient(adapter);
+
+    client.use({
+      beforeRequest: () => {
+        throw new Error('blocked by policy');
+      },
+    });
+
+    await expect(client.get('/character/me')).rejects.toThrow('blocked by policy');
+    expect(adapter).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import {
+  SWCombine,
+  Timestamp,
+  normalizeEntity,
+  normalizeFaction,
+  normalizePlanet,
+  normalizeSector,
+  normalizeTypesEntity,
+  normalizeValue,
+} from '../../src/index.js';
+
+const ref = (uid: string, value: string, type?: string) => ({
+  attributes: { uid, href: `https://www.swcombine.com/ws/v2.0/${uid}/`, ...(type && { type }) },
+  value,
+});
+
+const ship = {
+  attributes: { href: 'https://www.swcombine.com/ws/v2.0/inventory/ships/2:1/' },
+  value: {
+    uid: '2:1',
+    entitytype: 'Ship',
+    name: 'Starfall',
+    owner: ref('1:1', 'Luke Skywalker', 'character'),
+    protected: 'no',
+    wrecked: 'yes',
+    hull: { value: 120, attributes: { max: 150 } },
+    location: {
+      container: {},
+      system: ref('24:1', 'Tatoo', 'system'),
+      coordinates: {
+        galaxy: { attributes: { x: 160, y: 104 } },
+        system: { attributes: { x: '3', y: '-7' } },
+        ground: { attributes: null },
+      },
+    },
+    type: ref('12:7', 'X-Wing'),
+    tags: { tag: ['fleet', 'escort'] },
+  },
+};
+
+describe('normalizeEntity', () => {
+  it('flattens references, booleans, stats, coordinates and tags', () => {
+    expect(normalizeEntity(ship)).toEqual({
+      uid: '2:1',
+      href: 'https://www.swcombine.com/ws/v2.0/inventory/ships/2:1/',
+      entitytype: 'Ship',
+      name: 'Starfall',
+      owner: {
+        uid: '1:1',
+        name: 'Luke Skywalker',
+        href: 'https://www.swcombine.com/ws/v2.0/1:1/',
+        type: 'character',
+      },
+      protected: false,
+      wrecked: true,
+      hull: { value: 120, max: 150 },
+      location: {
+        system: {
+          uid: '24:1',
+          name: 'Tatoo',
+          href: 'https://www.swcombine.com/ws/v2.0/24:1/',
+          type: 'system',
+        },
+        coordinates: { galaxy: { x: 160, y: 104 }, system: { x: 3, y: -7 } },
+      },
+      type: { uid: '12:7', name: 'X-Wing', href: 'https://www.swcombine.com/ws/v2.0/12:7/' },
+      tags: ['fleet', 'escort'],
+    });
+  });
+});
+
+describe('normalizeValue', () => {
+  it('converts only known flag and number fields', () => {
+    expect(
+      normalizeValue({
+        communication: 'yes',
+        description: 'false',
+        protected: 'yes',
+        hangarbay: 'no',
+        label: { attributes: { type: 'rank' }, value: '42' },
+        size: '7',
+      })
+    ).toEqual({
+      communication: 'yes',
+      description: 'false',
+      protected: true,
+      hangarbay: false,
+      label: { type: 'rank', value: '42' },
+      size: 7,
+    });
+  });
+});
+
+describe('normalizeFaction', () => {
+  it('converts time blobs to Timestamp and collections to arrays', () => {
+    const faction = normalizeFaction({
+      attributes: { isbasic: 'true' },
+      uid: '20:1840',
+      name: 'Unnamed Market',
+      parent: {},
+      leader: ref('1:1477410', 'Lucifer Von Kaldreon'),
+      founded: { years: 26, days: 120, hours: 10, mins: 51, secs: 3, timestamp: '1742925063' },
+      recruitmentliaisons: [],
+      modules: { module: [ref('173:1', 'Faction')] },
+    });
+
+    expect(faction.isbasic).toBe(true);
+    expect(faction.parent).toBeUndefined();
+    expect(faction.leader?.name).toBe('Lucifer Von Kaldreon');
+    expect(faction.founded).toBeInstanceOf(Timestamp);
+    expect(faction.founded?.toUnixTimestamp('sec')).toBe(1742925063);
+    expect(faction.modules?.map((module) => module.uid)).toEqual(['173:1']);
+  });
+});
+
+describe('galaxy normalizers', () => {
+  it('turns summary collections into Ref arrays, including single items', () => {
+    const planet = normalizePlanet({
+      uid: '23:1',
+      name: 'Tatooine',
+      size: '10',
+      cities: {
+        city: { attributes: { uid: '5:1', name: 'Mos Eisley', href: '', x: '4', y: '5' } },
+      },
+    });
+
+    expect(planet.size).toBe(10);
+    expect(planet.cities).toEqual([{ uid: '5:1', name: 'Mos Eisley', href: '', x: 4, y: 5 }]);
+
+    const sector = normalizeSector({
+      uid: '25:160',
+      name: 'Seswenna',
+      coordinates: { point: [{ attributes: { x: 1, y: 2 } }, { attributes: { x: '3', y: '4' } }] },
+    });
+    expect(sector.coordinates).toEqual([
+      { x: 1, y: 2 },
+      { x: 3, y: 4 },
+    ]);
+  });
+});
+
+describe('normalizeTypesEntity', () => {
+  it('keeps units and weapon quantities', () => {
+    const type = normalizeTypesEntity({
+      uid: '12:7',
+      name: 'X-Wing',
+      class: { attributes: { uid: '3:1', value: 'Starfighter', href: '' } },
+      weight: { value: '12', attributes: { units: 'T' } },
+      hangarbay: 'no',
+      weapons: { weapon: [{ attributes: { uid: '8:1', quantity: 4 }, value: 'Laser Cannon' }] },
+    });
+
+    expect(type.class).toEqual({ uid: '3:1', name: 'Starfighter', href: '' });
+    expect(type.weight).toEqual({ units: 'T', value: 12 });
+    expect(type.hangarbay).toBe(false);
+    expect(type.weapons).toEqual([{ uid: '8:1', name: 'Laser Cannon', quantity: 4 }]);
+  });
+});
+
+describe('client.normalized', () => {
+  it('returns normalized models from the API', async () => {
+    const client = new SWCombine({ token: 'token' });
+    (client as any).http.axios.defaults.adapter = (config: InternalAxiosRequestConfig) =>
+      Promise.resolve({
+        data:
+          config.url === '/character/'
+            ? {
+                swcapi: {
+                  character: {
+                    uid: '1:1',
+                    name: 'Luke',
+                    force: { attributes: { isAware: 'true' } },
+                    credits: { attributes: { href: '' }, value: 1000 },
+                    factions: [{ ...ref('20:1', 'Rebels'), primary: true }],
+                  },
+                },
+              }
+            : { swcapi: { ship } },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      });
+
+    const me = await client.normalized.character.me();
+    expect(me).toMatchObject({ uid: '1:1', forceAware: true, credits: 1000 });
+    expect(me.factions?.[0]).toMatchObject({ uid: '20:1', name: 'Rebels', primary: true });
+
+    const entity = await client.normalized.inventory.entities.get({
+      entityType: 'ships',
+      uid: '2:1',
+    });
+    expect(entity.hull).toEqual({ value: 120, max: 150 });
+  });
+});
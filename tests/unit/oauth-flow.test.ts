@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { SWCombine, SWCError, OAuthFlow, MemoryAuthorizationStore } from '../../src/index.js';
+import { OAuthClient } from '../../src/auth/OAuthClient.js';
+import type { OAuthToken } from '../../src/types/index.js';
+
+const token: OAuthToken = { accessToken: 'access', refreshToken: 'refresh', expiresAt: 1 };
+
+function createOAuthClient(): OAuthClient {
+  const oauthClient = new OAuthClient({
+    clientId: 'id',
+    clientSecret: 'secret',
+    redirectUri: 'https://example.com/callback',
+  });
+  vi.spyOn(oauthClient, 'handleCallback').mockResolvedValue({ success: true, token });
+  return oauthClient;
+}
+
+describe('OAuthFlow', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('generates a unique random state per authorization', async () => {
+    const flow = new OAuthFlow(createOAuthClient());
+
+    const first = await flow.start({ scopes: ['character_read'] });
+    const second = await flow.start({ scopes: ['character_read'] });
+
+    expect(first.state).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(first.state).not.toBe(second.state);
+    expect(new URL(first.url).searchParams.get('state')).toBe(first.state);
+    expect(new URL(first.url).searchParams.has('code_challenge')).toBe(false);
+  });
+
+  it('completes a pending authorization and returns its data', async () => {
+    const oauthClient = createOAuthClient();
+    const flow = new OAuthFlow(oauthClient);
+    const { state } = await flow.start({ scopes: ['character_read'], data: { returnTo: '/me' } });
+
+    const result = await flow.complete({ code: 'abc', state });
+
+    expect(result).toEqual({ success: true, token, data: { returnTo: '/me' } });
+    expect(oauthClient.handleCallback).toHaveBeenCalledWith({ code: 'abc', state }, undefined);
+  });
+
+  it('sends an S256 challenge and the matching verifier with PKCE enabled', async () => {
+    const oauthClient = createOAuthClient();
+    const flow = new OAuthFlow(oauthClient, { pkce: true });
+    const { url, state } = await flow.start({ scopes: ['character_read'] });
+
+    await flow.complete({ code: 'abc', state });
+
+    const verifier = vi.mocked(oauthClient.handleCallback).mock.calls[0][1]!;
+    const params = new URL(url).searchParams;
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBe(
+      createHash('sha256').update(verifier).digest('base64url')
+    );
+  });
+
+  it('rejects missing, unknown and replayed state', async () => {
+    const oauthClient = createOAuthClient();
+    const flow = new OAuthFlow(oauthClient);
+    const { state } = await flow.start({ scopes: ['character_read'] });
+
+    await expect(flow.complete({ code: 'abc' })).rejects.toMatchObject({ type: 'auth' });
+    await expect(flow.complete({ code: 'abc', state: 'forged' })).rejects.toThrow(SWCError);
+
+    await flow.complete({ code: 'abc', state });
+    await expect(flow.complete({ code: 'abc', state })).rejects.toMatchObject({ type: 'auth' });
+    expect(oauthClient.handleCallback).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects expired state', async () => {
+    vi.useFakeTimers();
+    const oauthClient = createOAuthClient();
+    const flow = new OAuthFlow(oauthClient, { ttl: 1000 });
+    const { state } = await flow.start({ scopes: ['character_read'] });
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(flow.complete({ code: 'abc', state })).rejects.toThrow('expired');
+    expect(oauthClient.handleCallback).not.toHaveBeenCalled();
+  });
+
+  it('uses a custom store', async () => {
+    const store = new MemoryAuthorizationStore();
+    const save = vi.spyOn(store, 'save');
+    const flow = new OAuthFlow(createOAuthClient(), { store });
+
+    const { state } = await flow.start({ scopes: ['character_read'] });
+
+    expect(save).toHaveBeenCalledWith(expect.objectContaining({ state }));
+    expect(store.take(state)?.scopes).toEqual(['character_read']);
+    expect(store.take(state)).toBeUndefined();
+  });
+});
+
+describe('SWCombine auth flow', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores the token after completeFlow()', async () => {
+    vi.spyOn(OAuthClient.prototype, 'handleCallback').mockResolvedValue({ success: true, token });
+    const client = new SWCombine({
+      clientId: 'id',
+      clientSecret: 'secret',
+      redirectUri: 'https://example.com/callback',
+    });
+
+    const { state } = await client.auth.startFlow({ scopes: ['character_read'] });
+    await client.auth.completeFlow({ code: 'abc', state });
+
+    expect(client.getToken()).toEqual(token);
+  });
+
+  it('requires OAuth credentials', async () => {
+    const client = new SWCombine();
+
+    expect(() => client.auth.startFlow({ scopes: [] })).toThrow(SWCError);
+  });
+});
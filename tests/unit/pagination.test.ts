@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import { paginate, collectAll } from '../../src/resources/pagination.js';
+import { EventsResource } from '../../src/resources/EventsResource.js';
+import { GalaxySystemsResource } from '../../src/resources/GalaxyResource.js';
+import { FactionMembersResource } from '../../src/resources/FactionResource.js';
+import { SWCError } from '../../src/http/errors.js';
+import { createMockHttpClient } from './helpers/mock-http.js';
+import type { HttpClient } from '../../src/http/HttpClient.js';
+
+function range(start: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i);
+}
+
+describe('paginate()', () => {
+  it('walks pages using attributes.start/count/total', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({ attributes: { start: 1, count: 2, total: 5 }, items: [1, 2] })
+      .mockResolvedValueOnce({ attributes: { start: 3, count: 2, total: 5 }, items: [3, 4] })
+      .mockResolvedValueOnce({ attributes: { start: 5, count: 1, total: 5 }, items: [5] });
+
+    const result = await collectAll(paginate({ pageSize: 2 }, fetchPage));
+
+    expect(result).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls).toEqual([
+      [1, 2],
+      [3, 2],
+      [5, 2],
+    ]);
+  });
+
+  it('stops once total is reached without requesting an empty page', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({ attributes: { start: '1', count: '2', total: '4' }, items: [1, 2] })
+      .mockResolvedValueOnce({ attributes: { start: '3', count: '2', total: '4' }, items: [3, 4] });
+
+    const result = await collectAll(paginate({ item_count: 2 }, fetchPage));
+
+    expect(result).toEqual([1, 2, 3, 4]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to item counts when attributes are missing', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({ items: [1, 2] })
+      .mockResolvedValueOnce({ items: [] });
+
+    const result = await collectAll(paginate({ pageSize: 2, start_index: 11 }, fetchPage));
+
+    expect(result).toEqual([1, 2]);
+    expect(fetchPage.mock.calls).toEqual([
+      [11, 2],
+      [13, 2],
+    ]);
+  });
+
+  it('respects maxItems and stops fetching early', async () => {
+    const fetchPage = vi.fn(async (start: number, count: number) => ({
+      attributes: { start, count, total: 1000 },
+      items: range(start, count),
+    }));
+
+    const result = await collectAll(paginate({ pageSize: 10, maxItems: 15 }, fetchPage));
+
+    expect(result).toEqual(range(1, 15));
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('requests at most 1000 items per page', async () => {
+    // The API caps pages at 1000 items whatever item_count asks for
+    const fetchPage = vi.fn(async (start: number, count: number) => ({
+      items: range(start, Math.min(count, 1000, 2500 - start + 1)),
+    }));
+
+    const result = await collectAll(paginate({ pageSize: 5000 }, fetchPage));
+
+    expect(result).toHaveLength(2500);
+    expect(fetchPage.mock.calls).toEqual([
+      [1, 1000],
+      [1001, 1000],
+      [2001, 1000],
+    ]);
+  });
+
+  it('uses 0-based totals when indexBase is 0', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({ attributes: { start: 0, count: 2, total: 3 }, items: ['a', 'b'] })
+      .mockResolvedValueOnce({ attributes: { start: 2, count: 1, total: 3 }, items: ['c'] });
+
+    const result = await collectAll(paginate({ pageSize: 2 }, fetchPage, 0));
+
+    expect(result).toEqual(['a', 'b', 'c']);
+    expect(fetchPage.mock.calls).toEqual([
+      [0, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('rejects with the abort reason before the next page request', async () => {
+    const controller = new AbortController();
+    const fetchPage = vi.fn(async (start: number, count: number) => ({
+      attributes: { start, count, total: 100 },
+      items: range(start, count),
+    }));
+
+    const seen: number[] = [];
+    const iterate = async () => {
+      for await (const item of paginate({ pageSize: 2, signal: controller.signal }, fetchPage)) {
+        seen.push(item);
+        if (item === 2) {
+          controller.abort(new Error('stop'));
+        }
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow('stop');
+    expect(seen).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws a validation error for invalid page sizes', async () => {
+    const fetchPage = vi.fn();
+
+    await expect(collectAll(paginate({ pageSize: 0 }, fetchPage))).rejects.toBeInstanceOf(SWCError);
+    await expect(collectAll(paginate({ pageSize: 0 }, fetchPage))).rejects.toMatchObject({
+      type: 'validation',
+    });
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
+
+describe('resource iterate()/listAll()', () => {
+  it('events.iterate() starts at index 0', async () => {
+    const mockHttp = createMockHttpClient();
+    mockHttp.get
+      .mockResolvedValueOnce({
+        attributes: { start: 0, count: 2, total: 3 },
+        event: [{ uid: 'e1' }, { uid: 'e2' }],
+      })
+      .mockResolvedValueOnce({
+        attributes: { start: 2, count: 1, total: 3 },
+        event: [{ uid: 'e3' }],
+      });
+    const resource = new EventsResource(mockHttp as unknown as HttpClient);
+
+    const events = await resource.listAll({ eventMode: 'personal', pageSize: 2 });
+
+    expect(events.map((event) => event.uid)).toEqual(['e1', 'e2', 'e3']);
+    expect(mockHttp.get).toHaveBeenNthCalledWith(1, '/events/personal', {
+      params: { start_index: 0, item_count: 2 },
+    });
+    expect(mockHttp.get).toHaveBeenNthCalledWith(2, '/events/personal', {
+      params: { start_index: 2, item_count: 2 },
+    });
+  });
+
+  it('galaxy.systems.iterate() reads pagination from the raw list response', async () => {
+    const mockHttp = createMockHttpClient();
+    mockHttp.get
+      .mockResolvedValueOnce({
+        attributes: { start: 1, count: 1, total: 2 },
+        system: [{ attributes: { uid: '24:1', name: 'Tatooine', href: '' } }],
+      })
+      .mockResolvedValueOnce({
+        attributes: { start: 2, count: 1, total: 2 },
+        system: [{ attributes: { uid: '24:2', name: 'Corellia', href: '' } }],
+      });
+    const resource = new GalaxySystemsResource(mockHttp as unknown as HttpClient);
+
+    const names: string[] = [];
+    for await (const system of resource.iterate({ pageSize: 1 })) {
+      names.push(system.attributes.name);
+    }
+
+    expect(names).toEqual(['Tatooine', 'Corellia']);
+    expect(mockHttp.get).toHaveBeenNthCalledWith(2, '/galaxy/systems/', {
+      params: { start_index: 2, item_count: 1 },
+    });
+  });
+
+  it('faction.members.listAll() keeps the faction path for every page', async () => {
+    const mockHttp = createMockHttpClient();
+    mockHttp.get
+      .mockResolvedValueOnce({
+        attributes: { start: 1, count: 2, total: 3 },
+        member: [{ character: 'A' }, { character: 'B' }],
+      })
+      .mockResolvedValueOnce({
+        attributes: { start: 3, count: 1, total: 3 },
+        member: [{ character: 'C' }],
+      });
+    const resource = new FactionMembersResource(mockHttp as unknown as HttpClient);
+
+    const members = await resource.listAll({ factionId: '20:123', item_count: 2 });
+
+    expect(members.map((member) => member.character)).toEqual(['A', 'B', 'C']);
+    expect(mockHttp.get).toHaveBeenNthCalledWith(2, '/faction/20:123/members', {
+      params: { start_index: 3, item_count: 2 },
+    });
+  });
+});
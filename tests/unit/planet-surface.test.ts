@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { PlanetSurface, SWCValidationError, SWCombine } from '../../src/index.js';
+import type { Planet, TypesEntityListItem } from '../../src/index.js';
+
+const terrainTypes: TypesEntityListItem[] = [
+  { attributes: { uid: '26:1', href: '', code: 'a' }, value: 'Forest' },
+  { attributes: { uid: '26:2', href: '', code: 'b' }, value: 'Ocean' },
+  { attributes: { uid: '26:3', href: '', code: 'c' }, value: 'Grassland' },
+];
+
+const planet: Planet = {
+  uid: '23:1',
+  name: 'Tatooine',
+  size: '3',
+  terrainmap: 'aab\nbcc\nccc',
+  grid: {
+    point: [{ attributes: { uid: '26:9', code: 'd', href: '', x: '2', y: '2' }, value: 'Desert' }],
+  },
+  cities: {
+    city: [
+      { attributes: { uid: '5:1', name: 'Mos Eisley', href: '', x: '1', y: '2' } },
+      { attributes: { uid: '5:2', name: 'Anchorhead', href: '', x: 0, y: 0 } },
+    ],
+  },
+};
+
+describe('PlanetSurface', () => {
+  it('decodes the terrain map into a grid linked to terrain types', () => {
+    const surface = new PlanetSurface(planet, terrainTypes);
+
+    expect(surface).toMatchObject({ uid: '23:1', width: 3, height: 3 });
+    expect(surface.tile(2, 0)?.terrain).toEqual({
+      code: 'b',
+      uid: '26:2',
+      name: 'Ocean',
+      type: terrainTypes[1],
+    });
+    expect(
+      surface.terrainMatrix().map((row) => row.map((terrain) => terrain?.code).join(''))
+    ).toEqual(['aab', 'bcc', 'ccc']);
+    expect(surface.tile(3, 0)).toBeUndefined();
+  });
+
+  it('places cities and finds free tiles and terrain counts', () => {
+    const surface = new PlanetSurface(planet, terrainTypes);
+
+    expect(surface.cities).toEqual([
+      { uid: '5:1', name: 'Mos Eisley', x: 1, y: 2 },
+      { uid: '5:2', name: 'Anchorhead', x: 0, y: 0 },
+    ]);
+    expect(surface.tile(1, 2)?.city?.name).toBe('Mos Eisley');
+    expect(surface.terrainCounts().map(({ terrain, count }) => [terrain.name, count])).toEqual([
+      ['Grassland', 5],
+      ['Forest', 2],
+      ['Ocean', 2],
+    ]);
+    expect(surface.freeTiles('grassland').map(({ x, y }) => `${x},${y}`)).toEqual([
+      '1,1',
+      '2,1',
+      '0,2',
+      '2,2',
+    ]);
+    expect(surface.freeTiles('a')).toHaveLength(1);
+    expect(surface.freeTiles()).toHaveLength(7);
+  });
+
+  it('falls back to grid points without a terrain map and validates its size', () => {
+    const surface = new PlanetSurface({ ...planet, size: undefined, terrainmap: undefined });
+    expect(surface.width).toBe(3);
+    expect(surface.tile(2, 2)?.terrain).toEqual({ code: 'd', uid: '26:9', name: 'Desert' });
+    expect(surface.tile(0, 0)?.terrain).toBeUndefined();
+
+    expect(() => new PlanetSurface({ ...planet, terrainmap: 'aabb' })).toThrow(SWCValidationError);
+  });
+});
+
+describe('galaxy.planets.surface', () => {
+  it('fetches the planet and terrain types once', async () => {
+    const client = new SWCombine();
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => {
+      const data = config.url!.startsWith('/types/')
+        ? {
+            terraintypes: {
+              attributes: { start: 1, count: 3, total: 3 },
+              terraintype: terrainTypes,
+            },
+          }
+        : { planet };
+      return Promise.resolve({
+        data: { swcapi: data },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      });
+    });
+    (client as any).http.axios.defaults.adapter = adapter;
+
+    const surface = await client.galaxy.planets.surface({ uid: '23:1' });
+    await client.galaxy.planets.surface({ uid: '23:1' });
+
+    expect(surface.tile(0, 0)?.terrain?.name).toBe('Forest');
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+      '/galaxy/planets/23:1',
+      '/types/terrain/',
+      '/galaxy/planets/23:1',
+    ]);
+  });
+});
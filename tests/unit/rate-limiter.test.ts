@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../../src/http/RateLimiter.js';
+
+function track(promise: Promise<void>): { done: boolean } {
+  const state = { done: false };
+  promise.then(() => {
+    state.done = true;
+  });
+  return state;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('releases requests immediately while burst budget remains', async () => {
+    const limiter = new RateLimiter({ limit: 10, windowMs: 10_000, burst: 2 });
+
+    const first = track(limiter.acquire('/character/1'));
+    const second = track(limiter.acquire('/character/2'));
+    const third = track(limiter.acquire('/character/3'));
+    await Promise.resolve();
+
+    expect(first.done).toBe(true);
+    expect(second.done).toBe(true);
+    expect(third.done).toBe(false);
+    expect(limiter.getQueueSize()).toBe(1);
+
+    // 10 requests per 10s refills one token per second
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(third.done).toBe(true);
+    expect(limiter.getQueueSize()).toBe(0);
+  });
+
+  it('dispatches interactive requests ahead of background ones', async () => {
+    const limiter = new RateLimiter({ limit: 10, windowMs: 10_000, burst: 1 });
+    const order: string[] = [];
+
+    await limiter.acquire('/api/time');
+    limiter.acquire('/galaxy/systems').then(() => order.push('background'));
+    limiter
+      .runWithPriority('interactive', () => limiter.acquire('/character/me'))
+      .then(() => order.push('interactive'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(['interactive']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(['interactive', 'background']);
+  });
+
+  it('blocks until the window resets when the server reports no remaining requests', async () => {
+    const limiter = new RateLimiter();
+    const resetSeconds = Math.floor(Date.now() / 1000) + 120;
+
+    limiter.update('/character/me', {
+      limit: 600,
+      remaining: 0,
+      reset: resetSeconds,
+      resetTime: new Date(resetSeconds * 1000).toISOString(),
+    });
+
+    const pending = track(limiter.acquire('/character/me'));
+    await vi.advanceTimersByTimeAsync(119_000);
+    expect(pending.done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(pending.done).toBe(true);
+  });
+
+  it('applies seeded per-endpoint limits only to matching paths', async () => {
+    const limiter = new RateLimiter();
+    const resetSeconds = Math.floor(Date.now() / 1000) + 60;
+
+    limiter.seed([
+      {
+        attributes: {
+          pattern: '/character/*/messages',
+          limit: 10,
+          remaining: 0,
+          reset: resetSeconds,
+          reset_time: '',
+        },
+      },
+    ]);
+
+    const messages = track(
+      limiter.acquire('https://www.swcombine.com/ws/v2.0/character/1:1/messages/')
+    );
+    const systems = track(limiter.acquire('/galaxy/systems'));
+    await Promise.resolve();
+
+    expect(messages.done).toBe(false);
+    expect(systems.done).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(messages.done).toBe(true);
+  });
+});
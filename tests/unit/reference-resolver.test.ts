@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import { SWCombine, SWCNotFoundError, SWCValidationError, Uid } from '../../src/index.js';
+
+const BASE = 'https://www.swcombine.com/ws/v2.0';
+
+const ref = (uid: string, value: string, href = `${BASE}/${uid}/`) => ({
+  attributes: { uid, href },
+  value,
+});
+
+const responses: Record<string, unknown> = {
+  '/character/1:1': {
+    uid: '1:1',
+    name: 'Luke Skywalker',
+    faction: ref('20:1', 'Rebel Alliance', `${BASE}/faction/20:1/`),
+  },
+  '/faction/20:1': { uid: '20:1', name: 'Rebel Alliance', leader: ref('1:2', 'Mon Mothma') },
+  '/galaxy/systems/24:1': { uid: '24:1', name: 'Tatoo' },
+  '/inventory/ships/2:1': {
+    attributes: { href: `${BASE}/inventory/ships/2:1/` },
+    value: {
+      uid: '2:1',
+      name: 'Starfall',
+      owner: ref('1:1', 'Luke Skywalker', `${BASE}/character/1:1/`),
+      pilot: ref('1:1', 'Luke Skywalker'),
+      location: { system: ref('24:1', 'Tatoo') },
+      type: ref('999:7', 'X-Wing'),
+    },
+  },
+};
+
+function createClient() {
+  const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const data = responses[config.url!];
+    if (!data) {
+      const response = { data: {}, status: 404, statusText: 'Not Found', headers: {}, config };
+      throw new AxiosError('Request failed with status 404', undefined, config, {}, response);
+    }
+    return {
+      data: { swcapi: { response: data } },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    };
+  });
+  const client = new SWCombine({ token: 'token', maxRetries: 0 });
+  (client as any).http.axios.defaults.adapter = adapter;
+  const urls = () => adapter.mock.calls.map(([config]) => config.url);
+  return { client, urls };
+}
+
+describe('client.resolve', () => {
+  it('fetches references by href or UID prefix', async () => {
+    const { client, urls } = createClient();
+
+    await client.resolve(ref('20:1', 'Rebel Alliance', `${BASE}/faction/20:1/`));
+    await client.resolve({ uid: '24:1', href: '' });
+    await client.resolve(Uid.of('character', 1));
+    await client.resolve({ attributes: { uid: '2:1', href: `${BASE}/inventory/ships/2:1/` } });
+
+    expect(urls()).toEqual([
+      '/faction/20:1',
+      '/galaxy/systems/24:1',
+      '/character/1:1',
+      '/inventory/ships/2:1',
+    ]);
+  });
+
+  it('shares one request between concurrent lookups', async () => {
+    const { client, urls } = createClient();
+
+    const [first, second] = await Promise.all([
+      client.resolve('1:1'),
+      client.resolve(ref('1:1', 'Luke Skywalker', `${BASE}/character/1:1/`)),
+    ]);
+
+    expect(first).toBe(second);
+    expect(urls()).toEqual(['/character/1:1']);
+  });
+
+  it('rejects references of unknown kinds', async () => {
+    const { client, urls } = createClient();
+
+    await expect(client.resolve('999:7')).rejects.toThrow(SWCValidationError);
+    await expect(client.resolve('Luke')).rejects.toThrow('Cannot resolve reference Luke');
+    expect(urls()).toEqual([]);
+  });
+});
+
+describe('client.hydrate', () => {
+  it('adds resolved objects to references without changing the input', async () => {
+    const { client, urls } = createClient();
+    const ship = responses['/inventory/ships/2:1'] as any;
+
+    const hydrated = await client.hydrate(ship);
+
+    expect(hydrated.value.owner.resolved).toMatchObject({ name: 'Luke Skywalker' });
+    expect(hydrated.value.pilot.resolved).toBe(hydrated.value.owner.resolved);
+    expect(hydrated.value.location.system.resolved).toEqual({ uid: '24:1', name: 'Tatoo' });
+    expect(hydrated.value.type).toEqual(ship.value.type);
+    expect(ship.value.owner.resolved).toBeUndefined();
+    expect(urls().sort()).toEqual(['/character/1:1', '/galaxy/systems/24:1']);
+  });
+
+  it('follows references in resolved objects up to depth', async () => {
+    const { client, urls } = createClient();
+
+    const hydrated: any = await client.hydrate(responses['/inventory/ships/2:1'], {
+      depth: 2,
+      paths: ['owner'],
+      ignoreErrors: true,
+    });
+
+    expect(hydrated.value.owner.resolved.faction.resolved).toMatchObject({
+      name: 'Rebel Alliance',
+    });
+    expect(hydrated.value.owner.resolved.faction.resolved.leader.resolved).toBeUndefined();
+    expect(hydrated.value.pilot.resolved).toBeUndefined();
+    expect(urls()).toEqual(['/character/1:1', '/faction/20:1']);
+  });
+
+  it('hydrates normalized models and reports failed lookups', async () => {
+    const { client } = createClient();
+    const faction = await client.normalized.faction.get({ uid: '20:1' });
+
+    await expect(client.hydrate(faction, { paths: ['leader'] })).rejects.toThrow(SWCNotFoundError);
+
+    const hydrated = await client.hydrate(faction, { ignoreErrors: true });
+    expect(hydrated.leader).toEqual({ uid: '1:2', name: 'Mon Mothma', href: `${BASE}/1:2/` });
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import {
+  ResponseCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  cacheOwnerFor,
+} from '../../src/http/ResponseCache.js';
+import { HttpClient } from '../../src/http/HttpClient.js';
+import { TokenManager } from '../../src/auth/TokenManager.js';
+
+/**
+ * HttpClient with response caching, backed by the real axios interceptor chain
+ */
+function createClient(
+  data: (config: InternalAxiosRequestConfig) => unknown,
+  tokenManager?: TokenManager,
+  identifyCharacter?: (tokenManager: TokenManager) => Promise<string>
+) {
+  const client = new HttpClient({ cache: {}, identifyCharacter }, tokenManager);
+  const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => ({
+    data: data(config),
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  }));
+  (client as unknown as { axios: { defaults: { adapter: AxiosAdapter } } }).axios.defaults.adapter =
+    adapter;
+  return { client, adapter };
+}
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', { value: 1, expiresAt: Infinity });
+    store.set('b', { value: 2, expiresAt: Infinity });
+    store.get('a');
+    store.set('c', { value: 3, expiresAt: Infinity });
+
+    expect(store.keys().sort()).toEqual(['a', 'c']);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'swc-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('persists entries across store instances', async () => {
+    await new FileCacheStore(directory).set('public|types/entitytypes?', {
+      value: { ok: true },
+      expiresAt: 123,
+    });
+
+    const store = new FileCacheStore(directory);
+    expect(await store.get('public|types/entitytypes?')).toEqual({
+      value: { ok: true },
+      expiresAt: 123,
+    });
+    expect(await store.keys()).toEqual(['public|types/entitytypes?']);
+
+    await store.clear();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('keeps an entry whole when it is written twice at once', async () => {
+    const store = new FileCacheStore(directory);
+    const long = { value: 'x'.repeat(100000), expiresAt: 1 };
+    const short = { value: 'y', expiresAt: 2 };
+
+    await Promise.all([store.set('key', long), store.set('key', short)]);
+
+    expect([long, short]).toContainEqual(await store.get('key'));
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+});
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies the most specific TTL policy', () => {
+    const cache = new ResponseCache({
+      ttl: { '/galaxy/systems/*/planets': 0, '/character': 5000 },
+    });
+
+    expect(cache.ttlFor('/types/entitytypes')).toBe(24 * 60 * 60 * 1000);
+    expect(cache.ttlFor('/galaxy/systems/')).toBe(24 * 60 * 60 * 1000);
+    expect(cache.ttlFor('/galaxy/systems/24:1/planets')).toBe(0);
+    expect(cache.ttlFor('/character/1:1')).toBe(5000);
+    expect(cache.ttlFor('/events/personal')).toBe(0);
+  });
+
+  it('builds keys from owner, path and sorted params without the access token', () => {
+    const cache = new ResponseCache();
+
+    expect(
+      cache.keyFor('/galaxy/systems/', { item_count: 50, start_index: 1, access_token: 'x' }, 'abc')
+    ).toBe('abc|galaxy/systems?item_count=50&start_index=1');
+  });
+
+  it('expires entries and counts hits and misses', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache();
+
+    await cache.set('k', 'value', 1000);
+    expect(await cache.get('k')).toBe('value');
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.get('k')).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('invalidates entries by path pattern', async () => {
+    const cache = new ResponseCache();
+    await cache.set('public|types/vehicles?', 1, 1000);
+    await cache.set('public|types/ships?item_count=50', 2, 1000);
+    await cache.set('public|factions?', 3, 1000);
+
+    await cache.invalidate('/types/*');
+
+    expect(await cache.get('public|types/vehicles?')).toBeUndefined();
+    expect(await cache.get('public|types/ships?item_count=50')).toBeUndefined();
+    expect(await cache.get('public|factions?')).toBe(3);
+  });
+
+  it('derives stable owners from tokens', () => {
+    expect(cacheOwnerFor(null)).toBe('public');
+    expect(cacheOwnerFor({ accessToken: 'a', refreshToken: 'r', expiresAt: 0 })).toBe(
+      cacheOwnerFor({ accessToken: 'b', refreshToken: 'r', expiresAt: 0 })
+    );
+    expect(cacheOwnerFor({ accessToken: 'a', expiresAt: 0 })).not.toBe(
+      cacheOwnerFor({ accessToken: 'b', expiresAt: 0 })
+    );
+  });
+});
+
+describe('HttpClient caching', () => {
+  it('serves repeated GETs of cacheable endpoints from the cache', async () => {
+    const { client, adapter } = createClient(() => ({ faction: [] }));
+
+    await client.get('/factions', { params: { start_index: 1 } });
+    const second = await client.get('/factions', { params: { start_index: 1 } });
+
+    expect(second).toEqual({ faction: [] });
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(client.getCacheStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('does not cache endpoints without a TTL policy', async () => {
+    const { client, adapter } = createClient(() => ({}));
+
+    await client.get('/character/me');
+    await client.get('/character/me');
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(client.getCacheStats()).toEqual({ hits: 0, misses: 0 });
+  });
+
+  it('keys entries by the request as rewritten by middleware', async () => {
+    const { client, adapter } = createClient((config) => ({ page: config.params.start_index }));
+    let page = 1;
+    const afterResponse = vi.fn();
+    client.use({
+      beforeRequest: (request) => {
+        request.params.start_index = page;
+      },
+      afterResponse,
+    });
+
+    await client.get('/types/entitytypes');
+    page = 2;
+    expect(await client.get('/types/entitytypes')).toEqual({ page: 2 });
+    expect(await client.get('/types/entitytypes')).toEqual({ page: 2 });
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(afterResponse.mock.calls.map(([, response]) => response.fromCache)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it('returns copies, so modifying a result does not change the cache', async () => {
+    const { client } = createClient(() => ({ faction: [{ name: 'Empire' }] }));
+
+    const first = await client.get('/factions');
+    first.faction.push({ name: 'Rebels' });
+    const second = await client.get('/factions');
+    second.faction[0].name = 'Changed';
+
+    expect(await client.get('/factions')).toEqual({ faction: [{ name: 'Empire' }] });
+  });
+
+  it('keeps entries per character across token refreshes', async () => {
+    const tokenManager = new TokenManager({
+      accessToken: 'first-token',
+      refreshToken: 'first-refresh',
+      expiresAt: Date.now() + 3600 * 1000,
+    });
+    tokenManager.setRefreshCallback(async () => ({
+      accessToken: 'second-token',
+      refreshToken: 'second-refresh',
+      expiresAt: Date.now() + 3600 * 1000,
+    }));
+    const identifyCharacter = vi.fn(async () => '1:1');
+    const { client, adapter } = createClient(() => ({}), tokenManager, identifyCharacter);
+
+    await Promise.all([client.get('/types/entitytypes'), client.get('/types/classes')]);
+    await tokenManager.refreshToken();
+    await client.get('/types/entitytypes');
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(identifyCharacter).toHaveBeenCalledTimes(1);
+    expect(tokenManager.getCharacterUid()).toBe('1:1');
+
+    // A token set from outside may belong to someone else
+    identifyCharacter.mockResolvedValue('1:2');
+    tokenManager.setToken('other-token');
+    await client.get('/types/entitytypes');
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps separate entries per token while the character is unknown', async () => {
+    const tokenManager = new TokenManager('first-token');
+    const { client, adapter } = createClient(() => ({}), tokenManager);
+
+    await client.get('/types/entitytypes');
+    tokenManager.setToken('second-token');
+    await client.get('/types/entitytypes');
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches after invalidateCache()', async () => {
+    const { client, adapter } = createClient(() => ({}));
+
+    await client.get('/galaxy/sectors/');
+    await client.invalidateCache('/galaxy/sectors');
+    await client.get('/galaxy/sectors/');
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+});
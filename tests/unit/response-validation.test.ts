@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { SWCombine, SWCSchemaError, validateSchema } from '../../src/index.js';
+import type { ClientConfig } from '../../src/index.js';
+
+const ship = {
+  attributes: { href: 'https://www.swcombine.com/ws/v2.0/inventory/ships/2:1/' },
+  value: {
+    uid: '2:1',
+    name: 'Starfall',
+    protected: 'no',
+    hull: { value: 120, attributes: { max: 150 } },
+    tags: { tag: ['fleet'] },
+  },
+};
+
+const transaction = {
+  attributes: { transaction_id: 1001 },
+  time: { years: 26, days: 120, hours: 10, mins: 51, secs: 3, timestamp: '1742925063' },
+  amount: 5000,
+  sender: { attributes: { uid: '1:1' }, value: 'Luke' },
+  receiver: { attributes: { uid: '1:2' }, value: 'Leia' },
+  communication: 'Payment',
+};
+
+function createClient(validateResponses: ClientConfig['validateResponses'], data: unknown) {
+  const client = new SWCombine({ token: 'token', maxRetries: 0, validateResponses });
+  (client as any).http.axios.defaults.adapter = (config: InternalAxiosRequestConfig) =>
+    Promise.resolve({
+      data: { swcapi: { response: data } },
+      status: 200,
+      statusText: 'OK',
+      headers: { 'x-request-id': 'req-42' },
+      config,
+    });
+  return client;
+}
+
+describe('validateSchema', () => {
+  it('accepts responses matching the schema and extra fields', () => {
+    expect(validateSchema('ShipEntity', { ...ship, extra: true })).toEqual([]);
+    expect(validateSchema('CreditLogEntry', transaction)).toEqual([]);
+    expect(validateSchema('Planet', { uid: '23:1', name: 'Tatooine', size: '10' })).toEqual([]);
+  });
+
+  it('reports the path of each field that broke the contract', () => {
+    const drifted = {
+      ...ship,
+      value: { ...ship.value, protected: true, hull: { value: 120, attributes: { max: '150' } } },
+    };
+
+    expect(validateSchema('ShipEntity', drifted)).toEqual([
+      { path: 'value.protected', expected: "'yes' | 'no'", received: 'boolean' },
+      { path: 'value.hull.attributes.max', expected: 'number', received: 'string' },
+    ]);
+    expect(validateSchema('System', { uid: '24:1' })).toEqual([
+      { path: 'name', expected: 'string', received: 'undefined' },
+    ]);
+  });
+
+  it('reports nested fields of union members', () => {
+    expect(
+      validateSchema('Planet', {
+        uid: '23:1',
+        name: 'Tatooine',
+        governor: { attributes: { uid: '1:1', href: '' } },
+      })
+    ).toEqual([{ path: 'governor.value', expected: 'string', received: 'undefined' }]);
+  });
+});
+
+describe('SWCombine validateResponses', () => {
+  it('throws SWCSchemaError in strict mode', async () => {
+    const client = createClient('strict', { ...ship, value: { name: 'Starfall' } });
+
+    const error = await client.inventory.entities
+      .get({ entityType: 'ships', uid: '2:1' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SWCSchemaError);
+    expect(error).toMatchObject({
+      type: 'schema',
+      schema: 'ShipEntity',
+      requestId: 'req-42',
+      endpoint: '/inventory/ships/2:1',
+      issues: [{ path: 'value.uid', expected: 'string', received: 'undefined' }],
+    });
+    expect(error.message).toContain('request req-42');
+  });
+
+  it('reports issues and returns the data in warn mode', async () => {
+    const onIssue = vi.fn();
+    const client = createClient(
+      { mode: 'warn', onIssue },
+      { transaction: [transaction, { ...transaction, amount: '5000' }] }
+    );
+
+    const entries = await client.character.creditlog.list({ uid: '1:1' });
+
+    expect(entries).toHaveLength(2);
+    expect(onIssue).toHaveBeenCalledWith({
+      schema: 'CreditLogEntry',
+      method: 'GET',
+      endpoint: '/character/1:1/creditlog',
+      requestId: 'req-42',
+      issues: [{ path: 'transaction[1].amount', expected: 'number', received: 'string' }],
+    });
+  });
+
+  it('logs with console.warn by default and skips validation when off', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      await createClient('warn', { uid: '24:1' }).galaxy.systems.get({ uid: '24:1' });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('does not match System'));
+
+      warn.mockClear();
+      await createClient('off', { uid: '24:1' }).galaxy.systems.get({ uid: '24:1' });
+      await createClient(undefined, { uid: '24:1' }).galaxy.systems.get({ uid: '24:1' });
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { RouteGraph, SWCValidationError, SWCombine } from '../../src/index.js';
+import type { GalaxySystemListItem, System } from '../../src/index.js';
+
+const listItem = (uid: string, name: string, x: number, y: number): GalaxySystemListItem => ({
+  attributes: { uid, name, href: '' },
+  location: { coordinates: { galaxy: { attributes: { x: String(x), y: String(y) } } } },
+});
+
+const systems = [
+  listItem('24:1', 'Tatoo', 0, 0),
+  listItem('24:2', 'Geonosis', 10, 0),
+  listItem('24:3', 'Ryloth', 20, 0),
+  listItem('24:4', 'Kessel', 10, 10),
+];
+
+const tatoo: System = {
+  uid: '24:1',
+  name: 'Tatoo',
+  hyperlanes: {
+    hyperlane: [{ value: 'Ryloth', attributes: { destination: '24:3', blocks: 25, modifier: 4 } }],
+  },
+};
+
+describe('RouteGraph', () => {
+  it('prefers hyperlanes when optimizing travel time', () => {
+    const graph = new RouteGraph([...systems, tatoo]);
+
+    const route = graph.plan('24:1', 'Ryloth', { hyperspeed: 2 })!;
+
+    expect(route.legs).toEqual([
+      {
+        from: { uid: '24:1', name: 'Tatoo', x: 0, y: 0 },
+        to: { uid: '24:3', name: 'Ryloth', x: 20, y: 0 },
+        via: 'hyperlane',
+        distance: 25,
+        modifier: 4,
+        seconds: 11250,
+      },
+    ]);
+    expect(route.seconds).toBe(11250);
+
+    const shortest = graph.plan('24:1', 'Ryloth', { hyperspeed: 2, optimize: 'shortest' })!;
+    expect(shortest.legs.map((leg) => leg.via)).toEqual(['jump']);
+    expect(shortest).toMatchObject({ distance: 20, seconds: 36000 });
+  });
+
+  it('merges a lane listed by both of its systems or added again', () => {
+    const ryloth: System = {
+      uid: '24:3',
+      name: 'Ryloth',
+      hyperlanes: {
+        hyperlane: [{ value: 'Tatoo', attributes: { destination: '24:1', modifier: 5 } }],
+      },
+    };
+    const graph = new RouteGraph([...systems, tatoo, tatoo, ryloth]);
+    const lanes = (uid: string) => (graph as any).byUid.get(uid).lanes.size;
+
+    expect(lanes('24:1')).toBe(1);
+    expect(lanes('24:3')).toBe(1);
+    expect(graph.plan('Ryloth', 'Tatoo', { hyperspeed: 2 })!.legs).toMatchObject([
+      { via: 'hyperlane', distance: 25, modifier: 5, seconds: 9000 },
+    ]);
+  });
+
+  it('reads a single hyperlane sent as a bare object', () => {
+    const graph = new RouteGraph(systems);
+    graph.addSystem({
+      ...tatoo,
+      hyperlanes: { hyperlane: tatoo.hyperlanes!.hyperlane![0] },
+    } as unknown as System);
+
+    expect(graph.plan('Tatoo', 'Ryloth')!.legs.map((leg) => leg.via)).toEqual(['hyperlane']);
+  });
+
+  it('chains straight-line jumps up to maxJump, including to free coordinates', () => {
+    const graph = new RouteGraph(systems);
+
+    const route = graph.plan('Tatoo', { x: 30, y: 0 }, { maxJump: 10, optimize: 'shortest' })!;
+    expect(route.legs.map((leg) => leg.to.name ?? `${leg.to.x},${leg.to.y}`)).toEqual([
+      'Geonosis',
+      'Ryloth',
+      '30,0',
+    ]);
+    expect(route.distance).toBe(30);
+
+    expect(graph.plan('Tatoo', 'Kessel', { maxJump: 10 })!.legs.map((leg) => leg.to.name)).toEqual([
+      'Geonosis',
+      'Kessel',
+    ]);
+    expect(graph.plan('Tatoo', 'Kessel', { maxJump: 5 })).toBeUndefined();
+  });
+
+  it('finds jump routes across a large grid', () => {
+    const grid: GalaxySystemListItem[] = [];
+    for (let x = 0; x < 60; x++) {
+      for (let y = 0; y < 60; y++) {
+        grid.push(listItem(`24:${x * 60 + y + 1}`, `S${x}-${y}`, x * 5, y * 5));
+      }
+    }
+    const graph = new RouteGraph(grid);
+
+    const route = graph.plan('S0-0', 'S59-0', { maxJump: 12, optimize: 'shortest' })!;
+    expect(route.distance).toBe(295);
+    expect(route.legs.every((leg) => leg.distance <= 12)).toBe(true);
+    expect(graph.plan('S0-0', 'S59-59')!.legs).toHaveLength(1);
+  });
+
+  it('rejects unknown systems and invalid options', () => {
+    const graph = new RouteGraph(systems);
+
+    expect(() => graph.plan('Alderaan', 'Tatoo')).toThrow(SWCValidationError);
+    expect(() => graph.plan('24:99', 'Tatoo')).toThrow('Unknown system "24:99"');
+    expect(() => graph.plan('Tatoo', 'Ryloth', { hyperspeed: 0 })).toThrow('hyperspeed');
+  });
+});
+
+describe('galaxy.routes', () => {
+  it('loads systems and hyperlanes through the API', async () => {
+    const client = new SWCombine({ token: 'token' });
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => {
+      const uid = config.url!.split('/')[3];
+      const data = uid
+        ? { system: uid === '24:1' ? tatoo : { uid, name: 'System' } }
+        : { systems: { attributes: { start: 1, count: 4, total: 4 }, system: systems } };
+      return Promise.resolve({
+        data: { swcapi: data },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      });
+    });
+    (client as any).http.axios.defaults.adapter = adapter;
+
+    const graph = await client.galaxy.routes.load({ hyperlanes: true });
+    expect(graph.size).toBe(4);
+    expect(adapter).toHaveBeenCalledTimes(5);
+
+    const route = await client.galaxy.routes.plan('Tatoo', '24:3', { hyperspeed: 2 });
+    expect(route?.legs.map((leg) => leg.via)).toEqual(['hyperlane']);
+    expect(adapter).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { AxiosError } from 'axios';
+import {
+  SWCombine,
+  SWCError,
+  SWCScopeError,
+  SCOPE_MAP,
+  explainMissingScopes,
+  findScopeRequirement,
+  hasScope,
+  getAllScopes,
+} from '../../src/index.js';
+import type { ResponseCacheOptions } from '../../src/index.js';
+
+function ok(config: InternalAxiosRequestConfig, data: unknown) {
+  return Promise.resolve({ data, status: 200, statusText: 'OK', headers: {}, config });
+}
+
+describe('SCOPE_MAP', () => {
+  it('only references scopes defined in auth/scopes', () => {
+    const known = new Set(getAllScopes());
+    const templated = /\{entityType\}/;
+
+    for (const [name, requirement] of Object.entries(SCOPE_MAP)) {
+      for (const scope of requirement.anyOf) {
+        const valid = templated.test(scope)
+          ? known.has(scope.replace('{entityType}', 'ships'))
+          : known.has(scope);
+        expect(valid, `${name}: ${scope}`).toBe(true);
+      }
+    }
+  });
+
+  it('matches requests to resource methods and fills path placeholders', () => {
+    expect(findScopeRequirement('put', '/character/1:1/messages')).toEqual({
+      name: 'character.messages.create',
+      anyOf: ['messages_send'],
+    });
+    expect(findScopeRequirement('GET', '/inventory/1:1/ships/owner')?.anyOf).toEqual([
+      'personal_inv_ships_read',
+      'faction_inv_ships_read',
+    ]);
+    expect(findScopeRequirement('GET', '/faction/')?.name).toBe('faction.get');
+    expect(findScopeRequirement('GET', '/faction/20:1')?.name).toBe('faction.get');
+    expect(findScopeRequirement('GET', '/character/1:1/messages/sent')?.anyOf).toEqual([
+      'messages_read',
+    ]);
+    expect(findScopeRequirement('GET', '/character/handlecheck/luke')).toBeUndefined();
+    expect(findScopeRequirement('GET', '/galaxy/planets/')).toBeUndefined();
+  });
+});
+
+describe('hasScope', () => {
+  it('accepts the group _all scope and ignores case', () => {
+    expect(hasScope(['CHARACTER_ALL'], 'character_credits')).toBe(true);
+    expect(hasScope(['personal_inv_ships_all'], 'personal_inv_ships_tags_write')).toBe(true);
+    expect(hasScope(['personal_inv_ships_all'], 'personal_inv_vehicles_read')).toBe(false);
+    expect(hasScope(['messages_read'], 'messages_send')).toBe(false);
+  });
+});
+
+describe('explainMissingScopes', () => {
+  it('lists one scope per method that is not allowed', () => {
+    expect(
+      explainMissingScopes(
+        ['character.messages.list', 'character.messages.create', 'character.credits.get'],
+        ['messages_read']
+      )
+    ).toEqual(['messages_send', 'character_credits']);
+  });
+
+  it('throws for unknown methods', () => {
+    expect(() => explainMissingScopes(['character.fly'], [])).toThrow(SWCError);
+  });
+});
+
+describe('SWCombine strictScopes', () => {
+  function createClient(
+    scopes: string[],
+    options: { cache?: ResponseCacheOptions; canReadSelf?: boolean } = {}
+  ) {
+    const client = new SWCombine({ token: 'token', strictScopes: true, cache: options.cache });
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => {
+      if (config.url === '/character/') {
+        if (options.canReadSelf === false) {
+          const response = { data: {}, status: 403, statusText: 'Forbidden', headers: {}, config };
+          return Promise.reject(new AxiosError('Forbidden', undefined, config, {}, response));
+        }
+        return ok(config, { swcapi: { character: { uid: '1:1', name: 'Luke' } } });
+      }
+      if (config.url === '/character/1:1/permissions') {
+        return ok(config, {
+          swcapi: { permissions: { permission: [{ scopes: { scope: scopes } }] } },
+        });
+      }
+      return ok(config, { swcapi: { credits: 100 } });
+    });
+    (client as any).http.axios.defaults.adapter = adapter;
+    return { client, adapter };
+  }
+
+  it('rejects calls missing a scope before sending them', async () => {
+    const { client, adapter } = createClient(['CHARACTER_READ']);
+
+    await expect(client.character.credits.get({ uid: '1:1' })).rejects.toMatchObject({
+      type: 'auth',
+      message: expect.stringContaining('character.credits.get requires one of these scopes'),
+    });
+
+    const urls = adapter.mock.calls.map(([config]) => config.url);
+    expect(urls).toEqual(['/character/', '/character/1:1/permissions']);
+  });
+
+  it('sends allowed calls and looks up granted scopes once', async () => {
+    const { client, adapter } = createClient(['character_credits']);
+
+    await client.character.credits.get({ uid: '1:1' });
+    await client.character.credits.get({ uid: '1:1' });
+
+    const urls = adapter.mock.calls.map(([config]) => config.url);
+    expect(urls).toEqual([
+      '/character/',
+      '/character/1:1/permissions',
+      '/character/1:1/credits',
+      '/character/1:1/credits',
+    ]);
+  });
+
+  it('reports a token that cannot look up its own scopes as missing character_read', async () => {
+    const { client, adapter } = createClient(['character_credits'], { canReadSelf: false });
+
+    const error = await client.character.credits.get({ uid: '1:1' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SWCScopeError);
+    expect(error).toMatchObject({
+      requiredScopes: ['character_read'],
+      message: expect.stringContaining('character.credits.get could not be checked'),
+    });
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual(['/character/']);
+  });
+
+  it('shares one character lookup between the scope check and the response cache', async () => {
+    const { client, adapter } = createClient(['character_credits', 'character_read'], {
+      cache: { ttl: { '/character/*': 60000 } },
+    });
+
+    await client.character.credits.get({ uid: '1:1' });
+    await client.character.get({ uid: '1:1' });
+
+    const urls = adapter.mock.calls.map(([config]) => config.url);
+    expect(urls.filter((url) => url === '/character/')).toHaveLength(1);
+  });
+
+  it('explains missing scopes for the current token', async () => {
+    const { client } = createClient(['character_read']);
+
+    expect(
+      await client.explainMissingScopes(['character.me', 'character.credits.transfer'])
+    ).toEqual(['character_credits_write']);
+  });
+});
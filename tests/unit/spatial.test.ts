@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import {
+  SWCValidationError,
+  SWCombine,
+  SpatialIndex,
+  isPointInPolygon,
+  normalizeCoordinates,
+  sectorPolygon,
+  toCoordinates,
+} from '../../src/index.js';
+import type { GalaxySectorListItem, GalaxySystemListItem, Sector } from '../../src/index.js';
+
+const system = (
+  uid: string,
+  name: string,
+  x: number | string,
+  y: number | string,
+  sector = '25:1'
+) =>
+  ({
+    attributes: { uid, name, href: '' },
+    location: {
+      container: { value: 'Arkanis', attributes: { uid: sector, href: '', type: 'sector' } },
+      coordinates: { galaxy: { attributes: { x, y } } },
+    },
+  }) as GalaxySystemListItem;
+
+const systems = [
+  system('24:1', 'Tatoo', 0, 0),
+  system('24:2', 'Geonosis', '3', '4'),
+  system('24:3', 'Ryloth', 20, 0, '25:2'),
+];
+
+const sectorItems: GalaxySectorListItem[] = [
+  { attributes: { uid: '25:1', name: 'Arkanis', href: '' } },
+  { attributes: { uid: '25:2', name: 'Gaulus', href: '' } },
+];
+
+const arkanis: Sector = {
+  uid: '25:1',
+  name: 'Arkanis',
+  coordinates: {
+    point: [
+      { attributes: { x: '-5', y: '-5' } },
+      { attributes: { x: '10', y: '-5' } },
+      { attributes: { x: '10', y: '10' } },
+      { attributes: { x: '-5', y: '10' } },
+    ],
+  },
+};
+
+describe('coordinates', () => {
+  it('normalizes API points to numbers', () => {
+    expect(toCoordinates({ attributes: { x: '12', y: -4 } })).toEqual({ x: 12, y: -4 });
+    expect(toCoordinates({ attributes: null })).toBeUndefined();
+    expect(toCoordinates({ attributes: { x: '', y: 1 } })).toBeUndefined();
+    expect(
+      normalizeCoordinates({
+        galaxy: { attributes: { x: '1', y: '2' } },
+        system: { attributes: null },
+        surface: { attributes: { x: 3, y: 4 } },
+      })
+    ).toEqual({ galaxy: { x: 1, y: 2 }, surface: { x: 3, y: 4 } });
+  });
+
+  it('tests points against sector outlines, including their borders', () => {
+    const polygon = sectorPolygon(arkanis);
+    expect(polygon).toHaveLength(4);
+    expect(isPointInPolygon({ x: 0, y: 0 }, polygon)).toBe(true);
+    expect(isPointInPolygon({ x: 10, y: 3 }, polygon)).toBe(true);
+    expect(isPointInPolygon({ x: -5, y: -5 }, polygon)).toBe(true);
+    expect(isPointInPolygon({ x: 11, y: 3 }, polygon)).toBe(false);
+
+    const single = sectorPolygon({ point: { attributes: { x: 1, y: 1 } } } as any);
+    expect(single).toEqual([{ x: 1, y: 1 }]);
+  });
+});
+
+describe('SpatialIndex', () => {
+  it('finds systems within a radius, nearest first', () => {
+    const index = new SpatialIndex(systems, sectorItems);
+
+    expect(index.size).toBe(3);
+    expect(index.within('Tatoo', 5)).toEqual([
+      { system: { uid: '24:2', name: 'Geonosis', x: 3, y: 4, sector: '25:1' }, distance: 5 },
+    ]);
+    expect(index.within({ x: 19, y: 0 }, 20).map((found) => found.system.name)).toEqual([
+      'Ryloth',
+      'Geonosis',
+      'Tatoo',
+    ]);
+    expect(() => index.within('Alderaan', 5)).toThrow(SWCValidationError);
+    expect(() => index.within('24:1', -1)).toThrow('radius');
+  });
+
+  it('finds the sector containing a point from outlines, or from systems without them', () => {
+    const index = SpatialIndex.fromSnapshot(
+      {
+        version: 1,
+        createdAt: '',
+        sectors: sectorItems,
+        systems,
+        planets: [],
+        stations: [],
+        cities: [],
+      },
+      [arkanis]
+    );
+
+    expect(index.sectorAt({ x: 7, y: 7 })).toMatchObject({ uid: '25:1', name: 'Arkanis' });
+    expect(index.sectorAt({ x: 20, y: 0 })).toEqual({ uid: '25:2', name: 'Gaulus', polygon: [] });
+    expect(index.sectorAt({ x: 50, y: 50 })).toBeUndefined();
+  });
+});
+
+describe('galaxy.loadSpatialIndex', () => {
+  it('loads systems, sectors and sector outlines', async () => {
+    const client = new SWCombine();
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => {
+      const [, , collection, uid] = config.url!.split('/');
+      const data =
+        collection === 'systems'
+          ? { systems: { attributes: { start: 1, count: 3, total: 3 }, system: systems } }
+          : uid
+            ? { sector: uid === '25:1' ? arkanis : { uid, name: 'Gaulus' } }
+            : { sectors: { attributes: { start: 1, count: 2, total: 2 }, sector: sectorItems } };
+      return Promise.resolve({
+        data: { swcapi: data },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      });
+    });
+    (client as any).http.axios.defaults.adapter = adapter;
+
+    const index = await client.galaxy.loadSpatialIndex();
+
+    expect(adapter).toHaveBeenCalledTimes(4);
+    expect(index.sectorAt({ x: -5, y: 9 })?.name).toBe('Arkanis');
+    expect(index.within('24:3', 18).map((found) => found.system.uid)).toEqual(['24:2']);
+  });
+});
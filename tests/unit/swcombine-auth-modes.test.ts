@@ -21,6 +21,12 @@ describe('SWCombine auth modes', () => {
     );
   });
 
+  it('throws when autoRefresh is enabled without OAuth credentials', () => {
+    expect(() => new SWCombine({ token: 'access-token', autoRefresh: true })).toThrow(
+      'autoRefresh requires clientId and clientSecret to refresh tokens.'
+    );
+  });
+
   it('throws SWCError when token-only client calls OAuth authorization URL', () => {
     const client = new SWCombine({ token: 'access-token' });
 
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { SWCombine, Timestamp, attachCgt, isTimeBlob } from '../../src/index.js';
+
+const moment = new Timestamp({ year: 25, day: 60, hour: 6, minute: 3, second: 12 });
+const unix = moment.toUnixTimestamp('sec');
+const blob = { years: 25, days: 60, hours: 6, mins: 3, secs: 12, timestamp: String(unix) };
+
+function mockClient(
+  config: ConstructorParameters<typeof SWCombine>[0],
+  data: (url: string) => unknown
+): SWCombine {
+  const client = new SWCombine({ token: 'token', ...config });
+  (client as any).http.axios.defaults.adapter = (request: InternalAxiosRequestConfig) =>
+    Promise.resolve({
+      data: { swcapi: data(request.url ?? '') },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: request,
+    });
+  return client;
+}
+
+describe('Timestamp.fromTimeBlob', () => {
+  it('converts every API time shape', () => {
+    expect(Timestamp.fromTimeBlob(blob).equals(moment)).toBe(true);
+    expect(Timestamp.fromTimeBlob({ ...blob, timestamp: unix }).equals(moment)).toBe(true);
+    expect(Timestamp.fromTimeBlob({ years: 25, days: 60, hours: 6, mins: 3, secs: 12 })).toEqual(
+      moment
+    );
+    expect(Timestamp.fromTimeBlob(String(unix)).equals(moment)).toBe(true);
+    expect(Timestamp.fromTimeBlob(unix).toDate()).toEqual(new Date(unix * 1000));
+  });
+
+  it('throws for values that are not a time', () => {
+    expect(() => Timestamp.fromTimeBlob({ hours: 3 })).toThrow(RangeError);
+    expect(() => Timestamp.fromTimeBlob('soon')).toThrow(RangeError);
+  });
+});
+
+describe('attachCgt', () => {
+  it('attaches a parsed cgt to nested time blobs in a copy', () => {
+    const messages = [{ uid: '38:1', time: { ...blob } }];
+    const event = { uid: '40:1', type: 'login', timestamp: String(unix) };
+    const elapsed = { years: 0, days: 0, hours: 2, mins: 0, secs: 0 };
+
+    const decorated = attachCgt(messages);
+    expect(decorated[0].time).toHaveProperty('cgt', moment);
+    expect(messages[0].time).not.toHaveProperty('cgt');
+    expect(attachCgt(event).cgt?.equals(moment)).toBe(true);
+    expect(attachCgt(elapsed)).not.toHaveProperty('cgt');
+    expect(isTimeBlob({ uid: '1:1' })).toBe(false);
+    expect(isTimeBlob(event)).toBe(false);
+  });
+});
+
+describe('cgtTimestamps client option', () => {
+  it('attaches cgt to responses only when enabled', async () => {
+    const data = (url: string) =>
+      url.startsWith('/events')
+        ? {
+            events: {
+              attributes: { start: 0 },
+              event: [{ uid: '40:1', type: 'x', timestamp: String(unix) }],
+            },
+          }
+        : {
+            newsitem: {
+              url: '',
+              title: 'News',
+              id: 1,
+              author: 'GNS',
+              faction: {},
+              posted: { ...blob, timestamp: unix },
+            },
+          };
+
+    const client = mockClient({ cgtTimestamps: true }, data);
+    const [event] = await client.events.list({ eventMode: 'personal' });
+    expect(event.cgt?.equals(moment)).toBe(true);
+    const news = await client.news.gns.get({ id: 1 });
+    expect(news.posted?.cgt?.equals(moment)).toBe(true);
+
+    const plain = mockClient({}, data);
+    expect((await plain.events.list({ eventMode: 'personal' }))[0]).not.toHaveProperty('cgt');
+  });
+});
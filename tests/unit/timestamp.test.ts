@@ -117,6 +117,56 @@ describe('Timestamp utility', () => {
     expect(ts.toString('{yy}-{dd} {hh}:{mm}:{ss}')).toBe('25-06 08:12:14');
   });
 
+  it('parses every preset and custom templates', () => {
+    const ts = new Timestamp({ year: 25, day: 6, hour: 8, minute: 12, second: 14 });
+    const presets: TimestampFormat[] = [
+      'full',
+      'minute',
+      'day',
+      'shortFull',
+      'shortMinute',
+      'shortDay',
+    ];
+
+    for (const preset of presets) {
+      const parsed = Timestamp.parse(ts.toString(preset), preset);
+      expect(parsed.toString(preset)).toBe(ts.toString(preset));
+    }
+    expect(Timestamp.parse('Year 25 Day 6, 8:12:14').equals(ts)).toBe(true);
+    expect(Timestamp.parse('  y25   d6 ').asMoment()).toMatchObject({ year: 25, day: 6, hour: 0 });
+
+    const custom = '{hms} on Day {d} of Year {y}';
+    expect(Timestamp.parse(ts.toString(custom), custom).equals(ts)).toBe(true);
+    expect(Timestamp.parse('25-06 08:12:14', '{yy}-{dd} {hh}:{mm}:{ss}').equals(ts)).toBe(true);
+  });
+
+  it('throws RangeError for text that cannot be parsed', () => {
+    expect(() => Timestamp.parse('Day 6 of Year 25')).toThrow(RangeError);
+    expect(() => Timestamp.parse('Year 25 Day 400')).toThrow(RangeError);
+    expect(() => Timestamp.parse('08:12', '{hh}:{mm}')).toThrow('year and day');
+    expect(() => Timestamp.parse('Y25 D6 x', 'Y{y} D{d} {x}')).toThrow('Unknown format tag {x}');
+  });
+
+  it('compares timestamps', () => {
+    const early = new Timestamp({ year: 25, day: 6 });
+    const late = early.add({ seconds: 1 });
+
+    expect(early.isBefore(late)).toBe(true);
+    expect(late.isAfter(early)).toBe(true);
+    expect(early.equals(new Timestamp({ year: 25, day: 6 }))).toBe(true);
+    expect(early.compare(early)).toBe(0);
+    expect([late, early].sort(Timestamp.compare)).toEqual([early, late]);
+  });
+
+  it('rounds to the start and end of a unit', () => {
+    const ts = new Timestamp({ year: 25, day: 60, hour: 6, minute: 3, second: 12 });
+
+    expect(ts.startOf('day').toString()).toBe('Year 25 Day 60, 0:00:00');
+    expect(ts.endOf('day').toString()).toBe('Year 25 Day 60, 23:59:59');
+    expect(ts.startOf('hour').toString()).toBe('Year 25 Day 60, 6:00:00');
+    expect(ts.endOf('year').toString()).toBe('Year 25 Day 365, 23:59:59');
+  });
+
   it('exports timestamp types from package entrypoint', () => {
     const moment: TimestampMoment = { year: 2, day: 10 };
     const duration: Duration = { years: 0, days: 1, hours: 2, minutes: 3, seconds: 4 };
@@ -175,10 +175,120 @@ describe('TokenManager', () => {
       expect(callback).toHaveBeenCalledOnce();
       expect(tm.getToken()!.accessToken).toBe('refreshed');
     });
+
+    it('shares one in-flight refresh between concurrent callers', async () => {
+      let resolveRefresh!: (token: OAuthToken) => void;
+      const callback = vi
+        .fn()
+        .mockImplementationOnce(
+          () => new Promise<OAuthToken>((resolve) => (resolveRefresh = resolve))
+        )
+        .mockResolvedValue({ accessToken: 'newer', expiresAt: Date.now() + 3600 * 1000 });
+      const tm = new TokenManager({
+        accessToken: 'old',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() - 1000,
+      });
+      tm.setRefreshCallback(callback);
+
+      const refreshes = [tm.refreshToken(), tm.refreshToken(), tm.getAccessToken()];
+      await Promise.resolve();
+      resolveRefresh({
+        accessToken: 'new',
+        refreshToken: 'r2',
+        expiresAt: Date.now() + 3600 * 1000,
+      });
+      const [, , accessToken] = await Promise.all(refreshes);
+
+      expect(callback).toHaveBeenCalledOnce();
+      expect(accessToken).toBe('new');
+
+      // A later refresh starts a new request
+      await tm.refreshToken();
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('notifies refreshed and failed callbacks', async () => {
+      const newToken: OAuthToken = {
+        accessToken: 'new',
+        refreshToken: 'r2',
+        expiresAt: Date.now() + 3600 * 1000,
+      };
+      const failure = new Error('invalid_grant');
+      const callback = vi.fn().mockResolvedValueOnce(newToken).mockRejectedValueOnce(failure);
+      const onRefreshed = vi.fn();
+      const onFailed = vi.fn();
+      const tm = new TokenManager({ accessToken: 'old', refreshToken: 'r1', expiresAt: 0 });
+      tm.setRefreshCallback(callback);
+      tm.setTokenRefreshedCallback(onRefreshed);
+      tm.setRefreshFailedCallback(onFailed);
+
+      await tm.refreshToken();
+      await expect(tm.refreshToken()).rejects.toBe(failure);
+
+      expect(onRefreshed).toHaveBeenCalledWith(newToken);
+      expect(onFailed).toHaveBeenCalledWith(failure);
+    });
+  });
+
+  describe('startAutoRefresh()', () => {
+    it('renews the token before it expires', async () => {
+      const callback = vi.fn(async () => ({
+        accessToken: 'renewed',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 3600 * 1000,
+      }));
+      const tm = new TokenManager({
+        accessToken: 'old',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 3600 * 1000,
+      });
+      tm.setRefreshCallback(callback);
+      tm.startAutoRefresh(60 * 1000);
+
+      await vi.advanceTimersByTimeAsync(59 * 60 * 1000 - 1);
+      expect(callback).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(callback).toHaveBeenCalledOnce();
+      expect(tm.getToken()!.accessToken).toBe('renewed');
+
+      // The renewed token is scheduled too
+      await vi.advanceTimersByTimeAsync(59 * 60 * 1000);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports failures without retrying in a loop', async () => {
+      const onFailed = vi.fn();
+      const tm = new TokenManager({ accessToken: 'old', refreshToken: 'r', expiresAt: Date.now() });
+      tm.setRefreshCallback(vi.fn().mockRejectedValue(new Error('revoked')));
+      tm.setRefreshFailedCallback(onFailed);
+      tm.startAutoRefresh();
+
+      await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      expect(onFailed).toHaveBeenCalledOnce();
+    });
+
+    it('stops renewing after stopAutoRefresh()', async () => {
+      const callback = vi.fn();
+      const tm = new TokenManager({
+        accessToken: 'old',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 3600 * 1000,
+      });
+      tm.setRefreshCallback(callback);
+      tm.startAutoRefresh();
+      tm.stopAutoRefresh();
+
+      await vi.advanceTimersByTimeAsync(2 * 3600 * 1000);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
   });
 
   describe('setToken()', () => {
-    it('calls storage.saveToken when storage is available', () => {
+    it('calls storage.saveToken when storage is available', async () => {
       const storage: TokenStorage = {
         saveToken: vi.fn(),
         loadToken: vi.fn(),
@@ -190,6 +300,7 @@ describe('TokenManager', () => {
         expiresAt: Date.now() + 3600 * 1000,
       };
       tm.setToken(token);
+      await tm.flush();
       expect(storage.saveToken).toHaveBeenCalledWith(token);
     });
 
@@ -207,7 +318,7 @@ describe('TokenManager', () => {
       expect(tm.getToken()).toBeNull();
     });
 
-    it('calls storage.clearToken when storage is available', () => {
+    it('calls storage.clearToken when storage is available', async () => {
       const storage: TokenStorage = {
         saveToken: vi.fn(),
         loadToken: vi.fn(),
@@ -215,6 +326,7 @@ describe('TokenManager', () => {
       };
       const tm = new TokenManager('token', storage);
       tm.clear();
+      await tm.flush();
       expect(storage.clearToken).toHaveBeenCalled();
     });
   });
@@ -235,6 +347,23 @@ describe('TokenManager', () => {
       expect(tm.getToken()!.accessToken).toBe('stored');
     });
 
+    it('keeps and saves a token passed to the constructor', async () => {
+      const storage: TokenStorage = {
+        saveToken: vi.fn(),
+        loadToken: vi.fn().mockResolvedValue({
+          accessToken: 'stale',
+          expiresAt: Date.now() + 3600 * 1000,
+        }),
+        clearToken: vi.fn(),
+      };
+      const tm = new TokenManager('explicit', storage);
+      await tm.loadFromStorage();
+      expect(tm.getToken()!.accessToken).toBe('explicit');
+      expect(storage.saveToken).toHaveBeenCalledWith(
+        expect.objectContaining({ accessToken: 'explicit' })
+      );
+    });
+
     it('does nothing when storage returns null', async () => {
       const storage: TokenStorage = {
         saveToken: vi.fn(),
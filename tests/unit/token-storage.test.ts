@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SWCombine, SWCError } from '../../src/index.js';
+import { FileTokenStorage, MemoryTokenStorage } from '../../src/auth/TokenStorage.js';
+import { TokenManager } from '../../src/auth/TokenManager.js';
+import { OAuthClient } from '../../src/auth/OAuthClient.js';
+import type { OAuthToken } from '../../src/types/index.js';
+
+const storedToken: OAuthToken = {
+  accessToken: 'stored-access',
+  refreshToken: 'stored-refresh',
+  expiresAt: Date.now() + 3600 * 1000,
+};
+
+describe('MemoryTokenStorage', () => {
+  it('returns copies of the saved token', () => {
+    const storage = new MemoryTokenStorage();
+    storage.saveToken(storedToken);
+
+    const loaded = storage.loadToken();
+    expect(loaded).toEqual(storedToken);
+    expect(loaded).not.toBe(storedToken);
+
+    storage.clearToken();
+    expect(storage.loadToken()).toBeNull();
+  });
+});
+
+describe('FileTokenStorage', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'swc-token-'));
+    filePath = path.join(directory, 'nested', 'token.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips a token through a 0600 JSON file', async () => {
+    const storage = new FileTokenStorage(filePath);
+    await storage.saveToken(storedToken);
+
+    expect(await storage.loadToken()).toEqual(storedToken);
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['token.json']);
+  });
+
+  it('returns null when the file does not exist', async () => {
+    expect(await new FileTokenStorage(filePath).loadToken()).toBeNull();
+  });
+
+  it('throws a validation error for malformed token files', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{"accessToken": 42}');
+
+    await expect(new FileTokenStorage(filePath).loadToken()).rejects.toMatchObject({
+      type: 'validation',
+    });
+  });
+
+  it('keeps the file whole when saves and clears are issued back to back', async () => {
+    const storage = new FileTokenStorage(filePath);
+    const manager = new TokenManager(undefined, storage);
+    const short: OAuthToken = { accessToken: 'b', expiresAt: 1 };
+
+    manager.setToken({ ...storedToken, accessToken: 'a'.repeat(5000) });
+    manager.setToken(short);
+    await manager.flush();
+    expect(await storage.loadToken()).toEqual(short);
+
+    manager.setToken(storedToken);
+    manager.clear();
+    await manager.flush();
+    await expect(fs.access(filePath)).rejects.toThrow();
+    expect(await fs.readdir(path.dirname(filePath))).toEqual([]);
+  });
+
+  it('removes the file on clearToken()', async () => {
+    const storage = new FileTokenStorage(filePath);
+    await storage.saveToken(storedToken);
+    await storage.clearToken();
+
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+});
+
+describe('SWCombine tokenStorage', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads the stored token on startup', async () => {
+    const client = new SWCombine({ tokenStorage: new MemoryTokenStorage(storedToken) });
+    await client.ready();
+
+    expect(client.getToken()).toEqual(storedToken);
+  });
+
+  it('rejects ready() when the storage cannot be read', async () => {
+    const client = new SWCombine({
+      token: 'fallback-token',
+      tokenStorage: {
+        loadToken: () => Promise.reject(new SWCError('disk error', { type: 'unknown' })),
+        saveToken: vi.fn(),
+        clearToken: vi.fn(),
+      },
+    });
+
+    await expect(client.ready()).rejects.toThrow('disk error');
+    expect(client.getToken()?.accessToken).toBe('fallback-token');
+  });
+
+  it('saves the token after handleCallback', async () => {
+    const newToken: OAuthToken = { accessToken: 'new', refreshToken: 'r', expiresAt: 1 };
+    vi.spyOn(OAuthClient.prototype, 'handleCallback').mockResolvedValue({
+      success: true,
+      token: newToken,
+    });
+    const storage = new MemoryTokenStorage();
+    const client = new SWCombine({ clientId: 'id', clientSecret: 'secret', tokenStorage: storage });
+
+    await client.auth.handleCallback({ code: 'abc' });
+
+    expect(storage.loadToken()).toEqual(newToken);
+  });
+
+  it('saves the token after every refresh', async () => {
+    const refreshed: OAuthToken = {
+      accessToken: 'refreshed',
+      refreshToken: 'stored-refresh',
+      expiresAt: Date.now() + 3600 * 1000,
+    };
+    vi.spyOn(OAuthClient.prototype, 'refreshToken').mockResolvedValue(refreshed);
+    const storage = new MemoryTokenStorage(storedToken);
+    const client = new SWCombine({ clientId: 'id', clientSecret: 'secret', tokenStorage: storage });
+    await client.ready();
+
+    await client.refreshToken();
+
+    expect(storage.loadToken()).toEqual(refreshed);
+  });
+});
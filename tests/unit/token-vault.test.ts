@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { SWCombine, SWCError, TokenVault } from '../../src/index.js';
+import { OAuthClient } from '../../src/auth/OAuthClient.js';
+import type { OAuthToken } from '../../src/types/index.js';
+
+const expiresAt = Date.now() + 3600 * 1000;
+
+function token(accessToken: string, refreshToken = `${accessToken}-refresh`): OAuthToken {
+  return { accessToken, refreshToken, expiresAt };
+}
+
+/**
+ * Replace the network layer of a client with a fake adapter
+ */
+function stubNetwork(client: SWCombine, adapter: AxiosAdapter): void {
+  const http = (client as unknown as { http: { axios: { defaults: { adapter: AxiosAdapter } } } })
+    .http;
+  http.axios.defaults.adapter = adapter;
+}
+
+function ok(config: InternalAxiosRequestConfig, data: unknown) {
+  return Promise.resolve({ data, status: 200, statusText: 'OK', headers: {}, config });
+}
+
+describe('TokenVault', () => {
+  it('stores entries by character UID', () => {
+    const vault = new TokenVault(vi.fn());
+    vault.set('1:1', token('a'), 'Luke');
+    vault.set('1:2', token('b'));
+    vault.set('1:1', token('a2'));
+
+    expect(vault.get('1:1')).toEqual({ uid: '1:1', name: 'Luke', token: token('a2') });
+    expect(vault.list().map((entry) => entry.uid)).toEqual(['1:1', '1:2']);
+
+    expect(vault.delete('1:2')).toBe(true);
+    expect(vault.has('1:2')).toBe(false);
+  });
+
+  it('throws an auth error for unknown characters', () => {
+    const vault = new TokenVault(vi.fn());
+
+    expect(() => vault.tokenManager('1:404')).toThrow(SWCError);
+    expect(() => vault.tokenManager('1:404')).toThrow('No token stored for character 1:404');
+  });
+
+  it('refreshes each entry with its own refresh token, once per concurrent burst', async () => {
+    let resolveRefresh!: (value: OAuthToken) => void;
+    const refreshHandler = vi.fn(
+      () => new Promise<OAuthToken>((resolve) => (resolveRefresh = resolve))
+    );
+    const vault = new TokenVault(refreshHandler);
+    vault.set('1:1', token('a'));
+    vault.set('1:2', token('b'));
+
+    const first = vault.refresh('1:1');
+    const second = vault.refresh('1:1');
+    resolveRefresh(token('a-new'));
+    await Promise.all([first, second]);
+
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(refreshHandler).toHaveBeenCalledWith('a-refresh');
+    expect(vault.get('1:1')?.token.accessToken).toBe('a-new');
+    expect(vault.get('1:2')?.token.accessToken).toBe('b');
+  });
+});
+
+describe('SWCombine vault integration', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends each scoped view with its own access token', async () => {
+    const client = new SWCombine({ token: 'default-token' });
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => ok(config, {}));
+    stubNetwork(client, adapter);
+    client.vault.set('1:1', token('luke-token'));
+    client.vault.set('1:2', token('leia-token'));
+
+    await client.as('1:1').character.me();
+    await client.as('1:2').character.me();
+    await client.character.me();
+
+    const tokens = adapter.mock.calls.map(([config]) => config.params.access_token);
+    expect(tokens).toEqual(['luke-token', 'leia-token', 'default-token']);
+    expect(client.as('1:1')).toBe(client.as('1:1'));
+  });
+
+  it('offers batch() and withPriority() on scoped views', async () => {
+    const client = new SWCombine({ token: 'default-token' });
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => ok(config, {}));
+    stubNetwork(client, adapter);
+    client.vault.set('1:1', token('luke-token'));
+    const luke = client.as('1:1');
+
+    const results = await luke.batch([() => luke.character.me()]);
+    await luke.withPriority('interactive', () => luke.character.me());
+
+    expect(results[0].status).toBe('fulfilled');
+    const tokens = adapter.mock.calls.map(([config]) => config.params.access_token);
+    expect(tokens).toEqual(['luke-token', 'luke-token']);
+  });
+
+  it('throws when acting as a character that is not in the vault', () => {
+    const client = new SWCombine();
+
+    expect(() => client.as('1:404')).toThrow(SWCError);
+  });
+
+  it('adds authorized characters to the vault with auth.addCharacter()', async () => {
+    vi.spyOn(OAuthClient.prototype, 'handleCallback').mockResolvedValue({
+      success: true,
+      token: token('han-token'),
+    });
+    const client = new SWCombine({ clientId: 'id', clientSecret: 'secret', token: 'bot-token' });
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) =>
+      ok(config, { swcapi: { character: { uid: '1:5', name: 'Han Solo' } } })
+    );
+    stubNetwork(client, adapter);
+
+    const entry = await client.auth.addCharacter({ code: 'abc' });
+
+    expect(entry).toEqual({ uid: '1:5', name: 'Han Solo', token: token('han-token') });
+    expect(adapter.mock.calls[0][0].params.access_token).toBe('han-token');
+    expect(client.getToken()?.accessToken).toBe('bot-token');
+  });
+
+  it('rejects failed authorizations in auth.addCharacter()', async () => {
+    vi.spyOn(OAuthClient.prototype, 'handleCallback').mockResolvedValue({
+      success: false,
+      error: 'access_denied',
+    });
+    const client = new SWCombine({ clientId: 'id', clientSecret: 'secret' });
+
+    await expect(client.auth.addCharacter({ error: 'access_denied' })).rejects.toMatchObject({
+      type: 'auth',
+      message: 'Authorization failed: access_denied',
+    });
+  });
+});
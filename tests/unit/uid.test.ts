@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { SWCombine, SWCValidationError, Uid } from '../../src/index.js';
+
+function createClient() {
+  const adapter = vi.fn((config: InternalAxiosRequestConfig) =>
+    Promise.resolve({
+      data: { swcapi: { response: { uid: '1:12345', name: 'Luke' } } },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    })
+  );
+  const client = new SWCombine({ token: 'token', maxRetries: 0 });
+  (client as any).http.axios.defaults.adapter = adapter;
+  return { client, adapter };
+}
+
+describe('Uid', () => {
+  it('parses type:id strings and maps the prefix to a kind', () => {
+    const uid = Uid.parse(' 1:12345 ');
+
+    expect(uid.type).toBe(1);
+    expect(uid.id).toBe(12345);
+    expect(uid.kind).toBe('character');
+    expect(uid.is('character')).toBe(true);
+    expect(Uid.parse('20:123').kind).toBe('faction');
+    expect(Uid.parse('999:1').kind).toBeUndefined();
+  });
+
+  it('rejects strings that are not UIDs', () => {
+    expect(() => Uid.parse('luke')).toThrow(SWCValidationError);
+    expect(() => Uid.parse('1:')).toThrow('expected "type:id"');
+    expect(() => new Uid(1, -1)).toThrow(SWCValidationError);
+    expect(Uid.tryParse('1:2:3')).toBeUndefined();
+    expect(Uid.isUid('2:5')).toBe(true);
+    expect(Uid.isUid(12345)).toBe(false);
+  });
+
+  it('builds, compares and formats UIDs', () => {
+    const uid = Uid.of('character', 12345);
+
+    expect(uid.toString()).toBe('1:12345');
+    expect(JSON.stringify({ uid })).toBe('{"uid":"1:12345"}');
+    expect(uid.equals('1:12345')).toBe(true);
+    expect(uid.equals(Uid.of('faction', 12345))).toBe(false);
+    expect(uid.format('Luke Skywalker')).toBe('Luke Skywalker (character 1:12345)');
+    expect(new Uid(999, 1).format()).toBe('999:1');
+  });
+
+  it('checks the kind of a UID and passes other identifiers through', () => {
+    expect(Uid.expect('20:1', 'faction')).toBe('20:1');
+    expect(Uid.expect(Uid.of('ship', 7), ['ship', 'vehicle'])).toBe('2:7');
+    expect(Uid.expect('Luke Skywalker', 'character')).toBe('Luke Skywalker');
+    expect(Uid.expect('999:1', 'character')).toBe('999:1');
+    expect(() => Uid.expect('2:7', 'character')).toThrow(
+      'uid 2:7 is a ship UID; expected a character UID.'
+    );
+    expect(() => Uid.expect('1:1', ['character', 'faction'], 'factionId')).not.toThrow();
+  });
+});
+
+describe('resource UID checks', () => {
+  it('accepts Uid objects', async () => {
+    const { client, adapter } = createClient();
+
+    await client.character.get({ uid: Uid.of('character', 12345) });
+    await client.inventory.entities.get({ entityType: 'ships', uid: Uid.of('ship', 7) });
+
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+      '/character/1:12345',
+      '/inventory/ships/2:7',
+    ]);
+  });
+
+  it('rejects mistyped UIDs before sending', async () => {
+    const { client, adapter } = createClient();
+
+    await expect(client.character.get({ uid: '2:7' })).rejects.toThrow(
+      'uid 2:7 is a ship UID; expected a character UID.'
+    );
+    await expect(client.faction.credits.get({ factionId: '1:12345' })).rejects.toThrow(
+      'factionId 1:12345 is a character UID'
+    );
+    await expect(
+      client.inventory.entities.get({ entityType: 'vehicles', uid: '2:7' })
+    ).rejects.toBeInstanceOf(SWCValidationError);
+    await expect(client.galaxy.planets.get({ uid: '24:1' })).rejects.toThrow(
+      'expected a planet UID'
+    );
+
+    expect(adapter).not.toHaveBeenCalled();
+  });
+});